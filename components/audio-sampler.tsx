@@ -2,17 +2,74 @@
 
 import { useState, useEffect, useRef } from "react"
 import { AppShell } from "@/components/app-shell"
-import WaveformWavesurfer from "@/components/waveform-wavesurfer"
+import WaveformWavesurfer, { type WaveformRestoreRequest } from "@/components/waveform-wavesurfer"
 import { TransportControls } from "@/components/transport-controls"
 import DrumPads from "@/components/drum-pads"
 import VideoDisplay from "@/components/video-display"
 import Sequencer from "@/components/sequencer"
+import PatternBank from "@/components/pattern-bank"
+import SongArrangement from "@/components/song-arrangement"
 import EffectsPanel from "@/components/effects-panel"
 import MasterControls from "@/components/master-controls"
+import { ExportModal } from "@/components/export-modal"
+import { SaveProjectModal } from "@/components/save-project-modal"
+import { OpenProjectModal } from "@/components/open-project-modal"
+import { RestoreSessionModal } from "@/components/restore-session-modal"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { AudioWaveform as Waveform, Video, Music, Sliders } from 'lucide-react'
-import { audioEngine, type AudioSlice, type AudioSection } from "@/lib/audio-engine"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AudioWaveform as Waveform, Video, Music, Sliders, Download, Wand2, X, FileText } from 'lucide-react'
+import {
+  audioEngine,
+  type AudioSlice,
+  type AudioSection,
+  type LaunchQuantization,
+  type PlaybackOptions,
+} from "@/lib/audio-engine"
+import {
+  createEffectState,
+  denormalizeEffectParameter,
+  formatEffectParameter,
+  getEffectDescriptor,
+  type EffectState,
+} from "@/lib/audio-effects"
+import { midiManager, type MidiControlTarget, type MidiPadEvent } from "@/lib/midi"
+import {
+  createEmptyPattern,
+  describePatternChange,
+  sequencerEngine,
+  type SequencerPattern,
+  type SongEntry,
+} from "@/lib/sequencer-engine"
 import { mediaLibrary } from "@/lib/media-library"
+import type { Annotation } from "@/lib/annotations"
+import { detectLyricsFormat, formatLrc, formatSrt, parseLyrics } from "@/lib/lyrics"
+import { downloadBlob, sanitizeFileName } from "@/lib/audio-export"
+import { historyStore, type HistorySnapshot, type PatternSnapshot } from "@/lib/history"
+import { assignKitTracks, buildKitPattern, DRUM_CLASS_LABELS } from "@/lib/drum-kit"
+import { assignSlicesToSections } from "@/lib/slice-editing"
+import { AnalysisCancelledError } from "@/lib/audio-analysis"
+import type { ProjectSession } from "@/lib/project-file"
+import { projectStore, type ProjectSummary } from "@/lib/project-store"
+
+// Wait this long after the last change before autosaving (ms)
+const AUTOSAVE_DELAY = 2000
+
+// Patterns of the bank that differ between two versions, as history snapshots
+function diffPatterns(before: SequencerPattern[], after: SequencerPattern[]) {
+  const changed = after.flatMap((pattern, index) => (pattern !== before[index] ? [index] : []))
+  return {
+    before: changed.map((index): PatternSnapshot => ({ index, pattern: before[index] })),
+    after: changed.map((index): PatternSnapshot => ({ index, pattern: after[index] })),
+  }
+}
+
+// Text fields keep their own undo for Cmd/Ctrl+Z
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA"
+}
 
 export default function AudioSampler() {
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null)
@@ -25,6 +82,7 @@ export default function AudioSampler() {
   const [slices, setSlices] = useState<AudioSlice[]>([])
   const [sections, setSections] = useState<AudioSection[]>([])
   const [bpm, setBpm] = useState(120)
+  const [pitch, setPitch] = useState(0)
   const [masterVolume, setMasterVolume] = useState(80)
   const [activePad, setActivePad] = useState<number | null>(null)
   const [activeTab, setActiveTab] = useState("audio")
@@ -33,7 +91,24 @@ export default function AudioSampler() {
   const [loopEnd, setLoopEnd] = useState(1)
   const [playbackPosition, setPlaybackPosition] = useState(0)
   const [currentMediaId, setCurrentMediaId] = useState<string | null>(null)
+  const [launchQuantization, setLaunchQuantization] = useState<LaunchQuantization>("slice-end")
+  const [queuedSlice, setQueuedSlice] = useState<number | null>(null)
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [sourceFile, setSourceFile] = useState<File | null>(null)
+  const [restoreRequest, setRestoreRequest] = useState<WaveformRestoreRequest | null>(null)
+  const [projectName, setProjectName] = useState("Untitled Project")
+  const [projectId, setProjectId] = useState(() => projectStore.createProjectId())
+  const [autoSave, setAutoSave] = useState(() => projectStore.getSettings().autoSave)
+  const [mediaRevision, setMediaRevision] = useState(0)
+  const [recoveryProject, setRecoveryProject] = useState<ProjectSummary | null>(null)
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [openDialogOpen, setOpenDialogOpen] = useState(false)
+  const [undoDescription, setUndoDescription] = useState<string | null>(null)
+  const [redoDescription, setRedoDescription] = useState<string | null>(null)
+  const [keyFilter, setKeyFilter] = useState<string | null>(null)
+  const [isBuildingKit, setIsBuildingKit] = useState(false)
   const bpmRef = useRef(120)
+  const lyricsInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     let isInitialized = false
@@ -57,23 +132,124 @@ export default function AudioSampler() {
     }
   }, [])
 
-  const handleAudioLoad = (buffer: AudioBuffer, detectedSlices: AudioSlice[], detectedSections: AudioSection[]) => {
+  // `edit` is set when the user changed the slices/sections, so the change can be undone.
+  // Only freshly `detected` slices re-point the kit tracks; edits keep the user's assignments.
+  // Detection on a newly loaded file passes no `edit`, so its assignment is not recorded either.
+  const handleAudioLoad = (
+    buffer: AudioBuffer,
+    detectedSlices: AudioSlice[],
+    detectedSections: AudioSection[],
+    edit?: string,
+    detected = false,
+  ) => {
     // Only update if the buffer actually changed
     if (buffer !== audioBuffer) {
       setAudioBuffer(buffer)
     }
 
+    const slicesChanged = JSON.stringify(detectedSlices) !== JSON.stringify(slices)
+    const sectionsChanged = JSON.stringify(detectedSections) !== JSON.stringify(sections)
+
+    // Classified drum hits go straight onto the sequencer tracks
+    const nextPatterns =
+      detected && slicesChanged ? patterns.map((pattern) => assignKitTracks(pattern, detectedSlices)) : patterns
+    const patternChanges = diffPatterns(patterns, nextPatterns)
+
+    if (edit && (slicesChanged || sectionsChanged)) {
+      historyStore.record(
+        edit,
+        { slices, sections, ...(patternChanges.before.length > 0 && { patterns: patternChanges.before }) },
+        { slices: detectedSlices, sections: detectedSections, ...(patternChanges.after.length > 0 && { patterns: patternChanges.after }) },
+      )
+    }
+
+    if (patternChanges.after.length > 0) {
+      setPatterns(nextPatterns)
+    }
+
     // Only update slices if they've actually changed
-    if (JSON.stringify(detectedSlices) !== JSON.stringify(slices)) {
+    if (slicesChanged) {
       setSlices(detectedSlices)
     }
 
     // Only update sections if they've actually changed
-    if (JSON.stringify(detectedSections) !== JSON.stringify(sections)) {
+    if (sectionsChanged) {
       setSections(detectedSections)
     }
   }
 
+  // A newly loaded file starts a fresh history
+  const handleFileLoad = (file: File) => {
+    setSourceFile(file)
+    historyStore.clear()
+  }
+
+  const updateAnnotations = (next: Annotation[], description: string, mergeKey?: string) => {
+    historyStore.record(description, { annotations }, { annotations: next }, mergeKey)
+    setAnnotations(next)
+  }
+
+  const handleAnnotationTextChange = (id: string, text: string) => {
+    updateAnnotations(
+      annotations.map((annotation) => (annotation.id === id ? { ...annotation, text } : annotation)),
+      "Edit annotation text",
+      `annotation:${id}:text`,
+    )
+  }
+
+  // Detected phrases replace the current annotations
+  const handleAnnotationsDetect = (detected: Annotation[]) => {
+    updateAnnotations(detected, "Detect vocal phrases")
+    setCurrentAnnotation(null)
+  }
+
+  const handleAnnotationTimingChange = (id: string, startTime: number, endTime: number) => {
+    updateAnnotations(
+      annotations.map((annotation) => (annotation.id === id ? { ...annotation, startTime, endTime } : annotation)),
+      "Move annotation",
+      `annotation:${id}:timing`,
+    )
+  }
+
+  // LRC and SRT keep their own timing; plain text is spread over the sung phrases,
+  // detecting them first if there are no annotations yet
+  const handleLyricsFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file || !audioBuffer) return
+
+    try {
+      const content = await file.text()
+      const format = detectLyricsFormat(file.name, content)
+      const phrases =
+        format === "text" && annotations.length === 0 ? await audioEngine.detectVocalPhrases() : annotations
+      const imported = parseLyrics(content, format, { phrases, duration: audioBuffer.duration })
+      if (imported.length === 0) {
+        console.warn(`No lyrics found in ${file.name}`)
+        return
+      }
+      updateAnnotations(imported, `Import lyrics from ${file.name}`)
+      setCurrentAnnotation(null)
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) console.error("Error importing lyrics:", error)
+    }
+  }
+
+  const handleLyricsExport = (format: "lrc" | "srt") => {
+    const content = format === "lrc" ? formatLrc(annotations) : formatSrt(annotations)
+    downloadBlob(new Blob([content], { type: "text/plain" }), `${sanitizeFileName(projectName)}.${format}`)
+  }
+
+  const handleAnnotationDelete = (id: string) => {
+    updateAnnotations(
+      annotations.filter((annotation) => annotation.id !== id),
+      "Delete annotation",
+    )
+    if (currentAnnotation === id) {
+      setCurrentAnnotation(null)
+    }
+  }
+
   const handleVideoFileLoad = (file: File) => {
     setVideoFile(file)
   }
@@ -89,13 +265,12 @@ export default function AudioSampler() {
     } else {
       // Start playback
       if (audioBuffer) {
-        // Calculate playback rate based on BPM (120 BPM is the base rate)
-        const playbackRate = bpm / 120
-
-        const options: any = {
+        // Stretch tempo based on BPM (120 BPM is the base tempo); pitch is set separately
+        const options: PlaybackOptions = {
           loop: isLooping,
           volume: masterVolume / 100,
-          rate: playbackRate,
+          stretch: bpm / 120,
+          semitones: pitch,
         }
 
         if (isLooping) {
@@ -134,8 +309,6 @@ export default function AudioSampler() {
     const slice = slices.find((s) => s.id === index)
     if (slice && audioBuffer) {
       const newPosition = slice.startSample / audioBuffer.length
-      setPlaybackPosition(newPosition)
-      setCurrentSlice(index)
 
       // Update current media for video playback
       const media = mediaLibrary.getMediaForSlice(index)
@@ -145,12 +318,15 @@ export default function AudioSampler() {
 
       // If currently playing, seek to this position
       if (isPlaying && currentPlaybackId) {
+        setPlaybackPosition(newPosition)
+        setCurrentSlice(index)
         audioEngine.stopPlayback(currentPlaybackId)
 
-        const options: any = {
+        const options: PlaybackOptions = {
           loop: isLooping,
           volume: masterVolume / 100,
-          rate: bpm / 120,
+          stretch: bpm / 120,
+          semitones: pitch,
         }
 
         if (isLooping) {
@@ -162,6 +338,16 @@ export default function AudioSampler() {
         if (newPlaybackId) {
           setCurrentPlaybackId(newPlaybackId)
         }
+      } else {
+        // Otherwise launch the slice; the launch listener moves the playhead
+        // once the (possibly queued) slice actually starts
+        audioEngine.launchSlice(index, {
+          quantize: launchQuantization,
+          loop: isLooping,
+          volume: masterVolume / 100,
+          stretch: bpm / 120,
+          semitones: pitch,
+        })
       }
     }
   }
@@ -192,46 +378,102 @@ export default function AudioSampler() {
     audioEngine.setMasterVolume(masterVolume / 100) // Convert 0-100 to 0-1
   }, [masterVolume])
 
-  const [effects, setEffects] = useState([
-    {
-      id: "effect1",
-      name: "Reverb",
-      enabled: true,
-      parameters: [
-        { name: "Size", value: 50 },
-        { name: "Decay", value: 30 },
-        { name: "Mix", value: 40 },
-      ],
-    },
-    {
-      id: "effect2",
-      name: "Delay",
-      enabled: false,
-      parameters: [
-        { name: "Time", value: 120 },
-        { name: "Feedback", value: 40 },
-        { name: "Mix", value: 50 },
-      ],
-    },
+  const [effects, setEffects] = useState<EffectState[]>(() => [
+    createEffectState("reverb", "effect1", true),
+    createEffectState("delay", "effect2"),
+    createEffectState("filter", "effect3"),
+    createEffectState("compressor", "effect4"),
+    createEffectState("distortion", "effect5"),
+    createEffectState("bitcrusher", "effect6"),
   ])
 
+  // Latest chain, including edits not rendered yet (MIDI CCs can arrive faster than renders)
+  const effectsRef = useRef(effects)
+  effectsRef.current = effects
+
+  useEffect(() => {
+    audioEngine.setEffects(effects)
+  }, [effects])
+
+  const updateEffects = (next: EffectState[], description: string, mergeKey?: string) => {
+    historyStore.record(description, { effects: effectsRef.current }, { effects: next }, mergeKey)
+    effectsRef.current = next
+    setEffects(next)
+  }
+
   const toggleEffect = (id: string) => {
-    setEffects(effects.map((effect) => (effect.id === id ? { ...effect, enabled: !effect.enabled } : effect)))
-  }
-
-  const updateEffectParam = (id: string, paramName: string, value: number) => {
-    setEffects(
-      effects.map((effect) =>
-        effect.id === id
-          ? {
-              ...effect,
-              parameters: effect.parameters.map((param) => (param.name === paramName ? { ...param, value } : param)),
-            }
-          : effect,
+    const target = effectsRef.current.find((effect) => effect.id === id)
+    if (!target) return
+    updateEffects(
+      effectsRef.current.map((effect) => (effect.id === id ? { ...effect, enabled: !effect.enabled } : effect)),
+      `${target.enabled ? "Disable" : "Enable"} ${getEffectDescriptor(target.type).name}`,
+    )
+  }
+
+  const updateEffectParam = (id: string, paramId: string, value: number) => {
+    const target = effectsRef.current.find((effect) => effect.id === id)
+    const param = target && getEffectDescriptor(target.type).parameters.find((item) => item.id === paramId)
+    if (!target || !param) return
+    updateEffects(
+      effectsRef.current.map((effect) =>
+        effect.id === id ? { ...effect, parameters: { ...effect.parameters, [paramId]: value } } : effect,
       ),
+      `Set ${getEffectDescriptor(target.type).name} ${param.name} to ${formatEffectParameter(param, value)}`,
+      `effect:${id}:${paramId}`,
     )
   }
 
+  // MIDI: note-on plays the mapped pad with velocity as gain, learned CCs drive volume, tempo and effects
+  const handleMidiPad = (event: MidiPadEvent) => {
+    if (!slices.some((slice) => slice.id === event.pad)) return
+    setActivePad(event.pad)
+    audioEngine.playSlice(event.pad, {
+      volume: (masterVolume / 100) * event.velocity,
+      stretch: bpm / 120,
+      semitones: pitch,
+    })
+  }
+
+  const handleMidiControl = (target: MidiControlTarget, value: number) => {
+    if (target.kind === "masterVolume") {
+      setMasterVolume(Math.round(value * 100))
+    } else if (target.kind === "bpm") {
+      setBpm(Math.round(40 + value * 260))
+    } else {
+      const effect = effectsRef.current.find((item) => item.id === target.effectId)
+      const param = effect && getEffectDescriptor(effect.type).parameters.find((item) => item.id === target.paramId)
+      if (!param) return
+      updateEffectParam(target.effectId, param.id, denormalizeEffectParameter(param, value))
+    }
+  }
+
+  const midiPadHandlerRef = useRef(handleMidiPad)
+  const midiControlHandlerRef = useRef(handleMidiControl)
+  midiPadHandlerRef.current = handleMidiPad
+  midiControlHandlerRef.current = handleMidiControl
+
+  useEffect(() => {
+    midiManager.connect().catch((err) => console.error("Failed to connect MIDI:", err))
+    const removePadListener = midiManager.addPadListener((event) => midiPadHandlerRef.current(event))
+    const removeControlListener = midiManager.addControlListener((target, value) =>
+      midiControlHandlerRef.current(target, value),
+    )
+
+    return () => {
+      removePadListener()
+      removeControlListener()
+      midiManager.dispose()
+    }
+  }, [])
+
+  const reorderEffect = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return
+    const reordered = [...effectsRef.current]
+    const [moved] = reordered.splice(fromIndex, 1)
+    reordered.splice(toIndex, 0, moved)
+    updateEffects(reordered, `Move ${getEffectDescriptor(moved.type).name}`)
+  }
+
   const handlePlaybackPositionChange = (position: number) => {
     setPlaybackPosition(position)
   }
@@ -251,21 +493,402 @@ export default function AudioSampler() {
     setCurrentAnnotation(annotationId)
   }
 
+  // Drop the key filter once no slice has that key (new file, re-detection, edits), since the
+  // filter's Select only lists keys the slices have
+  useEffect(() => {
+    if (keyFilter && !slices.some((slice) => slice.key === keyFilter)) {
+      setKeyFilter(null)
+    }
+  }, [slices, keyFilter])
+
   useEffect(() => {
     bpmRef.current = bpm
+    audioEngine.setTempo(bpm)
+    sequencerEngine.setTempo(bpm)
   }, [bpm])
 
+  const [patterns, setPatterns] = useState<SequencerPattern[]>(() =>
+    Array.from({ length: 4 }, () => createEmptyPattern(8, 16)),
+  )
+  const [editingPattern, setEditingPattern] = useState(0)
+  const [activePattern, setActivePattern] = useState(0)
+  const [queuedPattern, setQueuedPattern] = useState<number | null>(null)
+  const [arrangement, setArrangement] = useState<SongEntry[]>([])
+  const [songMode, setSongMode] = useState(false)
+  const [songEntry, setSongEntry] = useState<number | null>(null)
+  const [swing, setSwing] = useState(0)
+
+  useEffect(() => {
+    sequencerEngine.setPatterns(patterns)
+  }, [patterns])
+
+  useEffect(() => {
+    sequencerEngine.setArrangement(arrangement)
+  }, [arrangement])
+
+  useEffect(() => {
+    sequencerEngine.setSongMode(songMode)
+  }, [songMode])
+
+  // Follow the sequencer so the pattern bank shows what is audible, and the grid follows song mode
+  useEffect(() => {
+    return sequencerEngine.addStepListener((position) => {
+      if (!position) {
+        setActivePattern(sequencerEngine.getActivePattern())
+        setQueuedPattern(sequencerEngine.getQueuedPattern())
+        setSongEntry(null)
+        return
+      }
+      setActivePattern(position.pattern)
+      setQueuedPattern(position.queuedPattern)
+      setSongEntry(position.songEntry)
+      if (position.songEntry !== null) {
+        setEditingPattern(position.pattern)
+      }
+    })
+  }, [])
+
+  const handleSelectPattern = (index: number) => {
+    setEditingPattern(index)
+    if (!songMode) {
+      sequencerEngine.queuePattern(index)
+      setActivePattern(sequencerEngine.getActivePattern())
+      setQueuedPattern(sequencerEngine.getQueuedPattern())
+    }
+  }
+
+  const handleSequenceChange = (pattern: SequencerPattern) => {
+    handlePatternsChange(patterns.map((item, index) => (index === editingPattern ? pattern : item)))
+  }
+
+  // Record which patterns of the bank changed, then apply the new bank
+  const handlePatternsChange = (next: SequencerPattern[]) => {
+    const { before, after } = diffPatterns(patterns, next)
+
+    if (after.length === 1 && before[0].pattern) {
+      const { index } = after[0]
+      const change = describePatternChange(before[0].pattern, after[0].pattern)
+      historyStore.record(
+        `Pattern ${index + 1}: ${change.description}`,
+        { patterns: before },
+        { patterns: after },
+        change.mergeKey && `pattern:${index}:${change.mergeKey}`,
+      )
+    } else if (after.length > 0) {
+      historyStore.record("Edit patterns", { patterns: before }, { patterns: after })
+    }
+    setPatterns(next)
+  }
+
+  // Classify the slices on screen as drum hits (unless they already are), put them on the pads and
+  // program them into the pattern on the loop's own 16th-note grid
+  const handleBuildKit = async () => {
+    if (!audioBuffer || slices.length === 0) return
+
+    setIsBuildingKit(true)
+    try {
+      const kitSlices = slices.some((slice) => slice.drumClass)
+        ? slices
+        : await audioEngine.classifyDrumSlices(slices)
+      const loopBpm = audioEngine.getBeats()?.bpm ?? (await audioEngine.detectBPM())
+      const kitSections = assignSlicesToSections(sections, kitSlices)
+      const nextPatterns = patterns.map((pattern, index) =>
+        index === editingPattern
+          ? buildKitPattern(pattern, kitSlices, audioBuffer.sampleRate, loopBpm)
+          : assignKitTracks(pattern, kitSlices),
+      )
+      const patternChanges = diffPatterns(patterns, nextPatterns)
+
+      historyStore.record(
+        "Build kit from loop",
+        { slices, sections, patterns: patternChanges.before },
+        { slices: kitSlices, sections: kitSections, patterns: patternChanges.after },
+      )
+      setSlices(kitSlices)
+      setSections(kitSections)
+      setPatterns(nextPatterns)
+    } catch (err) {
+      if (err instanceof AnalysisCancelledError) return
+      console.error("Failed to build kit:", err)
+    } finally {
+      setIsBuildingKit(false)
+    }
+  }
+
+  // Put back the state stored in a history entry
+  const applySnapshot = (snapshot: HistorySnapshot) => {
+    if (snapshot.slices) setSlices(snapshot.slices)
+    if (snapshot.sections) setSections(snapshot.sections)
+    if (snapshot.annotations) setAnnotations(snapshot.annotations)
+    if (snapshot.effects) setEffects(snapshot.effects)
+    if (snapshot.patterns) {
+      const restored = snapshot.patterns
+      setPatterns((prev) =>
+        prev.map((pattern, index) => restored.find((item) => item.index === index)?.pattern ?? pattern),
+      )
+    }
+  }
+
+  const handleUndo = () => {
+    const entry = historyStore.undo()
+    if (entry) applySnapshot(entry.before)
+  }
+
+  const handleRedo = () => {
+    const entry = historyStore.redo()
+    if (entry) applySnapshot(entry.after)
+  }
+
+  const undoHandlerRef = useRef(handleUndo)
+  const redoHandlerRef = useRef(handleRedo)
+  undoHandlerRef.current = handleUndo
+  redoHandlerRef.current = handleRedo
+
+  useEffect(() => {
+    return historyStore.addListener(() => {
+      setUndoDescription(historyStore.getUndoDescription())
+      setRedoDescription(historyStore.getRedoDescription())
+    })
+  }, [])
+
+  useEffect(() => {
+    sequencerEngine.setSwing(swing)
+  }, [swing])
+
+  useEffect(() => {
+    sequencerEngine.setVoiceOptions({ volume: masterVolume / 100, stretch: bpm / 120, semitones: pitch })
+  }, [masterVolume, bpm, pitch])
+
+  useEffect(() => {
+    return () => sequencerEngine.stop()
+  }, [])
+
+  // Snapshot everything a project file stores
+  const getProjectSession = (name: string): ProjectSession => ({
+    name,
+    audioFile: sourceFile,
+    sampleRate: audioBuffer?.sampleRate,
+    duration: audioBuffer?.duration,
+    slices,
+    sections,
+    annotations,
+    bpm,
+    pitch,
+    masterVolume,
+    isLooping,
+    loopStart,
+    loopEnd,
+    launchQuantization,
+    effects,
+    patterns,
+    editingPattern,
+    arrangement,
+    songMode,
+    swing,
+    media: mediaLibrary.getAllMedia().map((item) => ({
+      id: item.id,
+      type: item.type,
+      file: item.file,
+      sliceId: item.sliceId,
+    })),
+    history: historyStore.getState(),
+  })
+
+  // Replace the current session with an opened project; library projects keep their id so autosave updates them
+  const handleOpenProject = async (session: ProjectSession, openedProjectId?: string) => {
+    stopPlayback()
+    sequencerEngine.stop()
+    audioEngine.stopAllPlayback()
+
+    mediaLibrary.clear()
+    for (const item of session.media) {
+      await mediaLibrary.addMedia(item.file, item.type, item.id)
+      if (item.sliceId !== undefined) {
+        mediaLibrary.assignToSlice(item.id, item.sliceId)
+      }
+    }
+    setCurrentMediaId(null)
+    setMediaRevision((revision) => revision + 1)
+
+    setProjectId(openedProjectId ?? projectStore.createProjectId())
+    setProjectName(session.name)
+    setSourceFile(session.audioFile)
+    historyStore.setState(session.history)
+    setBpm(session.bpm)
+    setPitch(session.pitch)
+    setMasterVolume(session.masterVolume)
+    setIsLooping(session.isLooping)
+    setLoopStart(session.loopStart)
+    setLoopEnd(session.loopEnd)
+    setPlaybackPosition(0)
+    setLaunchQuantization(session.launchQuantization)
+    setEffects(session.effects)
+    setAnnotations(session.annotations)
+
+    sequencerEngine.setPatterns(session.patterns)
+    sequencerEngine.queuePattern(session.editingPattern)
+    setPatterns(session.patterns)
+    setEditingPattern(session.editingPattern)
+    setActivePattern(sequencerEngine.getActivePattern())
+    setQueuedPattern(null)
+    setArrangement(session.arrangement)
+    setSongMode(session.songMode)
+    setSwing(session.swing)
+
+    setCurrentSlice(null)
+    setCurrentSection(null)
+    setActivePad(null)
+    if (session.audioFile) {
+      setRestoreRequest({ file: session.audioFile, slices: session.slices, sections: session.sections })
+    } else {
+      setSlices(session.slices)
+      setSections(session.sections)
+    }
+  }
+
+  const restoreProject = async (project: ProjectSummary) => {
+    await handleOpenProject(await projectStore.loadProject(project.id), project.id)
+    setRecoveryProject(null)
+  }
+
+  const discardRecovery = () => {
+    setRecoveryProject(null)
+    projectStore.clearLastSession().catch((err) => console.error("Failed to clear the last session:", err))
+  }
+
+  const restoreProjectRef = useRef(restoreProject)
+  restoreProjectRef.current = restoreProject
+
+  // After a reload or crash, reopen the last session or offer to restore it
+  useEffect(() => {
+    if (!projectStore.isAvailable()) return
+
+    let cancelled = false
+    const checkLastSession = async () => {
+      const lastSession = await projectStore.getLastSession()
+      if (cancelled || !lastSession) return
+      const project = await projectStore.getProjectSummary(lastSession.projectId)
+      if (cancelled || !project) return
+
+      if (projectStore.getSettings().autoLoadLastProject) {
+        await restoreProjectRef.current(project)
+      } else {
+        setRecoveryProject(project)
+      }
+    }
+
+    checkLastSession().catch((err) => console.error("Failed to restore the last session:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    return projectStore.addSettingsListener((settings) => setAutoSave(settings.autoSave))
+  }, [])
+
+  // Autosave to the local library once the session has settled; nothing is stored until audio is loaded
+  useEffect(() => {
+    if (!autoSave || !sourceFile || !projectStore.isAvailable()) return
+
+    const timer = setTimeout(() => {
+      projectStore
+        .saveProject(projectId, getProjectSession(projectName))
+        .catch((err) => console.error("Autosave failed:", err))
+    }, AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    autoSave,
+    projectId,
+    projectName,
+    sourceFile,
+    slices,
+    sections,
+    annotations,
+    bpm,
+    pitch,
+    masterVolume,
+    isLooping,
+    loopStart,
+    loopEnd,
+    launchQuantization,
+    effects,
+    patterns,
+    editingPattern,
+    arrangement,
+    songMode,
+    swing,
+    mediaRevision,
+    undoDescription,
+    redoDescription,
+  ])
+
+  // Cmd/Ctrl+S saves, Cmd/Ctrl+O opens, Cmd/Ctrl+Z undoes and Shift+Cmd/Ctrl+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return
+      const key = event.key.toLowerCase()
+      if (key === "z" || key === "y") {
+        if (isTextInput(event.target)) return
+        event.preventDefault()
+        if (key === "y" || event.shiftKey) {
+          redoHandlerRef.current()
+        } else {
+          undoHandlerRef.current()
+        }
+        return
+      }
+
+      if (event.shiftKey) return
+      if (key === "s") {
+        event.preventDefault()
+        setSaveDialogOpen(true)
+      } else if (key === "o") {
+        event.preventDefault()
+        setOpenDialogOpen(true)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Follow the launch scheduler so pads and playhead reflect what is actually audible
+  useEffect(() => {
+    return audioEngine.addLaunchListener((event) => {
+      switch (event.type) {
+        case "queued":
+          setQueuedSlice(event.sliceId)
+          break
+        case "started": {
+          setQueuedSlice((queued) => (queued === event.sliceId ? null : queued))
+          setCurrentSlice(event.sliceId)
+          const slice = audioEngine.getSlice(event.sliceId)
+          const buffer = audioEngine.getBuffer()
+          if (slice && buffer) {
+            setPlaybackPosition(slice.startSample / buffer.length)
+          }
+          break
+        }
+        case "cancelled":
+          setQueuedSlice((queued) => (queued === event.sliceId ? null : queued))
+          break
+      }
+    })
+  }, [])
+
   useEffect(() => {
     if (isPlaying && currentPlaybackId && audioBuffer) {
       // Stop current playback
       audioEngine.stopPlayback(currentPlaybackId)
 
-      // Restart with new BPM from current position
-      const playbackRate = bpm / 120
-      const options: any = {
+      // Restart with new tempo/pitch from current position
+      const options: PlaybackOptions = {
         loop: isLooping,
         volume: masterVolume / 100,
-        rate: playbackRate,
+        stretch: bpm / 120,
+        semitones: pitch,
       }
 
       if (isLooping) {
@@ -282,7 +905,7 @@ export default function AudioSampler() {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [bpm])
+  }, [bpm, pitch])
 
   return (
     <AppShell>
@@ -329,40 +952,194 @@ export default function AudioSampler() {
                     <h2 className="text-xl font-bold text-zinc-100">Audio Waveform</h2>
                     <WaveformWavesurfer
                       onAudioLoad={handleAudioLoad}
+                      onFileLoad={handleFileLoad}
+                      restoreRequest={restoreRequest}
+                      slices={slices}
+                      sections={sections}
                       onPlaybackPositionChange={handlePlaybackPositionChange}
                       onCurrentSliceChange={handleCurrentSliceChange}
                       onCurrentSectionChange={handleCurrentSectionChange}
                       onCurrentAnnotationChange={handleCurrentAnnotationChange}
+                      annotations={annotations}
+                      onAnnotationsDetect={handleAnnotationsDetect}
+                      onAnnotationChange={handleAnnotationTimingChange}
                       isPlaying={isPlaying}
                       onTogglePlayback={togglePlayback}
                       bpm={bpm}
                       onBpmChange={setBpm}
+                      pitch={pitch}
+                      onPitchChange={setPitch}
                       isLooping={isLooping}
                       onToggleLoop={toggleLoop}
                       onSkipForward={handleSkipForward}
                       onSkipBack={handleSkipBack}
                       onPause={handlePause}
+                      onSaveProject={() => setSaveDialogOpen(true)}
+                      onOpenProject={() => setOpenDialogOpen(true)}
+                      onUndo={handleUndo}
+                      onRedo={handleRedo}
+                      undoDescription={undoDescription}
+                      redoDescription={redoDescription}
                     />
 
                     <div className="mt-2">
-                      <h3 className="text-sm font-semibold text-zinc-300 mb-2">Annotations</h3>
-                      <div className="p-3 border border-zinc-800 rounded-md bg-zinc-900/50 min-h-[60px] flex items-center justify-center">
-                        <p className="text-xs text-zinc-500">
-                          Annotations will appear here when created from sections
-                        </p>
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-sm font-semibold text-zinc-300">Annotations</h3>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+                            onClick={() => lyricsInputRef.current?.click()}
+                            disabled={!audioBuffer}
+                            title="Import lyrics from an LRC, SRT or plain text file"
+                          >
+                            <FileText className="h-3 w-3 mr-1" />
+                            Import Lyrics
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+                            onClick={() => handleLyricsExport("lrc")}
+                            disabled={annotations.length === 0}
+                          >
+                            <Download className="h-3 w-3 mr-1" />
+                            LRC
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+                            onClick={() => handleLyricsExport("srt")}
+                            disabled={annotations.length === 0}
+                          >
+                            <Download className="h-3 w-3 mr-1" />
+                            SRT
+                          </Button>
+                          <input
+                            ref={lyricsInputRef}
+                            type="file"
+                            accept=".lrc,.srt,.txt,text/plain"
+                            onChange={handleLyricsFileChange}
+                            className="hidden"
+                          />
+                        </div>
                       </div>
+                      {annotations.length > 0 ? (
+                        <div className="p-3 border border-zinc-800 rounded-md bg-zinc-900/50 max-h-48 overflow-y-auto space-y-1">
+                          {annotations.map((annotation) => (
+                            <div
+                              key={annotation.id}
+                              className={`flex items-center gap-3 text-xs ${
+                                currentAnnotation === annotation.id ? "text-green-400" : "text-zinc-300"
+                              }`}
+                            >
+                              <span className="w-24 shrink-0 font-mono text-zinc-500">
+                                {annotation.startTime.toFixed(2)}-{annotation.endTime.toFixed(2)}s
+                              </span>
+                              <Input
+                                value={annotation.text}
+                                onChange={(e) => handleAnnotationTextChange(annotation.id, e.target.value)}
+                                className="h-6 flex-1 px-1.5 text-xs bg-transparent border-transparent hover:border-zinc-700 focus-visible:border-zinc-700"
+                                placeholder="Lyrics..."
+                                aria-label="Annotation text"
+                              />
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6 shrink-0 text-zinc-500 hover:text-red-400"
+                                onClick={() => handleAnnotationDelete(annotation.id)}
+                                aria-label="Delete annotation"
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="p-3 border border-zinc-800 rounded-md bg-zinc-900/50 min-h-[60px] flex items-center justify-center">
+                          <p className="text-xs text-zinc-500">
+                            Detect phrases or import lyrics; they will appear here as annotations
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 <div className="flex flex-col gap-4 w-full lg:w-1/3">
                   <div className="flex flex-col gap-2">
-                    <h2 className="text-xl font-bold text-zinc-100">
-                      Slice Navigator
-                      {currentAnnotation && (
-                        <span className="text-sm font-normal text-green-400 ml-2">• Word/Phrase Mode</span>
-                      )}
-                    </h2>
+                    <div className="flex items-center justify-between gap-2">
+                      <h2 className="text-xl font-bold text-zinc-100">
+                        Slice Navigator
+                        {currentAnnotation && (
+                          <span className="text-sm font-normal text-green-400 ml-2">• Word/Phrase Mode</span>
+                        )}
+                      </h2>
+                      <div className="flex items-center gap-2">
+                        {slices.some((slice) => slice.key) && (
+                          <Select
+                            value={keyFilter ?? "all"}
+                            onValueChange={(v) => setKeyFilter(v === "all" ? null : v)}
+                          >
+                            <SelectTrigger className="h-8 w-28 text-xs bg-zinc-800 border-zinc-700" aria-label="Key filter">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-zinc-800 border-zinc-700">
+                              <SelectItem value="all">All Keys</SelectItem>
+                              {Array.from(new Set(slices.flatMap((slice) => (slice.key ? [slice.key] : []))))
+                                .sort()
+                                .map((key) => (
+                                  <SelectItem key={key} value={key}>
+                                    {key}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Select
+                          value={launchQuantization}
+                          onValueChange={(v) => setLaunchQuantization(v as LaunchQuantization)}
+                        >
+                          <SelectTrigger className="h-8 w-28 text-xs bg-zinc-800 border-zinc-700" aria-label="Launch quantization">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-zinc-800 border-zinc-700">
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value="1/16">1/16</SelectItem>
+                            <SelectItem value="1/4">1/4</SelectItem>
+                            <SelectItem value="1bar">1 Bar</SelectItem>
+                            <SelectItem value="slice-end">Slice End</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <ExportModal
+                          buffer={audioBuffer}
+                          slices={slices}
+                          sections={sections}
+                          effects={effects}
+                          voiceOptions={{ volume: masterVolume / 100, stretch: bpm / 120, semitones: pitch }}
+                          arrangement={{
+                            patterns,
+                            arrangement: songMode ? arrangement : [],
+                            activePattern: editingPattern,
+                            bpm,
+                            swing,
+                          }}
+                        >
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 bg-zinc-800 border-zinc-700 hover:text-yellow-300"
+                            disabled={!audioBuffer}
+                            aria-label="Export audio"
+                          >
+                            <Download className="h-3.5 w-3.5 mr-1.5" />
+                            Export
+                          </Button>
+                        </ExportModal>
+                      </div>
+                    </div>
                     <DrumPads
                       slices={slices}
                       activePad={activePad}
@@ -372,12 +1149,19 @@ export default function AudioSampler() {
                       playbackPosition={playbackPosition}
                       currentSlice={currentSlice}
                       currentAnnotation={currentAnnotation}
+                      queuedPad={queuedSlice}
+                      keyFilter={keyFilter}
                     />
                   </div>
 
                   <div className="flex flex-col gap-2">
                     <h2 className="text-xl font-bold text-zinc-100">Effects</h2>
-                    <EffectsPanel effects={effects} toggleEffect={toggleEffect} updateEffectParam={updateEffectParam} />
+                    <EffectsPanel
+                      effects={effects}
+                      toggleEffect={toggleEffect}
+                      updateEffectParam={updateEffectParam}
+                      reorderEffect={reorderEffect}
+                    />
                   </div>
                 </div>
               </div>
@@ -393,6 +1177,7 @@ export default function AudioSampler() {
                       isPlaying={isPlaying}
                       playbackPosition={playbackPosition}
                       onMediaLibraryUpdate={() => {
+                        setMediaRevision((revision) => revision + 1)
                         setActivePad(null)
                         setTimeout(() => setActivePad(activePad), 0)
                       }}
@@ -452,55 +1237,68 @@ export default function AudioSampler() {
             <TabsContent value="sequencer" className="p-4 m-0 h-full">
               <div className="flex flex-col gap-4">
                 <h2 className="text-xl font-bold text-zinc-100">Step Sequencer</h2>
-                <Sequencer tracks={8} steps={16} initialSequence={undefined} onSequenceChange={() => {}} />
+                <Sequencer
+                  sequence={patterns[editingPattern]}
+                  patternIndex={editingPattern}
+                  slices={slices}
+                  swing={swing}
+                  onSequenceChange={handleSequenceChange}
+                  onSwingChange={setSwing}
+                />
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-4">
                   <div className="flex flex-col gap-2">
                     <h3 className="text-lg font-bold text-zinc-100">Pattern Controls</h3>
-                    <div className="border border-zinc-800 rounded-md p-4 bg-zinc-900/50">
-                      <div className="grid grid-cols-4 gap-2">
-                        <div className="p-2 border border-zinc-700 rounded bg-zinc-800 text-center text-sm">
-                          Pattern 1
-                        </div>
-                        <div className="p-2 border border-zinc-700 rounded bg-zinc-800 text-center text-sm">
-                          Pattern 2
-                        </div>
-                        <div className="p-2 border border-zinc-700 rounded bg-zinc-800 text-center text-sm">
-                          Pattern 3
-                        </div>
-                        <div className="p-2 border border-zinc-700 rounded bg-zinc-800 text-center text-sm">
-                          Pattern 4
-                        </div>
-                      </div>
-                    </div>
+                    <PatternBank
+                      patterns={patterns}
+                      editingPattern={editingPattern}
+                      activePattern={activePattern}
+                      queuedPattern={queuedPattern}
+                      onSelectPattern={handleSelectPattern}
+                      onPatternsChange={handlePatternsChange}
+                    />
+
+                    <h3 className="text-lg font-bold text-zinc-100 mt-2">Song Arrangement</h3>
+                    <SongArrangement
+                      arrangement={arrangement}
+                      patternCount={patterns.length}
+                      songMode={songMode}
+                      currentEntry={songEntry}
+                      onArrangementChange={setArrangement}
+                      onSongModeChange={setSongMode}
+                    />
                   </div>
 
                   <div className="flex flex-col gap-2">
                     <h3 className="text-lg font-bold text-zinc-100">Track Settings</h3>
                     <div className="border border-zinc-800 rounded-md p-4 bg-zinc-900/50">
                       <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-zinc-300">Track 1: Kick</span>
-                          <div className="flex items-center gap-2">
-                            <span className="text-xs text-zinc-500">M</span>
-                            <span className="text-xs text-zinc-500">S</span>
-                          </div>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-zinc-300">Track 2: Snare</span>
-                          <div className="flex items-center gap-2">
-                            <span className="text-xs text-zinc-500">M</span>
-                            <span className="text-xs text-zinc-500">S</span>
-                          </div>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm text-zinc-300">Track 3: Hi-Hat</span>
-                          <div className="flex items-center gap-2">
-                            <span className="text-xs text-zinc-500">M</span>
-                            <span className="text-xs text-zinc-500">S</span>
-                          </div>
-                        </div>
+                        {patterns[editingPattern].tracks.map((track, index) => {
+                          const slice = slices.find((s) => s.id === track.sliceId)
+                          const label = slice?.drumClass ? DRUM_CLASS_LABELS[slice.drumClass] : (slice?.name ?? "Empty")
+                          return (
+                            <div key={index} className="flex items-center justify-between">
+                              <span className="text-sm text-zinc-300">
+                                Track {index + 1}: {label}
+                              </span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs text-zinc-500">M</span>
+                                <span className="text-xs text-zinc-500">S</span>
+                              </div>
+                            </div>
+                          )
+                        })}
                       </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-4 w-full"
+                        onClick={handleBuildKit}
+                        disabled={!audioBuffer || slices.length === 0 || isBuildingKit}
+                      >
+                        <Wand2 className="h-4 w-4 mr-2" />
+                        {isBuildingKit ? "Building Kit..." : "Build Kit from Loop"}
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -538,13 +1336,29 @@ export default function AudioSampler() {
 
                 <div className="mt-4">
                   <h3 className="text-lg font-bold text-zinc-100 mb-2">Global Effects</h3>
-                  <EffectsPanel effects={effects} toggleEffect={toggleEffect} updateEffectParam={updateEffectParam} />
+                  <EffectsPanel
+                    effects={effects}
+                    toggleEffect={toggleEffect}
+                    updateEffectParam={updateEffectParam}
+                    reorderEffect={reorderEffect}
+                  />
                 </div>
               </div>
             </TabsContent>
           </div>
         </Tabs>
       </div>
+
+      <SaveProjectModal
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+        projectId={projectId}
+        projectName={projectName}
+        getSession={getProjectSession}
+        onSaved={setProjectName}
+      />
+      <OpenProjectModal open={openDialogOpen} onOpenChange={setOpenDialogOpen} onOpenProject={handleOpenProject} />
+      <RestoreSessionModal project={recoveryProject} onRestore={restoreProject} onDiscard={discardRecovery} />
     </AppShell>
   )
 }
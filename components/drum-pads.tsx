@@ -4,6 +4,7 @@ import { cn } from "@/lib/utils"
 import { ImageIcon, VideoIcon } from 'lucide-react'
 import type { AudioSlice } from "@/lib/audio-engine"
 import { mediaLibrary } from "@/lib/media-library"
+import { areKeysCompatible, getShortKeyName } from "@/lib/music-key"
 import { useState, useEffect } from "react"
 
 interface DrumPadsProps {
@@ -15,6 +16,8 @@ interface DrumPadsProps {
   playbackPosition: number
   currentSlice: number | null
   currentAnnotation: string | null
+  queuedPad?: number | null
+  keyFilter?: string | null // dims pads whose key does not mix with this one
 }
 
 export default function DrumPads({
@@ -26,6 +29,8 @@ export default function DrumPads({
   playbackPosition,
   currentSlice,
   currentAnnotation,
+  queuedPad = null,
+  keyFilter = null,
 }: DrumPadsProps) {
   const padCount = 16
   const pads = Array.from({ length: padCount }, (_, i) => i)
@@ -57,6 +62,8 @@ export default function DrumPads({
         const media = hasSlice ? mediaLibrary.getMediaForSlice(pad) : undefined
         const isCurrentlyActive = currentActivePad === pad
         const isSelected = activePad === pad
+        const isQueued = queuedPad === pad && !isCurrentlyActive
+        const isFilteredOut = hasSlice && !!keyFilter && !(slice.key && areKeysCompatible(slice.key, keyFilter))
 
         return (
           <button
@@ -70,6 +77,8 @@ export default function DrumPads({
               isCurrentlyActive &&
                 "border-cyan-400/60 shadow-2xl shadow-cyan-500/30 bg-gradient-to-br from-cyan-500/20 to-cyan-600/10",
               isSelected && "ring-2 ring-cyan-500/60 ring-offset-2 ring-offset-zinc-900",
+              isQueued && "border-yellow-400/70 animate-premium-pulse",
+              isFilteredOut && "opacity-30",
             )}
             onClick={() => hasSlice && handlePadClick(pad)}
             disabled={!hasSlice}
@@ -146,6 +155,11 @@ export default function DrumPads({
                   >
                     {slice.name}
                   </span>
+                  {slice.key && (
+                    <span className="mt-1 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-purple-500/20 text-purple-300">
+                      {getShortKeyName(slice.key)}
+                    </span>
+                  )}
                 </>
               )}
             </div>
@@ -1,106 +1,208 @@
 "use client"
+import { useEffect, useState } from "react"
 import { GripVertical } from "lucide-react"
 import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
 import { cn } from "@/lib/utils"
-
-interface Effect {
-  id: string
-  name: string
-  enabled: boolean
-  parameters: { name: string; value: number }[]
-}
+import {
+  formatEffectParameter,
+  getEffectDescriptor,
+  type EffectParameterDescriptor,
+  type EffectState,
+} from "@/lib/audio-effects"
+import { getMidiTargetKey, midiManager, type MidiControlTarget } from "@/lib/midi"
 
 interface EffectsPanelProps {
-  effects: Effect[]
+  effects: EffectState[]
   toggleEffect: (id: string) => void
-  updateEffectParam: (id: string, paramName: string, value: number) => void
+  updateEffectParam: (id: string, paramId: string, value: number) => void
+  reorderEffect?: (fromIndex: number, toIndex: number) => void
+}
+
+// Slider resolution for log-scaled parameters
+const LOG_SLIDER_STEPS = 1000
+
+const toSliderValue = (param: EffectParameterDescriptor, value: number) => {
+  if (param.scale !== "log") return value
+  const position = Math.log(value / param.min) / Math.log(param.max / param.min)
+  return Math.round(position * LOG_SLIDER_STEPS)
+}
+
+const fromSliderValue = (param: EffectParameterDescriptor, position: number) => {
+  if (param.scale !== "log") return position
+  return Math.round(param.min * Math.pow(param.max / param.min, position / LOG_SLIDER_STEPS))
 }
 
-export default function EffectsPanel({ effects, toggleEffect, updateEffectParam }: EffectsPanelProps) {
+export default function EffectsPanel({ effects, toggleEffect, updateEffectParam, reorderEffect }: EffectsPanelProps) {
+  // Cards only become draggable while the grip is held, so sliders keep working
+  const [armedIndex, setArmedIndex] = useState<number | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  const [midiLearnKey, setMidiLearnKey] = useState<string | null>(null)
+  const [midiBindings, setMidiBindings] = useState(midiManager.getBindings())
+
+  useEffect(() => {
+    const sync = () => {
+      const target = midiManager.getLearnTarget()
+      setMidiLearnKey(target ? getMidiTargetKey(target) : null)
+      setMidiBindings(midiManager.getBindings())
+    }
+    sync()
+    return midiManager.addStateListener(sync)
+  }, [])
+
+  const toggleMidiLearn = (target: MidiControlTarget, label: string) => {
+    if (midiLearnKey === getMidiTargetKey(target)) {
+      midiManager.cancelLearn()
+    } else {
+      midiManager.startLearn(target, label)
+    }
+  }
+
+  const endDrag = () => {
+    setArmedIndex(null)
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
   return (
     <div className="space-y-3">
-      {effects.map((effect, index) => (
-        <div
-          key={effect.id}
-          className={cn(
-            "border-2 rounded-2xl p-5 transition-all duration-300",
-            effect.enabled
-              ? "border-zinc-700/50 glass-morphism shadow-xl"
-              : "border-zinc-800/30 bg-zinc-900/20 opacity-60 hover:opacity-80",
-          )}
-        >
-          {/* Effect header */}
-          <div className="flex items-center justify-between mb-5">
-            <div className="flex items-center gap-3 cursor-grab active:cursor-grabbing">
-              <GripVertical className="h-5 w-5 text-zinc-600" />
+      {effects.map((effect, index) => {
+        const descriptor = getEffectDescriptor(effect.type)
+
+        return (
+          <div
+            key={effect.id}
+            draggable={!!reorderEffect && armedIndex === index}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move"
+              setDragIndex(index)
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return
+              e.preventDefault()
+              setDropIndex(index)
+            }}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (dragIndex !== null && reorderEffect) {
+                reorderEffect(dragIndex, index)
+              }
+              endDrag()
+            }}
+            onDragEnd={endDrag}
+            className={cn(
+              "border-2 rounded-2xl p-5 transition-all duration-300",
+              effect.enabled
+                ? "border-zinc-700/50 glass-morphism shadow-xl"
+                : "border-zinc-800/30 bg-zinc-900/20 opacity-60 hover:opacity-80",
+              dragIndex === index && "opacity-40",
+              dropIndex === index && dragIndex !== index && "border-yellow-400/60",
+            )}
+          >
+            {/* Effect header */}
+            <div className="flex items-center justify-between mb-5">
+              <div className="flex items-center gap-3">
+                <GripVertical
+                  className={cn("h-5 w-5 text-zinc-600", reorderEffect && "cursor-grab active:cursor-grabbing")}
+                  onPointerDown={() => setArmedIndex(index)}
+                  onPointerUp={() => setArmedIndex(null)}
+                  aria-label={`Drag to reorder ${descriptor.name}`}
+                />
+                <div className="flex items-center gap-3">
+                  <div
+                    className={cn(
+                      "w-2.5 h-2.5 rounded-full transition-all duration-200",
+                      effect.enabled
+                        ? "bg-yellow-400 shadow-lg shadow-yellow-400/50 animate-premium-pulse"
+                        : "bg-zinc-700",
+                    )}
+                  ></div>
+                  <h3 className="text-base font-bold text-zinc-200">{descriptor.name}</h3>
+                </div>
+              </div>
               <div className="flex items-center gap-3">
-                <div
+                <span
                   className={cn(
-                    "w-2.5 h-2.5 rounded-full transition-all duration-200",
-                    effect.enabled
-                      ? "bg-yellow-400 shadow-lg shadow-yellow-400/50 animate-premium-pulse"
-                      : "bg-zinc-700",
+                    "text-xs font-bold uppercase tracking-wider",
+                    effect.enabled ? "text-yellow-400" : "text-zinc-600",
                   )}
-                ></div>
-                <h3 className="text-base font-bold text-zinc-200">{effect.name}</h3>
-              </div>
-            </div>
-            <div className="flex items-center gap-3">
-              <span
-                className={cn(
-                  "text-xs font-bold uppercase tracking-wider",
-                  effect.enabled ? "text-yellow-400" : "text-zinc-600",
-                )}
-              >
-                {effect.enabled ? "ON" : "OFF"}
-              </span>
-              <Switch
-                checked={effect.enabled}
-                onCheckedChange={() => toggleEffect(effect.id)}
-                className={cn(
-                  "data-[state=checked]:bg-yellow-500 transition-all duration-200",
-                  effect.enabled && "shadow-lg shadow-yellow-500/20",
-                )}
-                aria-label={`${effect.name} effect ${effect.enabled ? "enabled" : "disabled"}`}
-              />
-            </div>
-          </div>
-
-          {/* Effect parameters */}
-          <div className="space-y-4">
-            {effect.parameters.map((param) => (
-              <div key={param.name} className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label htmlFor={`${effect.id}-${param.name}`} className="text-sm font-semibold text-zinc-400">
-                    {param.name}
-                  </label>
-                  <span className="text-sm text-zinc-500 font-mono font-bold tabular-nums px-2 py-1 rounded-md bg-zinc-800/50">
-                    {param.value}
-                  </span>
-                </div>
-                <Slider
-                  id={`${effect.id}-${param.name}`}
-                  disabled={!effect.enabled}
-                  value={[param.value]}
-                  min={0}
-                  max={200}
-                  step={1}
-                  onValueChange={(value) => updateEffectParam(effect.id, param.name, value[0])}
+                >
+                  {effect.enabled ? "ON" : "OFF"}
+                </span>
+                <Switch
+                  checked={effect.enabled}
+                  onCheckedChange={() => toggleEffect(effect.id)}
                   className={cn(
-                    "slider-thumb-rect",
-                    effect.enabled
-                      ? "[&_[role=slider]]:bg-yellow-400 [&_[role=slider]]:border-yellow-500 [&_[role=slider]]:hover:bg-yellow-300"
-                      : "[&_[role=slider]]:bg-zinc-600 [&_[role=slider]]:border-zinc-700",
-                    "[&_[role=slider]]:focus:ring-yellow-500/50 transition-all duration-200",
+                    "data-[state=checked]:bg-yellow-500 transition-all duration-200",
+                    effect.enabled && "shadow-lg shadow-yellow-500/20",
                   )}
-                  aria-label={`${effect.name} ${param.name} parameter`}
+                  aria-label={`${descriptor.name} effect ${effect.enabled ? "enabled" : "disabled"}`}
                 />
               </div>
-            ))}
+            </div>
+
+            {/* Effect parameters */}
+            <div className="space-y-4">
+              {descriptor.parameters.map((param) => {
+                const value = effect.parameters[param.id] ?? param.defaultValue
+                const midiTarget: MidiControlTarget = { kind: "effectParam", effectId: effect.id, paramId: param.id }
+                const midiKey = getMidiTargetKey(midiTarget)
+                const midiBinding = midiBindings.find((binding) => getMidiTargetKey(binding.target) === midiKey)
+                const isLearning = midiLearnKey === midiKey
+
+                return (
+                  <div key={param.id} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label htmlFor={`${effect.id}-${param.id}`} className="text-sm font-semibold text-zinc-400">
+                        {param.name}
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          className={cn(
+                            "text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border transition-colors",
+                            isLearning
+                              ? "border-yellow-500 text-yellow-300 animate-premium-pulse"
+                              : midiBinding
+                                ? "border-cyan-500/40 text-cyan-400"
+                                : "border-zinc-700 text-zinc-600 hover:text-zinc-400",
+                          )}
+                          onClick={() => toggleMidiLearn(midiTarget, `${descriptor.name} ${param.name}`)}
+                          aria-label={`MIDI learn ${descriptor.name} ${param.name}`}
+                          aria-pressed={isLearning}
+                        >
+                          {isLearning ? "Learn..." : midiBinding ? `CC ${midiBinding.controller}` : "MIDI"}
+                        </button>
+                        <span className="text-sm text-zinc-500 font-mono font-bold tabular-nums px-2 py-1 rounded-md bg-zinc-800/50">
+                          {formatEffectParameter(param, value)}
+                        </span>
+                      </div>
+                    </div>
+                    <Slider
+                      id={`${effect.id}-${param.id}`}
+                      disabled={!effect.enabled}
+                      value={[toSliderValue(param, value)]}
+                      min={param.scale === "log" ? 0 : param.min}
+                      max={param.scale === "log" ? LOG_SLIDER_STEPS : param.max}
+                      step={param.scale === "log" ? 1 : param.step}
+                      onValueChange={(value) => updateEffectParam(effect.id, param.id, fromSliderValue(param, value[0]))}
+                      className={cn(
+                        "slider-thumb-rect",
+                        effect.enabled
+                          ? "[&_[role=slider]]:bg-yellow-400 [&_[role=slider]]:border-yellow-500 [&_[role=slider]]:hover:bg-yellow-300"
+                          : "[&_[role=slider]]:bg-zinc-600 [&_[role=slider]]:border-zinc-700",
+                        "[&_[role=slider]]:focus:ring-yellow-500/50 transition-all duration-200",
+                      )}
+                      aria-label={`${descriptor.name} ${param.name} parameter`}
+                    />
+                  </div>
+                )
+              })}
+            </div>
           </div>
-        </div>
-      ))}
+        )
+      })}
     </div>
   )
 }
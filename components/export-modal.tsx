@@ -0,0 +1,224 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Button } from "@/components/ui/button"
+import { Download } from "lucide-react"
+import { audioEngine, type AudioSection, type AudioSlice, type PlaybackOptions } from "@/lib/audio-engine"
+import type { EffectState } from "@/lib/audio-effects"
+import {
+  downloadBlob,
+  encodeWav,
+  exportSamplePack,
+  renderArrangement,
+  renderSection,
+  renderSlice,
+  sanitizeFileName,
+  wavToBlob,
+  type ArrangementSource,
+  type RenderOptions,
+  type WavBitDepth,
+} from "@/lib/audio-export"
+
+type ExportTarget = "slice" | "pack" | "section" | "arrangement"
+
+interface ExportModalProps {
+  children: React.ReactNode
+  buffer: AudioBuffer | null
+  slices: AudioSlice[]
+  sections: AudioSection[]
+  effects: EffectState[]
+  voiceOptions: PlaybackOptions
+  arrangement: ArrangementSource
+}
+
+export function ExportModal({
+  children,
+  buffer,
+  slices,
+  sections,
+  effects,
+  voiceOptions,
+  arrangement,
+}: ExportModalProps) {
+  const [target, setTarget] = useState<ExportTarget>("pack")
+  const [sliceId, setSliceId] = useState<string>("")
+  const [sectionId, setSectionId] = useState<string>("")
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24)
+  const [applyEffects, setApplyEffects] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const selectedSlice = slices.find((slice) => String(slice.id) === sliceId) || slices[0]
+  const selectedSection = sections.find((section) => String(section.id) === sectionId) || sections[0]
+
+  const canExport =
+    !!buffer &&
+    (target === "arrangement" ||
+      (target === "section" ? !!selectedSection : slices.length > 0 && (target === "pack" || !!selectedSlice)))
+
+  const handleExport = async () => {
+    if (!buffer || !canExport) return
+
+    const options: RenderOptions = {
+      effects: applyEffects ? effects : [],
+      voice: voiceOptions,
+      sliceFades: audioEngine.getSliceFades(),
+    }
+
+    setIsExporting(true)
+    setStatus(null)
+
+    try {
+      if (target === "pack") {
+        const zip = await exportSamplePack(buffer, slices, bitDepth, options, (done, total) =>
+          setStatus(`Rendering ${done}/${total}...`),
+        )
+        downloadBlob(zip, "sample-pack.zip")
+      } else if (target === "slice" && selectedSlice) {
+        const rendered = await renderSlice(buffer, selectedSlice, options)
+        downloadBlob(wavToBlob(encodeWav(rendered, bitDepth)), `${sanitizeFileName(selectedSlice.name)}.wav`)
+      } else if (target === "section" && selectedSection) {
+        const rendered = await renderSection(buffer, selectedSection, options)
+        downloadBlob(wavToBlob(encodeWav(rendered, bitDepth)), `${sanitizeFileName(selectedSection.name)}.wav`)
+      } else if (target === "arrangement") {
+        const rendered = await renderArrangement(buffer, slices, arrangement, options)
+        downloadBlob(wavToBlob(encodeWav(rendered, bitDepth)), "arrangement.wav")
+      }
+      setStatus("Export complete.")
+    } catch (error) {
+      console.error("Export failed:", error)
+      setStatus("Export failed. See the console for details.")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[425px] bg-zinc-900 border-zinc-800 text-zinc-100">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Export Audio</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            Render slices, sections or the sequencer to WAV files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-target">Export</Label>
+            <Select value={target} onValueChange={(value) => setTarget(value as ExportTarget)}>
+              <SelectTrigger id="export-target" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                <SelectItem value="pack">All slices (ZIP sample pack)</SelectItem>
+                <SelectItem value="slice">Single slice</SelectItem>
+                <SelectItem value="section">Section</SelectItem>
+                <SelectItem value="arrangement">Sequencer arrangement</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {target === "slice" && (
+            <div className="space-y-2">
+              <Label htmlFor="export-slice">Slice</Label>
+              <Select value={selectedSlice ? String(selectedSlice.id) : ""} onValueChange={setSliceId}>
+                <SelectTrigger id="export-slice" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
+                  <SelectValue placeholder="No slices" />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700">
+                  {slices.map((slice) => (
+                    <SelectItem key={slice.id} value={String(slice.id)}>
+                      {slice.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {target === "section" && (
+            <div className="space-y-2">
+              <Label htmlFor="export-section">Section</Label>
+              <Select value={selectedSection ? String(selectedSection.id) : ""} onValueChange={setSectionId}>
+                <SelectTrigger id="export-section" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
+                  <SelectValue placeholder="No sections" />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700">
+                  {sections.map((section) => (
+                    <SelectItem key={section.id} value={String(section.id)}>
+                      {section.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={String(bitDepth)} onValueChange={(value) => setBitDepth(Number(value) as WavBitDepth)}>
+              <SelectTrigger id="export-format" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                <SelectItem value="16">WAV 16-bit PCM</SelectItem>
+                <SelectItem value="24">WAV 24-bit PCM</SelectItem>
+                <SelectItem value="32">WAV 32-bit float</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-effects" className="cursor-pointer">
+              Render Through Effects
+            </Label>
+            <Switch
+              id="export-effects"
+              checked={applyEffects}
+              onCheckedChange={setApplyEffects}
+              className="data-[state=checked]:bg-yellow-500"
+            />
+          </div>
+
+          {status && <p className="text-xs text-zinc-400">{status}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || !canExport}
+            className="bg-yellow-500 text-zinc-950 hover:bg-yellow-400"
+          >
+            {isExporting ? (
+              <>
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-zinc-900 border-t-transparent"></div>
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import {
   Dialog,
   DialogContent,
@@ -14,35 +14,113 @@ import {
 } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { FolderOpen, Clock, Star, Trash2 } from "lucide-react"
+import { PROJECT_FILE_EXTENSION, readProjectBundle, type ProjectSession } from "@/lib/project-file"
+import { projectStore, type ProjectSummary } from "@/lib/project-store"
 
 interface OpenProjectModalProps {
-  children: React.ReactNode
+  children?: React.ReactNode
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  // `projectId` is set when the project came from the local library
+  onOpenProject: (session: ProjectSession, projectId?: string) => void | Promise<void>
 }
 
-export function OpenProjectModal({ children }: OpenProjectModalProps) {
+// "2 hours ago", "Yesterday", ...
+function formatRelativeTime(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return "Just now"
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`
+  const days = Math.floor(hours / 24)
+  if (days === 1) return "Yesterday"
+  if (days < 7) return `${days} days ago`
+  return new Date(timestamp).toLocaleDateString()
+}
+
+export function OpenProjectModal({ children, open, onOpenChange, onOpenProject }: OpenProjectModalProps) {
+  const [internalOpen, setInternalOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([])
   const [selectedProject, setSelectedProject] = useState<string | null>(null)
+  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const isOpen = open ?? internalOpen
+
+  // Refresh the library whenever the dialog is open and the stored projects change
+  useEffect(() => {
+    if (!isOpen) return
+
+    setSelectedProject(null)
+    setSelectedFile(null)
+    setError(null)
+
+    if (!projectStore.isAvailable()) return
+
+    const refresh = () => {
+      projectStore
+        .listProjects()
+        .then(setRecentProjects)
+        .catch((err) => console.error("Failed to list projects:", err))
+    }
+    refresh()
+    return projectStore.addChangeListener(refresh)
+  }, [isOpen])
+
+  const setOpen = (nextOpen: boolean) => {
+    if (open === undefined) setInternalOpen(nextOpen)
+    onOpenChange?.(nextOpen)
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setSelectedFile(file)
+    setSelectedProject(null)
+    setError(null)
+  }
 
-  const recentProjects = [
-    { id: "1", name: "Drum Loop Project", date: "2 hours ago", favorite: true },
-    { id: "2", name: "Vocal Sample", date: "Yesterday", favorite: false },
-    { id: "3", name: "Video Remix", date: "3 days ago", favorite: true },
-    { id: "4", name: "Beat Sequence", date: "Last week", favorite: false },
-  ]
+  const toggleFavorite = (event: React.MouseEvent, project: ProjectSummary) => {
+    event.stopPropagation()
+    projectStore.setFavorite(project.id, !project.favorite).catch((err) => console.error("Failed to update project:", err))
+  }
 
-  const handleOpen = () => {
-    if (!selectedProject) return
+  const deleteProject = (event: React.MouseEvent, project: ProjectSummary) => {
+    event.stopPropagation()
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return
+    if (selectedProject === project.id) setSelectedProject(null)
+    projectStore.deleteProject(project.id).catch((err) => console.error("Failed to delete project:", err))
+  }
+
+  const handleOpen = async () => {
+    if (!selectedProject && !selectedFile) return
 
     setIsLoading(true)
-    // Simulate loading
-    setTimeout(() => {
+    setError(null)
+
+    try {
+      if (selectedProject) {
+        await onOpenProject(await projectStore.loadProject(selectedProject), selectedProject)
+      } else if (selectedFile) {
+        await onOpenProject(await readProjectBundle(selectedFile))
+      }
+      setOpen(false)
+    } catch (err) {
+      console.error("Failed to open project:", err)
+      setError(err instanceof Error ? err.message : "The project could not be opened.")
+    } finally {
       setIsLoading(false)
-    }, 1000)
+    }
   }
 
+  // Favourites first, then most recent
+  const sortedProjects = [...recentProjects].sort((a, b) => Number(b.favorite) - Number(a.favorite))
+
   return (
-    <Dialog>
-      <DialogTrigger asChild>{children}</DialogTrigger>
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      {children && <DialogTrigger asChild>{children}</DialogTrigger>}
       <DialogContent className="sm:max-w-[525px] bg-zinc-900 border-zinc-800 text-zinc-100">
         <DialogHeader>
           <DialogTitle className="text-zinc-100">Open Project</DialogTitle>
@@ -52,14 +130,38 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
         <div className="py-4">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-sm font-medium text-zinc-200">Recent Projects</h3>
-            <Button variant="outline" className="h-8 border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300">
+            <Button
+              variant="outline"
+              className="h-8 border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300"
+              onClick={() => fileInputRef.current?.click()}
+            >
               <FolderOpen className="mr-2 h-4 w-4" />
               Browse Files
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${PROJECT_FILE_EXTENSION},application/zip`}
+              onChange={handleFileChange}
+              className="hidden"
+            />
           </div>
 
+          {selectedFile && (
+            <div className="mb-3 p-3 rounded-md border bg-yellow-500/10 border-yellow-500/50">
+              <h4 className="text-sm font-medium text-zinc-200">{selectedFile.name}</h4>
+              <p className="text-xs text-zinc-400 mt-1">{(selectedFile.size / (1024 * 1024)).toFixed(1)} MB</p>
+            </div>
+          )}
+
           <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2">
-            {recentProjects.map((project) => (
+            {sortedProjects.length === 0 && (
+              <p className="text-xs text-zinc-500">
+                No saved projects yet. Projects you save or autosave appear here, or browse for a{" "}
+                {PROJECT_FILE_EXTENSION} file.
+              </p>
+            )}
+            {sortedProjects.map((project) => (
               <div
                 key={project.id}
                 className={`p-3 rounded-md border transition-colors cursor-pointer ${
@@ -67,7 +169,11 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
                     ? "bg-yellow-500/10 border-yellow-500/50"
                     : "bg-zinc-800/50 border-zinc-700 hover:border-zinc-600"
                 }`}
-                onClick={() => setSelectedProject(project.id)}
+                onClick={() => {
+                  setSelectedProject(project.id)
+                  setSelectedFile(null)
+                }}
+                onDoubleClick={handleOpen}
               >
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
@@ -78,7 +184,7 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
                       <h4 className="text-sm font-medium text-zinc-200">{project.name}</h4>
                       <div className="flex items-center text-xs text-zinc-400 mt-1">
                         <Clock className="h-3 w-3 mr-1" />
-                        <span>{project.date}</span>
+                        <span>{formatRelativeTime(project.updatedAt)}</span>
                       </div>
                     </div>
                   </div>
@@ -87,6 +193,7 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
                       variant="ghost"
                       size="icon"
                       className="h-7 w-7 rounded-full hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200"
+                      onClick={(event) => toggleFavorite(event, project)}
                     >
                       <Star className={`h-4 w-4 ${project.favorite ? "fill-yellow-400 text-yellow-400" : ""}`} />
                       <span className="sr-only">{project.favorite ? "Unfavorite" : "Favorite"}</span>
@@ -95,6 +202,7 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
                       variant="ghost"
                       size="icon"
                       className="h-7 w-7 rounded-full hover:bg-zinc-700 text-zinc-400 hover:text-zinc-200"
+                      onClick={(event) => deleteProject(event, project)}
                     >
                       <Trash2 className="h-4 w-4" />
                       <span className="sr-only">Delete</span>
@@ -104,12 +212,14 @@ export function OpenProjectModal({ children }: OpenProjectModalProps) {
               </div>
             ))}
           </div>
+
+          {error && <p className="text-xs text-red-400 mt-3">{error}</p>}
         </div>
 
         <DialogFooter>
           <Button
             onClick={handleOpen}
-            disabled={isLoading || !selectedProject}
+            disabled={isLoading || (!selectedProject && !selectedFile)}
             className="bg-yellow-500 text-zinc-950 hover:bg-yellow-400"
           >
             {isLoading ? (
@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { Copy, ClipboardPaste, Eraser } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  clonePattern,
+  createEmptyPattern,
+  PATTERN_LENGTHS,
+  resizePattern,
+  type SequencerPattern,
+} from "@/lib/sequencer-engine"
+
+interface PatternBankProps {
+  patterns: SequencerPattern[]
+  editingPattern: number
+  activePattern: number
+  queuedPattern: number | null
+  onSelectPattern: (index: number) => void
+  onPatternsChange: (patterns: SequencerPattern[]) => void
+}
+
+export default function PatternBank({
+  patterns,
+  editingPattern,
+  activePattern,
+  queuedPattern,
+  onSelectPattern,
+  onPatternsChange,
+}: PatternBankProps) {
+  const [clipboard, setClipboard] = useState<SequencerPattern | null>(null)
+  const current = patterns[editingPattern]
+
+  const replacePattern = (pattern: SequencerPattern) => {
+    onPatternsChange(patterns.map((item, index) => (index === editingPattern ? pattern : item)))
+  }
+
+  const handleCopy = () => {
+    if (current) setClipboard(clonePattern(current))
+  }
+
+  const handlePaste = () => {
+    if (clipboard) replacePattern(clonePattern(clipboard))
+  }
+
+  const handleClear = () => {
+    if (current) replacePattern(createEmptyPattern(current.tracks.length, current.length))
+  }
+
+  const handleLengthChange = (value: string) => {
+    if (current) replacePattern(resizePattern(current, Number(value)))
+  }
+
+  return (
+    <div className="border border-zinc-800 rounded-md p-4 bg-zinc-900/50 space-y-4">
+      <div className="grid grid-cols-4 gap-2">
+        {patterns.map((pattern, index) => (
+          <button
+            key={`pattern-${index}`}
+            className={cn(
+              "p-2 border rounded text-center text-sm transition-colors",
+              index === editingPattern
+                ? "border-cyan-500/60 bg-zinc-800 text-zinc-100"
+                : "border-zinc-700 bg-zinc-800 text-zinc-300 hover:bg-zinc-700",
+              index === activePattern && "shadow-lg shadow-yellow-500/10 ring-1 ring-yellow-500/60",
+              index === queuedPattern && "border-yellow-400/70 animate-premium-pulse",
+            )}
+            onClick={() => onSelectPattern(index)}
+            aria-pressed={index === editingPattern}
+            aria-label={`Pattern ${index + 1}${index === activePattern ? ", playing" : ""}${
+              index === queuedPattern ? ", queued" : ""
+            }`}
+          >
+            Pattern {index + 1}
+            <span className="block text-[10px] text-zinc-500">{pattern.length} steps</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" className="h-8 bg-zinc-800 border-zinc-700" onClick={handleCopy}>
+            <Copy className="h-3.5 w-3.5 mr-1.5" />
+            Copy
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 bg-zinc-800 border-zinc-700"
+            onClick={handlePaste}
+            disabled={!clipboard}
+          >
+            <ClipboardPaste className="h-3.5 w-3.5 mr-1.5" />
+            Paste
+          </Button>
+          <Button size="sm" variant="outline" className="h-8 bg-zinc-800 border-zinc-700" onClick={handleClear}>
+            <Eraser className="h-3.5 w-3.5 mr-1.5" />
+            Clear
+          </Button>
+        </div>
+        <Select value={String(current?.length ?? 16)} onValueChange={handleLengthChange}>
+          <SelectTrigger className="h-8 w-28 bg-zinc-900 border-zinc-800 text-xs" aria-label="Pattern length">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PATTERN_LENGTHS.map((length) => (
+              <SelectItem key={length} value={String(length)}>
+                {length} steps
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { History } from "lucide-react"
+import type { ProjectSummary } from "@/lib/project-store"
+
+interface RestoreSessionModalProps {
+  project: ProjectSummary | null
+  onRestore: (project: ProjectSummary) => Promise<void>
+  onDiscard: () => void
+}
+
+export function RestoreSessionModal({ project, onRestore, onDiscard }: RestoreSessionModalProps) {
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRestore = async () => {
+    if (!project) return
+
+    setIsRestoring(true)
+    setError(null)
+    try {
+      await onRestore(project)
+    } catch (err) {
+      console.error("Failed to restore session:", err)
+      setError(err instanceof Error ? err.message : "The session could not be restored.")
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && !isRestoring && onDiscard()}>
+      <DialogContent className="sm:max-w-[425px] bg-zinc-900 border-zinc-800 text-zinc-100">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Restore Last Session?</DialogTitle>
+          <DialogDescription className="text-zinc-400">
+            {project
+              ? `"${project.name}" was last saved ${new Date(project.updatedAt).toLocaleString()}.`
+              : "A previous session was found."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onDiscard}
+            disabled={isRestoring}
+            className="border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300"
+          >
+            Start Fresh
+          </Button>
+          <Button onClick={handleRestore} disabled={isRestoring} className="bg-yellow-500 text-zinc-950 hover:bg-yellow-400">
+            {isRestoring ? (
+              <>
+                <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-zinc-900 border-t-transparent"></div>
+                Restoring...
+              </>
+            ) : (
+              <>
+                <History className="mr-2 h-4 w-4" />
+                Restore
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import {
   Dialog,
   DialogContent,
@@ -15,31 +15,81 @@ import {
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Save } from "lucide-react"
+import { Download, Save } from "lucide-react"
+import { downloadBlob } from "@/lib/audio-export"
+import { createProjectBundle, getProjectFileName, type ProjectSession } from "@/lib/project-file"
+import { projectStore } from "@/lib/project-store"
 
 interface SaveProjectModalProps {
-  children: React.ReactNode
+  children?: React.ReactNode
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+  projectId: string
+  projectName: string
+  getSession: (name: string) => ProjectSession
+  onSaved?: (name: string) => void
 }
 
-export function SaveProjectModal({ children }: SaveProjectModalProps) {
-  const [projectName, setProjectName] = useState("My Project")
-  const [isSaving, setIsSaving] = useState(false)
+export function SaveProjectModal({
+  children,
+  open,
+  onOpenChange,
+  projectId,
+  projectName: initialName,
+  getSession,
+  onSaved,
+}: SaveProjectModalProps) {
+  const [internalOpen, setInternalOpen] = useState(false)
+  const [projectName, setProjectName] = useState(initialName)
+  const [isSaving, setIsSaving] = useState<"library" | "file" | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const isOpen = open ?? internalOpen
 
-  const handleSave = () => {
-    setIsSaving(true)
-    // Simulate saving
-    setTimeout(() => {
-      setIsSaving(false)
-    }, 1000)
+  // Start from the current project name each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setProjectName(initialName)
+      setStatus(null)
+    }
+  }, [isOpen, initialName])
+
+  const setOpen = (nextOpen: boolean) => {
+    if (open === undefined) setInternalOpen(nextOpen)
+    onOpenChange?.(nextOpen)
+  }
+
+  // Save to the browser's project library, or download a bundle file to keep or share
+  const handleSave = async (target: "library" | "file") => {
+    const name = projectName.trim() || "Untitled Project"
+    setIsSaving(target)
+    setStatus(null)
+
+    try {
+      const session = getSession(name)
+      if (target === "library" && projectStore.isAvailable()) {
+        await projectStore.saveProject(projectId, session)
+      } else {
+        downloadBlob(await createProjectBundle(session), getProjectFileName(name))
+      }
+      onSaved?.(name)
+      setOpen(false)
+    } catch (error) {
+      console.error("Failed to save project:", error)
+      setStatus("Saving failed. See the console for details.")
+    } finally {
+      setIsSaving(null)
+    }
   }
 
   return (
-    <Dialog>
-      <DialogTrigger asChild>{children}</DialogTrigger>
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      {children && <DialogTrigger asChild>{children}</DialogTrigger>}
       <DialogContent className="sm:max-w-[425px] bg-zinc-900 border-zinc-800 text-zinc-100">
         <DialogHeader>
           <DialogTitle className="text-zinc-100">Save Project</DialogTitle>
-          <DialogDescription className="text-zinc-400">Save your current project to a file.</DialogDescription>
+          <DialogDescription className="text-zinc-400">
+            Save your current project, with its audio and media, to this browser or to a single file.
+          </DialogDescription>
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
@@ -54,24 +104,34 @@ export function SaveProjectModal({ children }: SaveProjectModalProps) {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="project-location">Save Location</Label>
-            <div className="flex items-center gap-2">
-              <Input
-                id="project-location"
-                value="/Users/username/Documents/Audio Projects"
-                readOnly
-                className="bg-zinc-800 border-zinc-700 focus-visible:ring-yellow-500"
-              />
-              <Button variant="outline" className="border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300">
-                Browse
-              </Button>
-            </div>
+            <Label htmlFor="project-file-name">Download As</Label>
+            <Input
+              id="project-file-name"
+              value={getProjectFileName(projectName.trim() || "Untitled Project")}
+              readOnly
+              className="bg-zinc-800 border-zinc-700 focus-visible:ring-yellow-500 text-zinc-400"
+            />
           </div>
+
+          {status && <p className="text-xs text-red-400">{status}</p>}
         </div>
 
         <DialogFooter>
-          <Button onClick={handleSave} disabled={isSaving} className="bg-yellow-500 text-zinc-950 hover:bg-yellow-400">
-            {isSaving ? (
+          <Button
+            variant="outline"
+            onClick={() => handleSave("file")}
+            disabled={isSaving !== null}
+            className="border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {isSaving === "file" ? "Preparing..." : "Download File"}
+          </Button>
+          <Button
+            onClick={() => handleSave("library")}
+            disabled={isSaving !== null}
+            className="bg-yellow-500 text-zinc-950 hover:bg-yellow-400"
+          >
+            {isSaving === "library" ? (
               <>
                 <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-zinc-900 border-t-transparent"></div>
                 Saving...
@@ -1,82 +1,139 @@
 "use client"
 
-import React, { useState, useCallback, useRef, useEffect } from "react"
+import React, { useState, useCallback, useEffect } from "react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import type { AudioSlice } from "@/lib/audio-engine"
+import {
+  createStep,
+  MAX_STEP_NUDGE,
+  sequencerEngine,
+  type SequencerPattern,
+  type SequencerStep,
+} from "@/lib/sequencer-engine"
 
 interface SequencerProps {
-  tracks: number
-  steps: number
-  initialSequence?: boolean[][]
-  onSequenceChange?: (sequence: boolean[][]) => void
+  sequence: SequencerPattern
+  patternIndex: number
+  slices: AudioSlice[]
+  swing: number
+  onSequenceChange?: (sequence: SequencerPattern) => void
+  onSwingChange?: (swing: number) => void
 }
 
-export default function Sequencer({ tracks, steps, initialSequence, onSequenceChange }: SequencerProps) {
-  const [sequence, setSequence] = useState<boolean[][]>(
-    initialSequence ||
-      Array(tracks)
-        .fill(null)
-        .map(() => Array(steps).fill(false)),
-  )
-  const [currentStep, setCurrentStep] = useState<number>(0)
-  const [isPlaying, setIsPlaying] = useState<boolean>(false)
-  const intervalRef = useRef<number | null>(null)
+const MAX_REPEATS = 4
+
+export default function Sequencer({
+  sequence,
+  patternIndex,
+  slices,
+  swing,
+  onSequenceChange,
+  onSwingChange,
+}: SequencerProps) {
+  const [currentStep, setCurrentStep] = useState<number | null>(null)
+  const [selectedStep, setSelectedStep] = useState<{ track: number; step: number } | null>(null)
+  const [isPlaying, setIsPlaying] = useState<boolean>(sequencerEngine.isRunning())
 
+  // The engine keeps running while this view is unmounted, so follow it rather than own it
   useEffect(() => {
-    if (initialSequence) {
-      setSequence(initialSequence)
-    }
-  }, [initialSequence])
+    setIsPlaying(sequencerEngine.isRunning())
+    return sequencerEngine.addStepListener((position) => {
+      setCurrentStep(position && position.pattern === patternIndex ? position.step : null)
+      setIsPlaying(sequencerEngine.isRunning())
+    })
+  }, [patternIndex])
 
-  const toggleStep = useCallback(
-    (track: number, step: number) => {
-      const newSequence = sequence.map((row, rowIndex) =>
-        rowIndex === track ? row.map((val, index) => (index === step ? !val : val)) : row,
-      )
-      setSequence(newSequence)
-      onSequenceChange?.(newSequence)
+  const updateStep = useCallback(
+    (track: number, step: number, changes: Partial<SequencerStep>) => {
+      onSequenceChange?.({
+        ...sequence,
+        tracks: sequence.tracks.map((row, rowIndex) =>
+          rowIndex === track
+            ? {
+                ...row,
+                steps: row.steps.map((cell, index) => (index === step ? { ...(cell || createStep()), ...changes } : cell)),
+              }
+            : row,
+        ),
+      })
+    },
+    [sequence, onSequenceChange],
+  )
+
+  // Click toggles a step (and selects it when switched on); shift-click only selects it for editing
+  const handleStepClick = useCallback(
+    (event: React.MouseEvent, track: number, step: number) => {
+      const cell = sequence.tracks[track]?.steps[step]
+      if (event.shiftKey) {
+        setSelectedStep({ track, step })
+        return
+      }
+      const active = !cell?.active
+      updateStep(track, step, { active })
+      if (active) {
+        setSelectedStep({ track, step })
+      }
+    },
+    [sequence, updateStep],
+  )
+
+  const setTrackSlice = useCallback(
+    (track: number, sliceId: number | null) => {
+      onSequenceChange?.({
+        ...sequence,
+        tracks: sequence.tracks.map((row, rowIndex) => (rowIndex === track ? { ...row, sliceId } : row)),
+      })
     },
     [sequence, onSequenceChange],
   )
 
   const isStepActive = useCallback(
     (track: number, step: number) => {
-      return sequence[track][step]
+      return !!sequence.tracks[track]?.steps[step]?.active
     },
     [sequence],
   )
 
   const start = useCallback(() => {
     setIsPlaying(true)
-    if (intervalRef.current) return
-
-    intervalRef.current = window.setInterval(() => {
-      setCurrentStep((prevStep) => (prevStep + 1) % steps)
-    }, 200)
-  }, [steps])
+    sequencerEngine.start().catch((error) => {
+      console.error("Failed to start sequencer:", error)
+      setIsPlaying(false)
+    })
+  }, [])
 
   const stop = useCallback(() => {
+    sequencerEngine.stop()
     setIsPlaying(false)
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
-    setCurrentStep(0)
+    setCurrentStep(null)
   }, [])
 
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
-    }
-  }, [])
+  const steps = sequence.length
+  const selectedCell = selectedStep ? sequence.tracks[selectedStep.track]?.steps[selectedStep.step] : undefined
 
   return (
     <div className="space-y-4 border border-zinc-800 rounded-md p-4 bg-zinc-900/50">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-zinc-300">Step Sequencer</h3>
-        <div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 w-44">
+            <label htmlFor="sequencer-swing" className="text-xs text-zinc-500">
+              Swing
+            </label>
+            <Slider
+              id="sequencer-swing"
+              value={[swing]}
+              min={0}
+              max={100}
+              step={1}
+              onValueChange={(value) => onSwingChange?.(value[0])}
+              aria-label="Swing"
+            />
+            <span className="text-xs text-zinc-400 tabular-nums w-8 text-right">{swing}%</span>
+          </div>
           <Button
             className={
               isPlaying
@@ -90,46 +147,227 @@ export default function Sequencer({ tracks, steps, initialSequence, onSequenceCh
           </Button>
         </div>
       </div>
-      <div className="grid grid-cols-[40px_repeat(16,1fr)]">
-        <div></div>
-        {Array(steps)
-          .fill(null)
-          .map((_, step) => (
-            <div
-              key={`header-${step}`}
-              className={cn(
-                "flex items-center justify-center h-6 text-[10px] border-r border-zinc-800",
-                step === currentStep ? "bg-yellow-500/20 text-yellow-400 font-medium" : "text-zinc-500",
-                step % 4 === 0 && "border-l border-zinc-700 font-medium text-zinc-400",
-              )}
-            >
-              {step + 1}
-            </div>
-          ))}
-
-        {sequence.map((trackSequence, track) => (
-          <React.Fragment key={`track-${track}`}>
-            <div className="flex items-center justify-center h-8 text-zinc-500 border-r border-zinc-800">
-              {track + 1}
-            </div>
-            {trackSequence.map((_, step) => (
-              <button
-                key={`step-${track}-${step}-${isStepActive(track, step)}`}
+      <div className="overflow-x-auto">
+        <div
+          className="grid"
+          style={{ gridTemplateColumns: `88px repeat(${steps}, minmax(${steps > 16 ? "22px" : "0"}, 1fr))` }}
+        >
+          <div></div>
+          {Array(steps)
+            .fill(null)
+            .map((_, step) => (
+              <div
+                key={`header-${step}`}
                 className={cn(
-                  "h-8 border-r border-t border-zinc-800 transition-colors",
-                  "focus:outline-none focus:ring-1 focus:ring-inset focus:ring-yellow-500",
-                  step === currentStep && "bg-zinc-800/50",
-                  step % 4 === 0 && "border-l border-zinc-700",
-                  isStepActive(track, step) ? "bg-yellow-500/30 hover:bg-yellow-500/40" : "hover:bg-zinc-800",
+                  "flex items-center justify-center h-6 text-[10px] border-r border-zinc-800",
+                  step === currentStep ? "bg-yellow-500/20 text-yellow-400 font-medium" : "text-zinc-500",
+                  step % 4 === 0 && "border-l border-zinc-700 font-medium text-zinc-400",
                 )}
-                onClick={() => toggleStep(track, step)}
-                aria-label={`Track ${track + 1}, Step ${step + 1}, ${isStepActive(track, step) ? "Active" : "Inactive"}`}
-                aria-pressed={isStepActive(track, step)}
               >
-                {isStepActive(track, step) && <div className="w-3 h-3 mx-auto rounded-sm bg-yellow-400"></div>}
-              </button>
+                {step + 1}
+              </div>
             ))}
-          </React.Fragment>
+
+          {sequence.tracks.map((trackSequence, track) => (
+            <React.Fragment key={`track-${track}`}>
+              <div className="flex items-center h-8 pr-1 border-r border-zinc-800">
+                <Select
+                  value={trackSequence.sliceId === null ? "none" : String(trackSequence.sliceId)}
+                  onValueChange={(value) => setTrackSlice(track, value === "none" ? null : Number(value))}
+                >
+                  <SelectTrigger
+                    className="h-7 px-2 text-[10px] bg-zinc-900 border-zinc-800 text-zinc-400"
+                    aria-label={`Track ${track + 1} slice`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Off</SelectItem>
+                    {trackSequence.sliceId !== null && !slices.some((slice) => slice.id === trackSequence.sliceId) && (
+                      <SelectItem value={String(trackSequence.sliceId)}>Slice {trackSequence.sliceId + 1}</SelectItem>
+                    )}
+                    {slices.map((slice) => (
+                      <SelectItem key={slice.id} value={String(slice.id)}>
+                        {String(slice.id + 1).padStart(2, "0")} {slice.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {trackSequence.steps.map((cell, step) => (
+                <button
+                  key={`step-${track}-${step}-${isStepActive(track, step)}`}
+                  className={cn(
+                    "relative h-8 border-r border-t border-zinc-800 transition-colors",
+                    "focus:outline-none focus:ring-1 focus:ring-inset focus:ring-yellow-500",
+                    step === currentStep && "bg-zinc-800/50",
+                    step % 4 === 0 && "border-l border-zinc-700",
+                    isStepActive(track, step) ? "bg-yellow-500/30 hover:bg-yellow-500/40" : "hover:bg-zinc-800",
+                    selectedStep?.track === track && selectedStep.step === step && "ring-1 ring-inset ring-cyan-400",
+                  )}
+                  onClick={(event) => handleStepClick(event, track, step)}
+                  aria-label={`Track ${track + 1}, Step ${step + 1}, ${isStepActive(track, step) ? "Active" : "Inactive"}`}
+                  aria-pressed={isStepActive(track, step)}
+                >
+                  {cell.active && (
+                    <>
+                      {/* Height follows velocity, dashed outline marks a probability below 100% */}
+                      <div
+                        className={cn(
+                          "w-3 mx-auto rounded-sm bg-yellow-400",
+                          cell.probability < 1 && "bg-yellow-400/50 outline outline-1 outline-dashed outline-yellow-300",
+                        )}
+                        style={{ height: `${Math.max(3, Math.round(cell.velocity * 14))}px` }}
+                      ></div>
+                      {cell.repeats > 1 && (
+                        <span className="absolute bottom-0.5 right-0.5 text-[8px] leading-none text-yellow-200">
+                          x{cell.repeats}
+                        </span>
+                      )}
+                      {(cell.pitch !== 0 || cell.sliceId !== null) && (
+                        <span className="absolute top-0.5 left-0.5 w-1 h-1 rounded-full bg-cyan-400"></span>
+                      )}
+                    </>
+                  )}
+                </button>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      {selectedStep && selectedCell ? (
+        <StepInspector
+          track={selectedStep.track}
+          step={selectedStep.step}
+          cell={selectedCell}
+          slices={slices}
+          onChange={(changes) => updateStep(selectedStep.track, selectedStep.step, changes)}
+        />
+      ) : (
+        <p className="text-xs text-zinc-500">Shift-click a step to edit its velocity, pitch, slice and timing.</p>
+      )}
+    </div>
+  )
+}
+
+interface StepInspectorProps {
+  track: number
+  step: number
+  cell: SequencerStep
+  slices: AudioSlice[]
+  onChange: (changes: Partial<SequencerStep>) => void
+}
+
+function StepInspector({ track, step, cell, slices, onChange }: StepInspectorProps) {
+  const controls: {
+    id: "velocity" | "pitch" | "repeats" | "probability" | "nudge"
+    name: string
+    value: number
+    min: number
+    max: number
+    step: number
+    format: (value: number) => string
+    parse: (value: number) => number
+  }[] = [
+    {
+      id: "velocity",
+      name: "Velocity",
+      value: Math.round(cell.velocity * 100),
+      min: 0,
+      max: 100,
+      step: 1,
+      format: (value) => `${value}%`,
+      parse: (value) => value / 100,
+    },
+    {
+      id: "pitch",
+      name: "Pitch",
+      value: cell.pitch,
+      min: -24,
+      max: 24,
+      step: 1,
+      format: (value) => `${value > 0 ? "+" : ""}${value} st`,
+      parse: (value) => value,
+    },
+    {
+      id: "repeats",
+      name: "Repeat",
+      value: cell.repeats,
+      min: 1,
+      max: MAX_REPEATS,
+      step: 1,
+      format: (value) => `x${value}`,
+      parse: (value) => value,
+    },
+    {
+      id: "probability",
+      name: "Probability",
+      value: Math.round(cell.probability * 100),
+      min: 0,
+      max: 100,
+      step: 1,
+      format: (value) => `${value}%`,
+      parse: (value) => value / 100,
+    },
+    {
+      id: "nudge",
+      name: "Nudge",
+      value: Math.round(cell.nudge * 100),
+      min: -MAX_STEP_NUDGE * 100,
+      max: MAX_STEP_NUDGE * 100,
+      step: 1,
+      format: (value) => `${value > 0 ? "+" : ""}${value}%`,
+      parse: (value) => value / 100,
+    },
+  ]
+
+  return (
+    <div className="border-t border-zinc-800 pt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-zinc-300">
+          Track {track + 1}, Step {step + 1}
+          {!cell.active && <span className="ml-2 text-zinc-500">(off)</span>}
+        </h4>
+        <Select
+          value={cell.sliceId === null ? "track" : String(cell.sliceId)}
+          onValueChange={(value) => onChange({ sliceId: value === "track" ? null : Number(value) })}
+        >
+          <SelectTrigger className="h-7 w-44 px-2 text-xs bg-zinc-900 border-zinc-800 text-zinc-400" aria-label="Step slice">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="track">Track slice</SelectItem>
+            {cell.sliceId !== null && !slices.some((slice) => slice.id === cell.sliceId) && (
+              <SelectItem value={String(cell.sliceId)}>Slice {cell.sliceId + 1}</SelectItem>
+            )}
+            {slices.map((slice) => (
+              <SelectItem key={slice.id} value={String(slice.id)}>
+                {String(slice.id + 1).padStart(2, "0")} {slice.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+        {controls.map((control) => (
+          <div key={control.id} className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <label htmlFor={`step-${control.id}`} className="text-zinc-500">
+                {control.name}
+              </label>
+              <span className="text-zinc-400 tabular-nums">{control.format(control.value)}</span>
+            </div>
+            <Slider
+              id={`step-${control.id}`}
+              value={[control.value]}
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              onValueChange={(value) => onChange({ [control.id]: control.parse(value[0]) })}
+              aria-label={`Step ${control.name}`}
+            />
+          </div>
         ))}
       </div>
     </div>
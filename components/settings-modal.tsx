@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import {
   Dialog,
   DialogContent,
@@ -17,6 +17,15 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Button } from "@/components/ui/button"
+import { X } from "lucide-react"
+import { getMidiTargetKey, midiManager, type MidiControlTarget } from "@/lib/midi"
+import { projectStore } from "@/lib/project-store"
+
+// Controls that can be learned from this tab; effect parameters are learned from the effects panel
+const MIDI_LEARN_TARGETS: { target: MidiControlTarget; label: string }[] = [
+  { target: { kind: "masterVolume" }, label: "Master Volume" },
+  { target: { kind: "bpm" }, label: "BPM" },
+]
 
 interface SettingsModalProps {
   children: React.ReactNode
@@ -26,12 +35,48 @@ export function SettingsModal({ children }: SettingsModalProps) {
   const [audioDevice, setAudioDevice] = useState("default")
   const [sampleRate, setSampleRate] = useState("44100")
   const [bufferSize, setBufferSize] = useState("1024")
-  const [midiInput, setMidiInput] = useState("all")
+  const [midiInput, setMidiInput] = useState(midiManager.getInput())
+  const [midiChannel, setMidiChannel] = useState(String(midiManager.getChannel()))
+  const [midiInputs, setMidiInputs] = useState(midiManager.getInputs())
+  const [midiConnected, setMidiConnected] = useState(midiManager.isConnected())
+  const [midiNoteBase, setMidiNoteBase] = useState(midiManager.getNoteBase())
+  const [midiBindings, setMidiBindings] = useState(midiManager.getBindings())
+  const [midiLearnTarget, setMidiLearnTarget] = useState(midiManager.getLearnTarget())
   const [midiOutput, setMidiOutput] = useState("none")
-  const [autoSave, setAutoSave] = useState(true)
-  const [autoLoadLastProject, setAutoLoadLastProject] = useState(false)
+  const [autoSave, setAutoSave] = useState(() => projectStore.getSettings().autoSave)
+  const [autoLoadLastProject, setAutoLoadLastProject] = useState(() => projectStore.getSettings().autoLoadLastProject)
   const [showPerformanceMetrics, setShowPerformanceMetrics] = useState(true)
 
+  // Mirror the MIDI manager: devices come and go, and learn completes when a CC arrives
+  useEffect(() => {
+    const sync = () => {
+      setMidiInput(midiManager.getInput())
+      setMidiChannel(String(midiManager.getChannel()))
+      setMidiInputs(midiManager.getInputs())
+      setMidiConnected(midiManager.isConnected())
+      setMidiNoteBase(midiManager.getNoteBase())
+      setMidiBindings(midiManager.getBindings())
+      setMidiLearnTarget(midiManager.getLearnTarget())
+    }
+    sync()
+    return midiManager.addStateListener(sync)
+  }, [])
+
+  useEffect(() => {
+    return projectStore.addSettingsListener((settings) => {
+      setAutoSave(settings.autoSave)
+      setAutoLoadLastProject(settings.autoLoadLastProject)
+    })
+  }, [])
+
+  const toggleMidiLearn = (target: MidiControlTarget, label: string) => {
+    if (midiLearnTarget && getMidiTargetKey(midiLearnTarget) === getMidiTargetKey(target)) {
+      midiManager.cancelLearn()
+    } else {
+      midiManager.startLearn(target, label)
+    }
+  }
+
   return (
     <Dialog>
       <DialogTrigger asChild>{children}</DialogTrigger>
@@ -112,17 +157,23 @@ export function SettingsModal({ children }: SettingsModalProps) {
             <div className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="midi-input">MIDI Input Device</Label>
-                <Select value={midiInput} onValueChange={setMidiInput}>
+                <Select value={midiInput} onValueChange={(value) => midiManager.setInput(value)}>
                   <SelectTrigger id="midi-input" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
                     <SelectValue placeholder="Select MIDI input" />
                   </SelectTrigger>
                   <SelectContent className="bg-zinc-800 border-zinc-700">
                     <SelectItem value="all">All MIDI Inputs</SelectItem>
                     <SelectItem value="none">None</SelectItem>
-                    <SelectItem value="keyboard">MIDI Keyboard</SelectItem>
-                    <SelectItem value="controller">MIDI Controller</SelectItem>
+                    {midiInputs.map((input) => (
+                      <SelectItem key={input.id} value={input.id}>
+                        {input.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {!midiConnected && (
+                  <p className="text-xs text-zinc-500">MIDI is unavailable in this browser or access was denied.</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -141,7 +192,10 @@ export function SettingsModal({ children }: SettingsModalProps) {
 
               <div className="space-y-2">
                 <Label htmlFor="midi-channel">MIDI Channel</Label>
-                <Select defaultValue="1">
+                <Select
+                  value={midiChannel}
+                  onValueChange={(value) => midiManager.setChannel(value === "all" ? "all" : Number(value))}
+                >
                   <SelectTrigger id="midi-channel" className="bg-zinc-800 border-zinc-700 focus:ring-yellow-500">
                     <SelectValue placeholder="Select MIDI channel" />
                   </SelectTrigger>
@@ -155,6 +209,77 @@ export function SettingsModal({ children }: SettingsModalProps) {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="midi-note-base">Pad 1 Note</Label>
+                <Input
+                  id="midi-note-base"
+                  type="number"
+                  min={0}
+                  max={112}
+                  value={midiNoteBase}
+                  onChange={(e) => {
+                    const note = Number.parseInt(e.target.value)
+                    if (!isNaN(note)) midiManager.setNoteBase(note)
+                  }}
+                  className="bg-zinc-800 border-zinc-700 focus-visible:ring-yellow-500"
+                />
+                <p className="text-xs text-zinc-500">
+                  Notes {midiNoteBase}-{midiNoteBase + 15} play pads 1-16; velocity sets the hit level.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>MIDI Learn</Label>
+                <div className="flex flex-wrap gap-2">
+                  {MIDI_LEARN_TARGETS.map(({ target, label }) => {
+                    const learning = midiLearnTarget && getMidiTargetKey(midiLearnTarget) === getMidiTargetKey(target)
+                    return (
+                      <Button
+                        key={getMidiTargetKey(target)}
+                        size="sm"
+                        variant="outline"
+                        className={
+                          learning
+                            ? "border-yellow-500 text-yellow-300 animate-premium-pulse"
+                            : "border-zinc-700 hover:bg-zinc-800 hover:text-yellow-300"
+                        }
+                        onClick={() => toggleMidiLearn(target, label)}
+                      >
+                        {learning ? `Move a control for ${label}...` : `Learn ${label}`}
+                      </Button>
+                    )
+                  })}
+                </div>
+                {midiBindings.length > 0 ? (
+                  <div className="space-y-1">
+                    {midiBindings.map((binding) => (
+                      <div
+                        key={getMidiTargetKey(binding.target)}
+                        className="flex items-center justify-between text-sm text-zinc-300 rounded px-2 py-1 bg-zinc-800/50"
+                      >
+                        <span>{binding.label}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-zinc-500 tabular-nums">
+                            CC {binding.controller} / Ch {binding.channel}
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6 text-zinc-500 hover:text-zinc-200"
+                            onClick={() => midiManager.removeBinding(binding.target)}
+                            aria-label={`Remove ${binding.label} binding`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-zinc-500">No controls learned yet.</p>
+                )}
+              </div>
             </div>
           </TabsContent>
 
@@ -167,7 +292,7 @@ export function SettingsModal({ children }: SettingsModalProps) {
                 <Switch
                   id="auto-save"
                   checked={autoSave}
-                  onCheckedChange={setAutoSave}
+                  onCheckedChange={(checked) => projectStore.updateSettings({ autoSave: checked })}
                   className="data-[state=checked]:bg-yellow-500"
                 />
               </div>
@@ -179,7 +304,7 @@ export function SettingsModal({ children }: SettingsModalProps) {
                 <Switch
                   id="auto-load"
                   checked={autoLoadLastProject}
-                  onCheckedChange={setAutoLoadLastProject}
+                  onCheckedChange={(checked) => projectStore.updateSettings({ autoLoadLastProject: checked })}
                   className="data-[state=checked]:bg-yellow-500"
                 />
               </div>
@@ -0,0 +1,108 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { SongEntry } from "@/lib/sequencer-engine"
+
+interface SongArrangementProps {
+  arrangement: SongEntry[]
+  patternCount: number
+  songMode: boolean
+  currentEntry: number | null
+  onArrangementChange: (arrangement: SongEntry[]) => void
+  onSongModeChange: (enabled: boolean) => void
+}
+
+export default function SongArrangement({
+  arrangement,
+  patternCount,
+  songMode,
+  currentEntry,
+  onArrangementChange,
+  onSongModeChange,
+}: SongArrangementProps) {
+  const updateEntry = (index: number, changes: Partial<SongEntry>) => {
+    onArrangementChange(arrangement.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)))
+  }
+
+  const addEntry = () => {
+    const last = arrangement[arrangement.length - 1]
+    onArrangementChange([...arrangement, { pattern: last ? last.pattern : 0, repeats: 1 }])
+  }
+
+  const removeEntry = (index: number) => {
+    onArrangementChange(arrangement.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="border border-zinc-800 rounded-md p-4 bg-zinc-900/50 space-y-3">
+      <div className="flex items-center justify-between">
+        <label htmlFor="song-mode" className="text-sm text-zinc-300">
+          Song mode
+        </label>
+        <Switch
+          id="song-mode"
+          checked={songMode}
+          onCheckedChange={onSongModeChange}
+          className="data-[state=checked]:bg-yellow-500"
+        />
+      </div>
+
+      {arrangement.length === 0 && <p className="text-xs text-zinc-500">Add patterns to build an arrangement.</p>}
+
+      <div className="space-y-2">
+        {arrangement.map((entry, index) => (
+          <div
+            key={`song-entry-${index}`}
+            className={cn(
+              "flex items-center gap-2 rounded px-2 py-1 border border-transparent",
+              songMode && currentEntry === index && "border-yellow-500/40 bg-yellow-500/10",
+            )}
+          >
+            <span className="w-5 text-xs text-zinc-500 tabular-nums">{index + 1}</span>
+            <Select value={String(entry.pattern)} onValueChange={(value) => updateEntry(index, { pattern: Number(value) })}>
+              <SelectTrigger className="h-8 flex-1 bg-zinc-900 border-zinc-800 text-xs" aria-label={`Entry ${index + 1} pattern`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: patternCount }, (_, pattern) => (
+                  <SelectItem key={pattern} value={String(pattern)}>
+                    Pattern {pattern + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-zinc-500">x</span>
+            <Input
+              type="number"
+              min={1}
+              max={64}
+              value={entry.repeats}
+              onChange={(e) => updateEntry(index, { repeats: Math.max(1, Math.min(64, Number(e.target.value) || 1)) })}
+              className="h-8 w-16 bg-zinc-900 border-zinc-800 text-xs"
+              aria-label={`Entry ${index + 1} repeats`}
+            />
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 text-zinc-500 hover:text-zinc-200"
+              onClick={() => removeEntry(index)}
+              aria-label={`Remove entry ${index + 1}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button size="sm" variant="outline" className="h-8 w-full bg-zinc-800 border-zinc-700" onClick={addEntry}>
+        <Plus className="h-3.5 w-3.5 mr-1.5" />
+        Add Pattern
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react"
+import {
+  getOnsetThresholds,
+  type BeatResult,
+  type OnsetFunctionResult,
+  type SpectrogramResult,
+} from "@/lib/audio-analysis-core"
+import type { AudioSlice } from "@/lib/audio-engine"
+
+// Part of the file shown, in seconds
+export interface VisibleRange {
+  start: number
+  end: number
+}
+
+interface SpectrogramViewProps {
+  duration: number // seconds
+  sampleRate: number
+  // The waveform's visible window, so the view follows its zoom and scroll; the whole file when null
+  visibleRange: VisibleRange | null
+  spectrogram: SpectrogramResult | null
+  spectrogramFailed: boolean // analysis finished without a spectrogram
+  onsetFunction: OnsetFunctionResult | null
+  // Peak-picker settings, so the threshold line matches what detection will use
+  sensitivity: number
+  adaptiveThreshold: boolean
+  slices: AudioSlice[]
+  beats: BeatResult | null
+  // Moved by the parent as playback advances, without re-rendering the view
+  playheadRef: RefObject<HTMLDivElement | null>
+  onSeek?: (fraction: number) => void // of the whole file
+}
+
+const SPECTROGRAM_HEIGHT = 140
+const LANE_HEIGHT = 36
+const LANES = ["Onset", "RMS", "Beats"] as const
+
+// Colour stops for spectrogram levels, from silence to the loudest band
+const COLOR_STOPS: [number, number, number][] = [
+  [9, 9, 11],
+  [49, 18, 99],
+  [150, 36, 104],
+  [236, 100, 40],
+  [252, 240, 160],
+]
+
+// 256-entry lookup table interpolated between the colour stops
+const COLOR_TABLE = Array.from({ length: 256 }, (_, level) => {
+  const position = (level / 255) * (COLOR_STOPS.length - 1)
+  const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position))
+  const fraction = position - index
+  return COLOR_STOPS[index].map((channel, i) => Math.round(channel + (COLOR_STOPS[index + 1][i] - channel) * fraction))
+})
+
+function maxOf(values: number[]): number {
+  return values.reduce((max, value) => Math.max(max, value), 0)
+}
+
+// Largest value falling in each pixel column of the range, so narrow peaks survive downsampling;
+// value i starts at i * interval seconds
+function columnPeaks(values: number[], width: number, interval: number, range: VisibleRange): number[] {
+  const peaks = new Array<number>(width).fill(0)
+  const span = range.end - range.start
+  values.forEach((value, i) => {
+    const x = Math.floor(((i * interval - range.start) / span) * width)
+    if (x < 0 || x >= width) return
+    peaks[x] = Math.max(peaks[x], value)
+  })
+  return peaks
+}
+
+export function SpectrogramView({
+  duration,
+  sampleRate,
+  visibleRange,
+  spectrogram,
+  spectrogramFailed,
+  onsetFunction,
+  sensitivity,
+  adaptiveThreshold,
+  slices,
+  beats,
+  playheadRef,
+  onSeek,
+}: SpectrogramViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const spectrogramCanvasRef = useRef<HTMLCanvasElement>(null)
+  const lanesCanvasRef = useRef<HTMLCanvasElement>(null)
+  const [width, setWidth] = useState(0)
+  const range = useMemo(() => visibleRange ?? { start: 0, end: duration }, [visibleRange, duration])
+
+  // Follow the container width
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const thresholds = useMemo(
+    () =>
+      onsetFunction
+        ? getOnsetThresholds(onsetFunction.values, {
+            sampleRate,
+            hopSize: onsetFunction.hopSize,
+            sensitivity,
+            adaptiveThreshold,
+          })
+        : [],
+    [onsetFunction, sampleRate, sensitivity, adaptiveThreshold]
+  )
+
+  // Spectrogram image at its own resolution, one pixel per column and band
+  const spectrogramImage = useMemo(() => {
+    if (!spectrogram) return null
+
+    const { data, columns, bands } = spectrogram
+    const image = new ImageData(columns, bands)
+    for (let column = 0; column < columns; column++) {
+      for (let band = 0; band < bands; band++) {
+        const [r, g, b] = COLOR_TABLE[data[column * bands + band]]
+        // Lowest band at the bottom
+        const offset = ((bands - 1 - band) * columns + column) * 4
+        image.data[offset] = r
+        image.data[offset + 1] = g
+        image.data[offset + 2] = b
+        image.data[offset + 3] = 255
+      }
+    }
+
+    const source = document.createElement("canvas")
+    source.width = columns
+    source.height = bands
+    source.getContext("2d")?.putImageData(image, 0, 0)
+    return source
+  }, [spectrogram])
+
+  // The visible part of the spectrogram image, scaled to the canvas
+  useEffect(() => {
+    const canvas = spectrogramCanvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx || width === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = width * pixelRatio
+    canvas.height = SPECTROGRAM_HEIGHT * pixelRatio
+    ctx.fillStyle = "#09090b"
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    if (!spectrogramImage || duration <= 0) return
+
+    const columnsPerSecond = spectrogramImage.width / duration
+    ctx.imageSmoothingEnabled = true
+    ctx.drawImage(
+      spectrogramImage,
+      range.start * columnsPerSecond,
+      0,
+      (range.end - range.start) * columnsPerSecond,
+      spectrogramImage.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    )
+  }, [spectrogramImage, range, duration, width])
+
+  // Lanes: onset function with its threshold, RMS energy and the beat grid; slice starts across all
+  useEffect(() => {
+    const canvas = lanesCanvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx || width === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = width * pixelRatio
+    canvas.height = LANES.length * LANE_HEIGHT * pixelRatio
+    ctx.scale(pixelRatio, pixelRatio)
+    ctx.fillStyle = "#09090b"
+    ctx.fillRect(0, 0, width, LANES.length * LANE_HEIGHT)
+
+    const laneTop = (lane: number) => lane * LANE_HEIGHT
+    const interval = onsetFunction ? onsetFunction.hopSize / sampleRate : 0
+    const span = range.end - range.start
+    const toX = (time: number) => Math.round(((time - range.start) / span) * width)
+    const drawBars = (values: number[], lane: number, color: string, max: number) => {
+      if (values.length === 0 || max <= 0 || span <= 0) return
+      ctx.fillStyle = color
+      columnPeaks(values, width, interval, range).forEach((value, x) => {
+        const height = Math.min(1, value / max) * (LANE_HEIGHT - 4)
+        ctx.fillRect(x, laneTop(lane) + LANE_HEIGHT - 2 - height, 1, height)
+      })
+    }
+
+    if (onsetFunction) {
+      const max = Math.max(maxOf(onsetFunction.values), maxOf(thresholds))
+      drawBars(onsetFunction.values, 0, "rgba(34,211,238,0.8)", max)
+
+      // Threshold line: peaks above it become onsets
+      if (max > 0 && thresholds.length > 0 && span > 0) {
+        const peaks = columnPeaks(thresholds, width, interval, range)
+        ctx.strokeStyle = "rgba(250,204,21,0.9)"
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        peaks.forEach((value, x) => {
+          const y = laneTop(0) + LANE_HEIGHT - 2 - Math.min(1, value / max) * (LANE_HEIGHT - 4)
+          if (x === 0) ctx.moveTo(x, y)
+          else ctx.lineTo(x, y)
+        })
+        ctx.stroke()
+      }
+
+      drawBars(onsetFunction.energy, 1, "rgba(74,222,128,0.7)", maxOf(onsetFunction.energy))
+    }
+
+    if (beats && span > 0) {
+      const downbeats = new Set(beats.downbeats)
+      beats.beats.forEach((time) => {
+        const x = toX(time)
+        if (x < 0 || x >= width) return
+        const isDownbeat = downbeats.has(time)
+        ctx.fillStyle = isDownbeat ? "rgba(34,211,238,0.9)" : "rgba(34,211,238,0.4)"
+        const height = isDownbeat ? LANE_HEIGHT - 8 : (LANE_HEIGHT - 8) / 2
+        ctx.fillRect(x, laneTop(2) + LANE_HEIGHT - 4 - height, 1, height)
+      })
+    }
+
+    if (span > 0) {
+      ctx.fillStyle = "rgba(239,68,68,0.6)"
+      slices.forEach((slice) => {
+        const x = toX(slice.startSample / sampleRate)
+        if (x < 0 || x >= width) return
+        ctx.fillRect(x, 0, 1, LANES.length * LANE_HEIGHT)
+      })
+    }
+
+    // Lane separators and labels
+    ctx.fillStyle = "#27272a"
+    LANES.forEach((_, lane) => ctx.fillRect(0, laneTop(lane), width, 1))
+    ctx.fillStyle = "#a1a1aa"
+    ctx.font = "10px sans-serif"
+    LANES.forEach((label, lane) => ctx.fillText(label, 4, laneTop(lane) + 12))
+  }, [onsetFunction, thresholds, beats, slices, range, sampleRate, width])
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden border-t border-zinc-800 bg-zinc-950 cursor-pointer"
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect()
+        const time = range.start + ((e.clientX - rect.left) / rect.width) * (range.end - range.start)
+        if (duration > 0) onSeek?.(Math.max(0, Math.min(1, time / duration)))
+      }}
+    >
+      <canvas ref={spectrogramCanvasRef} className="block w-full" style={{ height: SPECTROGRAM_HEIGHT }} />
+      <canvas ref={lanesCanvasRef} className="block w-full" style={{ height: LANES.length * LANE_HEIGHT }} />
+      {!spectrogram && (
+        <div className="absolute inset-x-0 top-0 flex items-center justify-center" style={{ height: SPECTROGRAM_HEIGHT }}>
+          {spectrogramFailed ? (
+            <p className="text-xs text-red-400">The spectrogram could not be computed.</p>
+          ) : (
+            <p className="text-xs text-zinc-500">Computing spectrogram...</p>
+          )}
+        </div>
+      )}
+      <div ref={playheadRef} className="absolute top-0 bottom-0 w-px bg-white/70 pointer-events-none" style={{ left: 0 }} />
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { Play, Pause, SkipForward, SkipBack, Square, Repeat, Save, FolderOpen } from 'lucide-react'
+import { Play, Pause, SkipForward, SkipBack, Square, Repeat, Save, FolderOpen, Undo2, Redo2 } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { cn } from "@/lib/utils"
@@ -18,6 +18,12 @@ interface TransportControlsProps {
   onToggleLoop?: () => void
   pitch?: number
   onPitchChange?: (pitch: number) => void
+  onSaveProject?: () => void
+  onOpenProject?: () => void
+  onUndo?: () => void
+  onRedo?: () => void
+  undoDescription?: string | null // null when there is nothing to undo
+  redoDescription?: string | null
 }
 
 export function TransportControls({
@@ -32,6 +38,12 @@ export function TransportControls({
   onToggleLoop,
   pitch = 0,
   onPitchChange,
+  onSaveProject,
+  onOpenProject,
+  onUndo,
+  onRedo,
+  undoDescription = null,
+  redoDescription = null,
 }: TransportControlsProps) {
   const handleBpmInput = (value: string) => {
     const numValue = Number.parseInt(value)
@@ -197,6 +209,57 @@ export function TransportControls({
 
         <div className="w-px h-8 bg-zinc-800/50"></div>
 
+        {/* Edit history */}
+        {(onUndo || onRedo) && (
+          <>
+            <div className="flex items-center gap-1.5">
+              <TooltipProvider delayDuration={300}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 rounded-lg border border-zinc-700 bg-zinc-800/80 hover:bg-zinc-700 hover:text-yellow-400 text-zinc-300 transition-all duration-200"
+                      onClick={onUndo}
+                      disabled={!undoDescription}
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      <span className="sr-only">Undo</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="glass-morphism text-zinc-100">
+                    <p className="text-xs font-semibold">{undoDescription ? `Undo ${undoDescription}` : "Nothing to Undo"}</p>
+                    <p className="text-xs text-zinc-500 mt-1">⌘Z</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
+              <TooltipProvider delayDuration={300}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 rounded-lg border border-zinc-700 bg-zinc-800/80 hover:bg-zinc-700 hover:text-yellow-400 text-zinc-300 transition-all duration-200"
+                      onClick={onRedo}
+                      disabled={!redoDescription}
+                    >
+                      <Redo2 className="h-4 w-4" />
+                      <span className="sr-only">Redo</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="glass-morphism text-zinc-100">
+                    <p className="text-xs font-semibold">{redoDescription ? `Redo ${redoDescription}` : "Nothing to Redo"}</p>
+                    <p className="text-xs text-zinc-500 mt-1">⇧⌘Z</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+
+            <div className="w-px h-8 bg-zinc-800/50"></div>
+          </>
+        )}
+
         {/* Project controls */}
         <div className="flex items-center gap-1.5">
           <TooltipProvider delayDuration={300}>
@@ -206,6 +269,7 @@ export function TransportControls({
                   variant="ghost"
                   size="icon"
                   className="h-8 w-8 rounded-lg border border-zinc-700 bg-zinc-800/80 hover:bg-zinc-700 hover:text-yellow-400 text-zinc-300 transition-all duration-200"
+                  onClick={onSaveProject}
                 >
                   <Save className="h-4 w-4" />
                   <span className="sr-only">Save Project</span>
@@ -225,6 +289,7 @@ export function TransportControls({
                   variant="ghost"
                   size="icon"
                   className="h-8 w-8 rounded-lg border border-zinc-700 bg-zinc-800/80 hover:bg-zinc-700 hover:text-yellow-400 text-zinc-300 transition-all duration-200"
+                  onClick={onOpenProject}
                 >
                   <FolderOpen className="h-4 w-4" />
                   <span className="sr-only">Open Project</span>
@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Play, Pause, SkipBack, Upload, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Wand2, Repeat } from 'lucide-react'
 import { cn } from "@/lib/utils"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { audioEngine, type AudioSlice, type AudioSection } from "@/lib/audio-engine"
+import { audioEngine, type AudioSlice, type AudioSection, type PlaybackOptions } from "@/lib/audio-engine"
 import { TransportControls } from "@/components/transport-controls"
 
 interface WaveformDisplayProps {
@@ -796,12 +796,12 @@ export default function WaveformDisplay({
         }
       } else {
         if (buffer) {
-          const options: any = {
+          const options: PlaybackOptions = {
             loop: isLooping,
             volume: Math.pow(10, volume / 20),
             rate: 1.0,
-            // Added pitch shifting option
-            pitch: pitch,
+            // Pitch shift in semitones, independent of tempo
+            semitones: pitch,
           }
 
           if (isLooping) {
@@ -909,12 +909,12 @@ export default function WaveformDisplay({
     if (externalIsPlaying && currentPlaybackId) {
       audioEngine.stopPlayback(currentPlaybackId)
 
-      const options: any = {
+      const options: PlaybackOptions = {
         loop: isLooping,
         volume: Math.pow(10, volume / 20),
         rate: 1.0,
-        // Added pitch shifting option
-        pitch: pitch,
+        // Pitch shift in semitones, independent of tempo
+        semitones: pitch,
       }
 
       if (isLooping) {
@@ -946,12 +946,12 @@ export default function WaveformDisplay({
       if (externalIsPlaying && currentPlaybackId) {
         audioEngine.stopPlayback(currentPlaybackId)
 
-        const options: any = {
+        const options: PlaybackOptions = {
           loop: isLooping,
           volume: Math.pow(10, volume / 20),
           rate: 1.0,
-          // Added pitch shifting option
-          pitch: pitch,
+          // Pitch shift in semitones, independent of tempo
+          semitones: pitch,
         }
 
         if (isLooping) {
@@ -983,12 +983,12 @@ export default function WaveformDisplay({
       if (externalIsPlaying && currentPlaybackId) {
         audioEngine.stopPlayback(currentPlaybackId)
 
-        const options: any = {
+        const options: PlaybackOptions = {
           loop: isLooping,
           volume: Math.pow(10, volume / 20),
           rate: 1.0,
-          // Added pitch shifting option
-          pitch: pitch,
+          // Pitch shift in semitones, independent of tempo
+          semitones: pitch,
         }
 
         if (isLooping) {
@@ -1020,12 +1020,12 @@ export default function WaveformDisplay({
       if (externalIsPlaying && currentPlaybackId) {
         audioEngine.stopPlayback(currentPlaybackId)
 
-        const options: any = {
+        const options: PlaybackOptions = {
           loop: isLooping,
           volume: Math.pow(10, volume / 20),
           rate: 1.0,
-          // Added pitch shifting option
-          pitch: pitch,
+          // Pitch shift in semitones, independent of tempo
+          semitones: pitch,
         }
 
         if (isLooping) {
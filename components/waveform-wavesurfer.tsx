@@ -3,44 +3,160 @@
 import { useEffect, useLayoutEffect, useRef, useState, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Play, Pause, Upload, ZoomIn, ZoomOut, Wand2, Repeat } from "lucide-react"
+import { Play, Pause, Upload, ZoomIn, ZoomOut, Wand2, Repeat, Music2, Mic, AudioLines, Scissors, Merge, Trash2 } from "lucide-react"
 import { cn } from "@/lib/utils"
-import { audioEngine, type AudioSlice, type AudioSection } from "@/lib/audio-engine"
+import {
+  audioEngine,
+  toOnsetSensitivity,
+  type AudioSlice,
+  type SliceFades,
+  type AudioSection,
+  type BeatDivision,
+} from "@/lib/audio-engine"
+import { AnalysisCancelledError } from "@/lib/audio-analysis"
+import type { Region } from "wavesurfer.js/dist/plugins/regions.esm.js"
+import {
+  DEFAULT_ONSET_OPTIONS,
+  type BeatResult,
+  type ChordSegment,
+  type OnsetDetectionOptions,
+  type OnsetFunctionResult,
+  type OnsetMethod,
+  type SpectrogramResult,
+} from "@/lib/audio-analysis-core"
+import { getShortKeyName } from "@/lib/music-key"
+import {
+  MIN_SLICE_DURATION,
+  assignSlicesToSections,
+  deleteSlice,
+  mergeWithNext,
+  moveSliceBoundaries,
+  renameSlice,
+  snapSample,
+  splitSlice,
+  type SnapMode,
+} from "@/lib/slice-editing"
+import type { Annotation } from "@/lib/annotations"
 import { TransportControls } from "@/components/transport-controls"
+import { SpectrogramView, type VisibleRange } from "@/components/spectrogram-view"
+
+// A file to load with previously saved slices and sections instead of running analysis
+export interface WaveformRestoreRequest {
+  file: File
+  slices: AudioSlice[]
+  sections: AudioSection[]
+}
 
 interface WaveformWavesurferProps {
-  onAudioLoad: (buffer: AudioBuffer, slices: AudioSlice[], sections: AudioSection[]) => void
+  // `edit` describes a user-initiated change (e.g. re-running detection) for the undo history;
+  // `detected` marks slices fresh from detection, as opposed to edits of the current ones
+  onAudioLoad: (
+    buffer: AudioBuffer,
+    slices: AudioSlice[],
+    sections: AudioSection[],
+    edit?: string,
+    detected?: boolean
+  ) => void
+  onFileLoad?: (file: File) => void
+  restoreRequest?: WaveformRestoreRequest | null
+  // Slices/sections set by the parent (undo/redo); the waveform follows them when they change
+  slices?: AudioSlice[]
+  sections?: AudioSection[]
   onPlaybackPositionChange?: (position: number) => void
   onCurrentSliceChange?: (sliceId: number | null) => void
   onCurrentSectionChange?: (sectionId: number | null) => void
   onCurrentAnnotationChange?: (annotationId: string | null) => void
+  // Phrase annotations shown on the waveform, and the callback for newly detected ones
+  annotations?: Annotation[]
+  onAnnotationsDetect?: (annotations: Annotation[]) => void
+  // An annotation region was dragged or resized
+  onAnnotationChange?: (annotationId: string, startTime: number, endTime: number) => void
   isPlaying?: boolean
   onTogglePlayback?: () => void
   bpm?: number
   onBpmChange?: (bpm: number) => void
+  pitch?: number
+  onPitchChange?: (pitch: number) => void
   isLooping?: boolean
   onToggleLoop?: () => void
   onSkipForward?: () => void
   onSkipBack?: () => void
   onPause?: () => void
+  onSaveProject?: () => void
+  onOpenProject?: () => void
+  onUndo?: () => void
+  onRedo?: () => void
+  undoDescription?: string | null
+  redoDescription?: string | null
+}
+
+// Annotation regions are told apart from section and slice regions by this id prefix
+const ANNOTATION_REGION_PREFIX = "annotation-"
+const SLICE_REGION_PREFIX = "slice-"
+
+const SECTION_COLORS = ["#eab30833", "#a1620733", "#ca8a0433", "#fde04733"]
+// One colour per repetition group (A, B, C...), and one for an intro/outro that does not repeat
+const SECTION_GROUP_COLORS = ["#eab30833", "#22d3ee33", "#a855f733", "#22c55e33", "#f9731633"]
+const UNGROUPED_SECTION_COLOR = "#71717a33"
+
+const ONSET_METHOD_LABELS: Record<OnsetMethod, string> = {
+  flux: "Spectral Flux",
+  superflux: "SuperFlux",
+  hfc: "HFC",
+  complex: "Complex",
+  energy: "Energy",
+}
+
+const ONSET_FRAME_SIZES = [512, 1024, 2048, 4096]
+const ONSET_HOP_SIZES = [128, 256, 512, 1024]
+
+// Pre-emphasis coefficient used while the toggle is on
+const PRE_EMPHASIS = 0.97
+
+// Attack and release choices (ms) for slice playback
+const SLICE_ATTACK_TIMES = [0, 1, 2, 5, 10]
+const SLICE_RELEASE_TIMES = [0, 2, 5, 10, 20]
+
+const SNAP_MODE_LABELS: Record<SnapMode, string> = {
+  off: "Off",
+  "zero-crossing": "Zero crossing",
+  onset: "Onset",
+  beat: "Beat",
 }
 
 export default function WaveformWavesurfer({
   onAudioLoad,
+  onFileLoad,
+  restoreRequest = null,
+  slices: controlledSlices,
+  sections: controlledSections,
   onPlaybackPositionChange,
   onCurrentSliceChange,
   onCurrentSectionChange,
   onCurrentAnnotationChange,
+  annotations,
+  onAnnotationsDetect,
+  onAnnotationChange,
   isPlaying = false,
   onTogglePlayback,
   bpm = 120,
   onBpmChange,
+  pitch = 0,
+  onPitchChange,
   isLooping = false,
   onToggleLoop,
   onSkipForward,
   onSkipBack,
   onPause,
+  onSaveProject,
+  onOpenProject,
+  onUndo,
+  onRedo,
+  undoDescription = null,
+  redoDescription = null,
 }: WaveformWavesurferProps) {
   const waveformRef = useRef<HTMLDivElement>(null)
   const wavesurferRef = useRef<any>(null)
@@ -52,12 +168,41 @@ export default function WaveformWavesurfer({
   const [slices, setSlices] = useState<AudioSlice[]>([])
   const [sections, setSections] = useState<AudioSection[]>([])
   const [analysisProgress, setAnalysisProgress] = useState<number | null>(null)
+  const [phraseError, setPhraseError] = useState<string | null>(null)
+  // Only the latest analysis run may clear the loading state; older runs get cancelled by the worker client
+  const analysisRunRef = useRef(0)
+  // Latest annotation callback for the region listener, which is registered once
+  const onAnnotationChangeRef = useRef(onAnnotationChange)
+  const annotationsEditable = !!onAnnotationChange
+  // Latest slice/section edit handler, for the same reason
+  const regionUpdateRef = useRef<(region: Region) => void>(() => {})
+  const [selectedSliceId, setSelectedSliceId] = useState<number | null>(null)
+  const [sliceName, setSliceName] = useState("")
+  const [snapMode, setSnapMode] = useState<SnapMode>("off")
+  const [snapOnsets, setSnapOnsets] = useState<number[] | null>(null)
+  const [sliceFades, setSliceFades] = useState<SliceFades>(() => audioEngine.getSliceFades())
+  const [zeroCrossingSnap, setZeroCrossingSnap] = useState(() => audioEngine.getZeroCrossingSnap())
   const [zoom, setZoom] = useState(1)
   const [sensitivity, setSensitivity] = useState(0.1)
+  const [onsetOptions, setOnsetOptions] = useState<Required<OnsetDetectionOptions>>(DEFAULT_ONSET_OPTIONS)
   const [sliceBy, setSliceBy] = useState<"section" | "transient" | "beat" | "manual">("section")
   const [maxSections, setMaxSections] = useState(8)
+  const [beatDivision, setBeatDivision] = useState<BeatDivision>("1/4")
+  const [beatMarkers, setBeatMarkers] = useState<BeatResult | null>(null)
+  // Spectrogram view with onset function, RMS and beat lanes
+  const [showSpectrogram, setShowSpectrogram] = useState(false)
+  const [spectrogram, setSpectrogram] = useState<SpectrogramResult | null>(null)
+  const [spectrogramFailed, setSpectrogramFailed] = useState(false)
+  const [onsetFunction, setOnsetFunction] = useState<OnsetFunctionResult | null>(null)
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null)
+  const playheadRef = useRef<HTMLDivElement>(null)
+  const [fileKey, setFileKey] = useState<string | null>(null)
+  const [chords, setChords] = useState<ChordSegment[]>([])
   const [fileName, setFileName] = useState<string>("")
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const handledRestoreRef = useRef<WaveformRestoreRequest | null>(null)
+  const syncedSlicesRef = useRef(controlledSlices)
+  const syncedSectionsRef = useRef(controlledSections)
 
   // Initialize Wavesurfer with dynamic import
   // Use useLayoutEffect to ensure DOM is ready
@@ -159,12 +304,31 @@ export default function WaveformWavesurfer({
 
         // Handle region clicks
         regions.on("region-clicked", (region) => {
-          const sectionId = region.id ? parseInt(region.id) : null
+          if (region.id.startsWith(ANNOTATION_REGION_PREFIX)) {
+            onCurrentAnnotationChange?.(region.id.slice(ANNOTATION_REGION_PREFIX.length))
+            return
+          }
+          if (region.id.startsWith(SLICE_REGION_PREFIX)) {
+            const sliceId = parseInt(region.id.slice(SLICE_REGION_PREFIX.length))
+            setSelectedSliceId(sliceId)
+            onCurrentSliceChange?.(sliceId)
+            return
+          }
+          const sectionId = /^\d+$/.test(region.id) ? parseInt(region.id) : null
           if (sectionId !== null && onCurrentSectionChange) {
             onCurrentSectionChange(sectionId)
           }
         })
 
+        // Dragging or resizing an annotation, slice or section moves its boundaries
+        regions.on("region-updated", (region) => {
+          if (region.id.startsWith(ANNOTATION_REGION_PREFIX)) {
+            onAnnotationChangeRef.current?.(region.id.slice(ANNOTATION_REGION_PREFIX.length), region.start, region.end)
+          } else {
+            regionUpdateRef.current(region)
+          }
+        })
+
         // Set ref FIRST before any async operations
         wavesurferRef.current = wavesurfer
 
@@ -302,8 +466,13 @@ export default function WaveformWavesurfer({
       const startTime = section.startSample / bufferToUse.sampleRate
       const endTime = section.endSample / bufferToUse.sampleRate
 
-      const colors = ["#eab30833", "#a1620733", "#ca8a0433", "#fde04733"]
-      const color = colors[index % colors.length]
+      // Repeats of a section share a colour; sections from older analyses alternate shades
+      const color = section.group
+        ? SECTION_GROUP_COLORS[(section.group.charCodeAt(0) - 65) % SECTION_GROUP_COLORS.length]
+        : sections.some((other) => other.group)
+          ? UNGROUPED_SECTION_COLOR
+          : SECTION_COLORS[index % SECTION_COLORS.length]
+      const content = [section.group, section.key ? getShortKeyName(section.key) : null].filter(Boolean).join(" · ")
 
       try {
         regions.addRegion({
@@ -313,14 +482,15 @@ export default function WaveformWavesurfer({
           drag: true,
           resize: true,
           id: section.id.toString(),
+          content: content || undefined,
         })
       } catch (e) {
         console.warn("Error adding region:", e)
       }
     })
 
-    // Add onset/slice regions as thin stripes
-    sliceRegions.forEach((slice, index) => {
+    // Add onset/slice regions as thin stripes; their edges can be dragged
+    sliceRegions.forEach((slice) => {
       const startTime = slice.startSample / bufferToUse.sampleRate
       const endTime = slice.endSample / bufferToUse.sampleRate
       const duration = Math.max(endTime - startTime, 0.02)
@@ -329,23 +499,57 @@ export default function WaveformWavesurfer({
         regions.addRegion({
           start: startTime,
           end: startTime + duration,
-          color: "rgba(239,68,68,0.35)",
+          color: slice.id === selectedSliceId ? "rgba(239,68,68,0.55)" : "rgba(239,68,68,0.35)",
           drag: false,
-          resize: false,
-          id: `slice-${index}`,
+          resize: true,
+          id: `${SLICE_REGION_PREFIX}${slice.id}`,
         })
       } catch (e) {
         console.warn("Error adding slice region:", e)
       }
     })
-  }, [audioBuffer])
 
-  // Handle file loading
-  const handleFileChange = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0]
-      if (!file) return
+    // Phrase annotations as a lighter band with their text
+    annotations?.forEach((annotation) => {
+      try {
+        regions.addRegion({
+          start: annotation.startTime,
+          end: annotation.endTime,
+          color: "rgba(34,197,94,0.12)",
+          drag: annotationsEditable,
+          resize: annotationsEditable,
+          id: `${ANNOTATION_REGION_PREFIX}${annotation.id}`,
+          content: annotation.text || undefined,
+        })
+      } catch (e) {
+        console.warn("Error adding annotation region:", e)
+      }
+    })
+
+    // Beat grid as marker lines, downbeats brighter
+    const downbeats = new Set(beatMarkers?.downbeats ?? [])
+    beatMarkers?.beats.forEach((time, index) => {
+      try {
+        regions.addRegion({
+          start: time,
+          color: downbeats.has(time) ? "rgba(34,211,238,0.8)" : "rgba(34,211,238,0.3)",
+          drag: false,
+          resize: false,
+          id: `beat-${index}`,
+        })
+      } catch (e) {
+        console.warn("Error adding beat marker:", e)
+      }
+    })
+  }, [audioBuffer, beatMarkers, annotations, annotationsEditable, selectedSliceId])
 
+  useEffect(() => {
+    onAnnotationChangeRef.current = onAnnotationChange
+  }, [onAnnotationChange])
+
+  // Load a file into Wavesurfer and the engine; `restore` skips analysis and applies saved slices/sections
+  const loadFile = useCallback(
+    async (file: File, restore?: WaveformRestoreRequest) => {
       // Wait for Wavesurfer to be initialized - but allow file selection even if not fully ready
       // We'll queue the file and load it once Wavesurfer is ready
       if (!wavesurferRef.current) {
@@ -360,11 +564,7 @@ export default function WaveformWavesurfer({
         const checkInterval = setInterval(() => {
           if (wavesurferRef.current) {
             clearInterval(checkInterval)
-            // Create a synthetic event to trigger loading
-            const syntheticEvent = {
-              target: { files: [fileToLoad] },
-            } as React.ChangeEvent<HTMLInputElement>
-            handleFileChange(syntheticEvent)
+            loadFile(fileToLoad, restore)
           }
         }, 100)
         // Timeout after 10 seconds
@@ -374,6 +574,12 @@ export default function WaveformWavesurfer({
 
       setFileName(file.name)
       setIsLoading(true)
+      setBeatMarkers(null)
+      setFileKey(null)
+      setChords([])
+      if (!restore) {
+        onFileLoad?.(file)
+      }
 
       try {
         // Create blob URL for Wavesurfer first
@@ -455,8 +661,24 @@ export default function WaveformWavesurfer({
         // Load audio file for analysis
         const buffer = await audioEngine.loadAudioFile(file)
         setAudioBuffer(buffer)
+        setPhraseError(null)
+
+        if (restore) {
+          audioEngine.setSections(restore.sections)
+          audioEngine.setSlices(restore.slices)
+          setSections(restore.sections)
+          setSlices(restore.slices)
+          onAudioLoad(buffer, restore.slices, restore.sections)
+          updateRegions(restore.sections, restore.slices, buffer)
+          setIsLoading(false)
+          setTimeout(() => {
+            URL.revokeObjectURL(url)
+          }, 5000)
+          return
+        }
 
         // Show loading state for analysis
+        const run = ++analysisRunRef.current
         setIsLoading(true)
         setAnalysisProgress(0)
         console.log("Starting audio analysis...")
@@ -472,28 +694,47 @@ export default function WaveformWavesurfer({
             setSections(detectedSections)
             const allSlices = detectedSections.flatMap((section) => section.slices)
             setSlices(allSlices)
-            onAudioLoad(buffer, allSlices, detectedSections)
+            onAudioLoad(buffer, allSlices, detectedSections, undefined, true)
             // Update regions with the buffer
             updateRegions(detectedSections, allSlices, buffer)
             console.log("Section detection complete")
+          } else if (sliceBy === "beat") {
+            console.log("Detecting beats...")
+            const detectedSlices = await audioEngine.detectBeatSlices(beatDivision, 64, progressHandler)
+            setBeatMarkers(audioEngine.getBeats())
+            setSlices(detectedSlices)
+            setSections([])
+            onAudioLoad(buffer, detectedSlices, [], undefined, true)
+            updateRegions([], detectedSlices, buffer)
+            console.log("Beat detection complete")
           } else {
             console.log("Detecting transients...")
-            const detectedSlices = await audioEngine.detectTransients(sensitivity, 0.05, 16, progressHandler)
+            const detectedSlices = await audioEngine.detectTransients(
+              sensitivity,
+              0.05,
+              16,
+              progressHandler,
+              onsetOptions
+            )
             setSlices(detectedSlices)
             setSections([])
-            onAudioLoad(buffer, detectedSlices, [])
+            onAudioLoad(buffer, detectedSlices, [], undefined, true)
             updateRegions([], detectedSlices, buffer)
             console.log("Transient detection complete")
           }
         } catch (analysisError: any) {
-          console.error("Error during audio analysis:", analysisError)
-          setSlices([])
-          setSections([])
-          onAudioLoad(buffer, [], [])
-          updateRegions([], [], buffer)
+          if (!(analysisError instanceof AnalysisCancelledError)) {
+            console.error("Error during audio analysis:", analysisError)
+            setSlices([])
+            setSections([])
+            onAudioLoad(buffer, [], [])
+            updateRegions([], [], buffer)
+          }
         } finally {
-          setIsLoading(false)
-          setAnalysisProgress(null)
+          if (run === analysisRunRef.current) {
+            setIsLoading(false)
+            setAnalysisProgress(null)
+          }
           console.log("Audio analysis finished")
         }
 
@@ -506,9 +747,43 @@ export default function WaveformWavesurfer({
         setIsLoading(false)
       }
     },
-    [sliceBy, maxSections, sensitivity, onAudioLoad, updateRegions, wavesurferLoaded]
+    [sliceBy, maxSections, sensitivity, onsetOptions, beatDivision, onAudioLoad, onFileLoad, updateRegions, wavesurferLoaded]
+  )
+
+  // Handle file loading
+  const handleFileChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      if (!file) return
+      loadFile(file)
+    },
+    [loadFile]
   )
 
+  // Load a restored project's audio once per request
+  useEffect(() => {
+    if (!restoreRequest || handledRestoreRef.current === restoreRequest) return
+    handledRestoreRef.current = restoreRequest
+    loadFile(restoreRequest.file, restoreRequest)
+  }, [restoreRequest, loadFile])
+
+  // Apply slices/sections the parent replaced (undo/redo); our own detections come back unchanged
+  useEffect(() => {
+    if (controlledSlices === syncedSlicesRef.current && controlledSections === syncedSectionsRef.current) return
+    syncedSlicesRef.current = controlledSlices
+    syncedSectionsRef.current = controlledSections
+
+    if (controlledSections && controlledSections !== sections) {
+      audioEngine.setSections(controlledSections)
+      setSections(controlledSections)
+    }
+    if (controlledSlices && controlledSlices !== slices) {
+      audioEngine.setSlices(controlledSlices)
+      setSlices(controlledSlices)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [controlledSlices, controlledSections])
+
   // Update regions when sections change (after initial load)
   useEffect(() => {
     if (audioBuffer && isReady) {
@@ -516,6 +791,88 @@ export default function WaveformWavesurfer({
     }
   }, [sections, slices, audioBuffer, isReady, updateRegions])
 
+  // Spectrogram for the loaded file, computed when the view is first shown
+  useEffect(() => {
+    setSpectrogram(null)
+    setSpectrogramFailed(false)
+    if (!showSpectrogram || !audioBuffer) return
+
+    let stale = false
+    audioEngine
+      .computeSpectrogram()
+      .then((result) => {
+        if (stale) return
+        // The engine returns no spectrogram when the analysis failed
+        setSpectrogram(result)
+        setSpectrogramFailed(!result)
+      })
+      .catch((error) => {
+        if (error instanceof AnalysisCancelledError) return
+        console.error("Error computing spectrogram:", error)
+        if (!stale) setSpectrogramFailed(true)
+      })
+    return () => {
+      stale = true
+    }
+  }, [showSpectrogram, audioBuffer])
+
+  // Onset function lane, recomputed when the detector or its framing changes
+  const { method, frameSize, hopSize, preEmphasis } = onsetOptions
+  useEffect(() => {
+    setOnsetFunction(null)
+    if (!showSpectrogram || !audioBuffer) return
+
+    let stale = false
+    audioEngine
+      .computeOnsetFunction({ method, frameSize, hopSize, preEmphasis })
+      .then((result) => {
+        if (!stale) setOnsetFunction(result)
+      })
+      .catch((error) => {
+        if (!(error instanceof AnalysisCancelledError)) console.error("Error computing onset function:", error)
+      })
+    return () => {
+      stale = true
+    }
+  }, [showSpectrogram, audioBuffer, method, frameSize, hopSize, preEmphasis])
+
+  // Follow the waveform's visible window, so the spectrogram lanes line up with the regions when zoomed
+  useEffect(() => {
+    const wavesurfer = wavesurferRef.current
+    if (!showSpectrogram || !wavesurfer || !audioBuffer) return
+
+    const updateRange = () => {
+      const { duration } = audioBuffer
+      const totalWidth = wavesurfer.getWrapper().scrollWidth
+      if (totalWidth <= 0 || duration <= 0) return
+      const scroll = wavesurfer.getScroll()
+      setVisibleRange({
+        start: (scroll / totalWidth) * duration,
+        end: Math.min(duration, ((scroll + wavesurfer.getWidth()) / totalWidth) * duration),
+      })
+    }
+    updateRange()
+    const unsubscribers = [wavesurfer.on("scroll", updateRange), wavesurfer.on("redrawcomplete", updateRange)]
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [showSpectrogram, audioBuffer])
+
+  // Keep the spectrogram playhead on the playback position, within the visible window
+  useEffect(() => {
+    const wavesurfer = wavesurferRef.current
+    if (!showSpectrogram || !wavesurfer || !audioBuffer) return
+
+    const { start, end } = visibleRange ?? { start: 0, end: audioBuffer.duration }
+    const movePlayhead = (time: number) => {
+      if (playheadRef.current && end > start) {
+        const position = (time - start) / (end - start)
+        playheadRef.current.style.left = `${position * 100}%`
+        playheadRef.current.style.display = position < 0 || position > 1 ? "none" : ""
+      }
+    }
+    movePlayhead(wavesurfer.getCurrentTime())
+    return wavesurfer.on("timeupdate", movePlayhead)
+  }, [showSpectrogram, audioBuffer, visibleRange])
+
   // Handle zoom
   const handleZoomIn = () => {
     if (!wavesurferRef.current) return
@@ -548,6 +905,7 @@ export default function WaveformWavesurfer({
   const detectSections = useCallback(async () => {
     if (!audioBuffer) return
 
+    const run = ++analysisRunRef.current
     setIsLoading(true)
     setAnalysisProgress(0)
     try {
@@ -557,36 +915,286 @@ export default function WaveformWavesurfer({
       setSections(detectedSections)
       const allSlices = detectedSections.flatMap((section) => section.slices)
       setSlices(allSlices)
-      onAudioLoad(audioBuffer, allSlices, detectedSections)
+      onAudioLoad(audioBuffer, allSlices, detectedSections, "Detect sections", true)
       updateRegions(detectedSections, allSlices)
     } catch (error) {
-      console.error("Error detecting sections:", error)
+      if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting sections:", error)
     } finally {
-      setIsLoading(false)
-      setAnalysisProgress(null)
+      if (run === analysisRunRef.current) {
+        setIsLoading(false)
+        setAnalysisProgress(null)
+      }
     }
   }, [audioBuffer, maxSections, onAudioLoad, updateRegions])
 
   const detectTransients = useCallback(async () => {
     if (!audioBuffer) return
 
+    const run = ++analysisRunRef.current
     setIsLoading(true)
     setAnalysisProgress(0)
     try {
-      const detectedSlices = await audioEngine.detectTransients(sensitivity, 0.05, 16, (progress) =>
-        setAnalysisProgress(Math.round(progress * 100))
+      const detectedSlices = await audioEngine.detectTransients(
+        sensitivity,
+        0.05,
+        16,
+        (progress) => setAnalysisProgress(Math.round(progress * 100)),
+        onsetOptions
       )
       setSlices(detectedSlices)
       setSections([])
-      onAudioLoad(audioBuffer, detectedSlices, [])
+      onAudioLoad(audioBuffer, detectedSlices, [], "Detect transients", true)
       updateRegions([], detectedSlices)
     } catch (error) {
-      console.error("Error detecting transients:", error)
+      if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting transients:", error)
     } finally {
-      setIsLoading(false)
-      setAnalysisProgress(null)
+      if (run === analysisRunRef.current) {
+        setIsLoading(false)
+        setAnalysisProgress(null)
+      }
+    }
+  }, [audioBuffer, sensitivity, onsetOptions, onAudioLoad, updateRegions])
+
+  const detectBeats = useCallback(async () => {
+    if (!audioBuffer) return
+
+    const run = ++analysisRunRef.current
+    setIsLoading(true)
+    setAnalysisProgress(0)
+    try {
+      const detectedSlices = await audioEngine.detectBeatSlices(beatDivision, 64, (progress) =>
+        setAnalysisProgress(Math.round(progress * 100))
+      )
+      setBeatMarkers(audioEngine.getBeats())
+      setSlices(detectedSlices)
+      setSections([])
+      onAudioLoad(audioBuffer, detectedSlices, [], "Detect beats", true)
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting beats:", error)
+    } finally {
+      if (run === analysisRunRef.current) {
+        setIsLoading(false)
+        setAnalysisProgress(null)
+      }
+    }
+  }, [audioBuffer, beatDivision, onAudioLoad])
+
+  // Tag the file, sections and slices with their keys and build the chord track
+  const detectKeys = useCallback(async () => {
+    if (!audioBuffer) return
+
+    const run = ++analysisRunRef.current
+    setIsLoading(true)
+    setAnalysisProgress(0)
+    try {
+      const analysis = await audioEngine.detectKeys((progress) => setAnalysisProgress(Math.round(progress * 100)))
+      setFileKey(analysis.key)
+      setChords(analysis.chords)
+      setSlices(analysis.slices)
+      setSections(analysis.sections)
+      onAudioLoad(audioBuffer, analysis.slices, analysis.sections, "Detect keys")
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting keys:", error)
+    } finally {
+      if (run === analysisRunRef.current) {
+        setIsLoading(false)
+        setAnalysisProgress(null)
+      }
+    }
+  }, [audioBuffer, onAudioLoad])
+
+  // Find sung phrases and hand them to the parent as annotations
+  const detectPhrases = useCallback(async () => {
+    if (!audioBuffer) return
+
+    const run = ++analysisRunRef.current
+    setIsLoading(true)
+    setAnalysisProgress(0)
+    setPhraseError(null)
+    try {
+      const phrases = await audioEngine.detectVocalPhrases((progress) =>
+        setAnalysisProgress(Math.round(progress * 100))
+      )
+      onAnnotationsDetect?.(phrases)
+    } catch (error) {
+      // The annotations are left as they were
+      if (!(error instanceof AnalysisCancelledError)) {
+        console.error("Error detecting phrases:", error)
+        setPhraseError("Phrase detection failed; the annotations were not changed.")
+      }
+    } finally {
+      if (run === analysisRunRef.current) {
+        setIsLoading(false)
+        setAnalysisProgress(null)
+      }
+    }
+  }, [audioBuffer, onAnnotationsDetect])
+
+  // Apply an edited slice list everywhere: sections, the engine, the parent (for history and pads) and the regions
+  const applySliceEdit = useCallback(
+    (nextSlices: AudioSlice[], description: string) => {
+      if (!audioBuffer) return
+      if (nextSlices === slices) {
+        // Nothing changed, e.g. a drag clamped back into place; put the regions back where they were
+        updateRegions(sections, slices)
+        return
+      }
+
+      const nextSections = assignSlicesToSections(sections, nextSlices)
+      audioEngine.setSlices(nextSlices)
+      audioEngine.setSections(nextSections)
+      setSlices(nextSlices)
+      setSections(nextSections)
+      onAudioLoad(audioBuffer, nextSlices, nextSections, description)
+    },
+    [audioBuffer, slices, sections, onAudioLoad, updateRegions]
+  )
+
+  useEffect(() => {
+    audioEngine.setSliceFades(sliceFades)
+  }, [sliceFades])
+
+  useEffect(() => {
+    audioEngine.setZeroCrossingSnap(zeroCrossingSnap)
+  }, [zeroCrossingSnap])
+
+  const selectedSlice = slices.find((slice) => slice.id === selectedSliceId) ?? null
+
+  useEffect(() => {
+    setSliceName(selectedSlice?.name ?? "")
+  }, [selectedSlice?.name])
+
+  // Onsets to snap to, with the current transient settings
+  useEffect(() => {
+    setSnapOnsets(null)
+    if (snapMode !== "onset" || !audioBuffer) return
+
+    let stale = false
+    audioEngine
+      .detectOnsetPositions(sensitivity, 0.05, onsetOptions)
+      .then((onsets) => {
+        if (!stale) setSnapOnsets(onsets)
+      })
+      .catch((error) => {
+        if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting onsets:", error)
+      })
+    return () => {
+      stale = true
+    }
+  }, [snapMode, audioBuffer, sensitivity, onsetOptions])
+
+  // Beats to snap to, tracked on first use and shown as the beat grid
+  useEffect(() => {
+    if (snapMode !== "beat" || !audioBuffer || beatMarkers) return
+
+    let stale = false
+    audioEngine
+      .detectBeats()
+      .then((beats) => {
+        if (!stale) setBeatMarkers(beats)
+      })
+      .catch((error) => {
+        if (!(error instanceof AnalysisCancelledError)) console.error("Error detecting beats:", error)
+      })
+    return () => {
+      stale = true
+    }
+  }, [snapMode, audioBuffer, beatMarkers])
+
+  // Snap a time (seconds) to a sample position with the current snap mode
+  const snapTime = useCallback(
+    (time: number) => {
+      if (!audioBuffer) return 0
+      const { sampleRate } = audioBuffer
+      const toSamples = (times?: number[] | null) => times?.map((t) => Math.round(t * sampleRate))
+      return snapSample(
+        time * sampleRate,
+        snapMode,
+        {
+          samples: snapMode === "zero-crossing" ? audioEngine.getMonoData() : undefined,
+          onsets: toSamples(snapOnsets),
+          beats: toSamples(beatMarkers?.beats),
+        },
+        sampleRate
+      )
+    },
+    [audioBuffer, snapMode, snapOnsets, beatMarkers]
+  )
+
+  // A dragged slice edge moves the slice (and the neighbour sharing it); a dragged section moves its bounds
+  useEffect(() => {
+    regionUpdateRef.current = (region: Region) => {
+      if (!audioBuffer) return
+      const { sampleRate, length } = audioBuffer
+      // Only an edge that moved is snapped
+      const snapEdge = (time: number, current: number) =>
+        Math.abs(Math.round(time * sampleRate) - current) > 1 ? snapTime(time) : current
+
+      if (region.id.startsWith(SLICE_REGION_PREFIX)) {
+        const id = parseInt(region.id.slice(SLICE_REGION_PREFIX.length))
+        const slice = slices.find((s) => s.id === id)
+        if (!slice) return
+        applySliceEdit(
+          moveSliceBoundaries(
+            slices,
+            id,
+            snapEdge(region.start, slice.startSample),
+            snapEdge(region.end, slice.endSample),
+            { minLength: Math.round(MIN_SLICE_DURATION * sampleRate), length }
+          ),
+          "Move slice"
+        )
+        return
+      }
+
+      const section = /^\d+$/.test(region.id) ? sections.find((s) => s.id === parseInt(region.id)) : undefined
+      if (!section) return
+      const startSample = Math.max(0, snapEdge(region.start, section.startSample))
+      const endSample = Math.min(length, snapEdge(region.end, section.endSample))
+      if (endSample <= startSample) {
+        updateRegions(sections, slices)
+        return
+      }
+      // The key described the old range
+      const moved = { ...section, startSample, endSample }
+      delete moved.key
+      const nextSections = sections.map((s) => (s.id === section.id ? moved : s))
+      audioEngine.setSections(nextSections)
+      setSections(nextSections)
+      onAudioLoad(audioBuffer, slices, nextSections, "Move section")
     }
-  }, [audioBuffer, sensitivity, onAudioLoad, updateRegions])
+  }, [audioBuffer, slices, sections, snapTime, applySliceEdit, onAudioLoad, updateRegions])
+
+  // Split the slice under the playback cursor there; with no slices yet, split the whole file
+  const splitAtCursor = () => {
+    if (!audioBuffer || !wavesurferRef.current) return
+    const position = snapTime(wavesurferRef.current.getCurrentTime())
+    const base: AudioSlice[] =
+      slices.length > 0 ? slices : [{ id: 0, startSample: 0, endSample: audioBuffer.length, name: "Slice 1" }]
+    const next = splitSlice(base, position, Math.round(MIN_SLICE_DURATION * audioBuffer.sampleRate))
+    if (next !== base) applySliceEdit(next, "Split slice")
+  }
+
+  const mergeSelectedSlice = () => {
+    if (selectedSliceId === null) return
+    applySliceEdit(mergeWithNext(slices, selectedSliceId), "Merge slices")
+  }
+
+  const deleteSelectedSlice = () => {
+    if (selectedSliceId === null) return
+    applySliceEdit(deleteSlice(slices, selectedSliceId), "Delete slice")
+    setSelectedSliceId(null)
+    onCurrentSliceChange?.(null)
+  }
+
+  const commitSliceName = () => {
+    const name = sliceName.trim()
+    if (!selectedSlice || !name || name === selectedSlice.name) {
+      setSliceName(selectedSlice?.name ?? "")
+      return
+    }
+    applySliceEdit(renameSlice(slices, selectedSlice.id, name), "Rename slice")
+  }
 
   return (
     <div className="border border-zinc-800 rounded-md bg-zinc-900/80 overflow-hidden">
@@ -600,6 +1208,11 @@ export default function WaveformWavesurfer({
               <span className="text-xs text-zinc-500">
                 {wavesurferRef.current?.getDuration()?.toFixed(1) || "0.0"}s
               </span>
+              {fileKey && (
+                <span className="px-1.5 py-0.5 rounded text-[10px] font-semibold bg-purple-500/20 text-purple-300">
+                  {fileKey}
+                </span>
+              )}
             </>
           ) : (
             <span className="text-sm font-medium text-zinc-500">No sample loaded</span>
@@ -619,6 +1232,19 @@ export default function WaveformWavesurfer({
             <Repeat className="h-3 w-3 mr-1" />
             Loop
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "h-7 px-2 text-xs hover:text-zinc-100 hover:bg-zinc-800",
+              showSpectrogram ? "text-yellow-400" : "text-zinc-400",
+            )}
+            onClick={() => setShowSpectrogram((show) => !show)}
+            title="Show the spectrogram with onset function, RMS and beat lanes"
+          >
+            <AudioLines className="h-3 w-3 mr-1" />
+            Spectrogram
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -701,6 +1327,43 @@ export default function WaveformWavesurfer({
         )}
       </div>
 
+      {/* Chord track, laid out over the whole file */}
+      {audioBuffer && chords.length > 0 && (
+        <div className="relative h-6 border-t border-zinc-800 bg-zinc-950 overflow-hidden" aria-label="Chord progression">
+          {chords.map((chord, index) => (
+            <div
+              key={`${chord.startTime}-${index}`}
+              className="absolute inset-y-0 flex items-center border-l border-zinc-800 px-1 text-[10px] font-medium text-purple-300 truncate"
+              style={{
+                left: `${(chord.startTime / audioBuffer.duration) * 100}%`,
+                width: `${((chord.endTime - chord.startTime) / audioBuffer.duration) * 100}%`,
+              }}
+              title={`${chord.chord} (${chord.startTime.toFixed(1)}-${chord.endTime.toFixed(1)}s)`}
+            >
+              {chord.chord}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Spectrogram with analysis lanes, over the same time window as the waveform */}
+      {audioBuffer && showSpectrogram && (
+        <SpectrogramView
+          duration={audioBuffer.duration}
+          sampleRate={audioBuffer.sampleRate}
+          visibleRange={visibleRange}
+          spectrogram={spectrogram}
+          spectrogramFailed={spectrogramFailed}
+          onsetFunction={onsetFunction}
+          sensitivity={toOnsetSensitivity(sensitivity)}
+          adaptiveThreshold={onsetOptions.adaptiveThreshold}
+          slices={slices}
+          beats={beatMarkers}
+          playheadRef={playheadRef}
+          onSeek={(fraction) => wavesurferRef.current?.seekTo(fraction)}
+        />
+      )}
+
       {/* Transport Controls */}
       <TransportControls
         isPlaying={isPlaying}
@@ -710,8 +1373,16 @@ export default function WaveformWavesurfer({
         onSkipBack={onSkipBack || (() => {})}
         bpm={bpm}
         onBpmChange={onBpmChange || (() => {})}
+        pitch={pitch}
+        onPitchChange={onPitchChange}
         isLooping={isLooping}
         onToggleLoop={onToggleLoop}
+        onSaveProject={onSaveProject}
+        onOpenProject={onOpenProject}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        undoDescription={undoDescription}
+        redoDescription={redoDescription}
       />
 
       {/* Controls */}
@@ -725,6 +1396,7 @@ export default function WaveformWavesurfer({
             <SelectContent className="bg-zinc-800 border-zinc-700">
               <SelectItem value="section">Sections</SelectItem>
               <SelectItem value="transient">Transient</SelectItem>
+              <SelectItem value="beat">Beat Grid</SelectItem>
               <SelectItem value="manual">Manual</SelectItem>
             </SelectContent>
           </Select>
@@ -746,6 +1418,44 @@ export default function WaveformWavesurfer({
           </div>
         </div>
 
+        <div className="space-y-1">
+          <label className="block text-xs text-zinc-400">Detector</label>
+          <Select
+            value={onsetOptions.method}
+            onValueChange={(v) => setOnsetOptions((options) => ({ ...options, method: v as OnsetMethod }))}
+            disabled={sliceBy !== "transient"}
+          >
+            <SelectTrigger className="h-8 text-xs bg-zinc-800 border-zinc-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-zinc-800 border-zinc-700">
+              {(Object.keys(ONSET_METHOD_LABELS) as OnsetMethod[]).map((method) => (
+                <SelectItem key={method} value={method}>
+                  {ONSET_METHOD_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="block text-xs text-zinc-400">Grid</label>
+          <Select
+            value={beatDivision}
+            onValueChange={(v) => setBeatDivision(v as BeatDivision)}
+            disabled={sliceBy !== "beat"}
+          >
+            <SelectTrigger className="h-8 text-xs bg-zinc-800 border-zinc-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-zinc-800 border-zinc-700">
+              <SelectItem value="1/4">1/4</SelectItem>
+              <SelectItem value="1/8">1/8</SelectItem>
+              <SelectItem value="1bar">1 Bar</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-1">
           <label className="block text-xs text-zinc-400">Actions</label>
           <div className="flex items-center gap-1">
@@ -773,9 +1483,233 @@ export default function WaveformWavesurfer({
                 Detect
               </Button>
             )}
+            {sliceBy === "beat" && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+                onClick={detectBeats}
+                disabled={!audioBuffer || isLoading}
+              >
+                <Wand2 className="h-3 w-3 mr-1" />
+                Detect
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+              onClick={detectKeys}
+              disabled={!audioBuffer || isLoading}
+              title="Detect the key of the file, sections and slices"
+            >
+              <Music2 className="h-3 w-3 mr-1" />
+              Key
+            </Button>
+            {onAnnotationsDetect && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+                onClick={detectPhrases}
+                disabled={!audioBuffer || isLoading}
+                title="Detect sung phrases and add them as annotations"
+              >
+                <Mic className="h-3 w-3 mr-1" />
+                Phrases
+              </Button>
+            )}
           </div>
+          {phraseError && <p className="text-xs text-red-400">{phraseError}</p>}
         </div>
       </div>
+
+      {/* Onset detection framing and peak picking, used when slicing by transient */}
+      {sliceBy === "transient" && (
+        <div className="flex flex-wrap items-center gap-4 px-3 pb-3 bg-zinc-900/90 text-xs text-zinc-400">
+          <div className="flex items-center gap-2">
+            <span>Frame</span>
+            <Select
+              value={String(onsetOptions.frameSize)}
+              onValueChange={(v) =>
+                setOnsetOptions((options) => {
+                  const frameSize = Number(v)
+                  return { ...options, frameSize, hopSize: Math.min(options.hopSize, frameSize / 2) }
+                })
+              }
+            >
+              <SelectTrigger className="h-7 w-20 text-xs bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {ONSET_FRAME_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span>Hop</span>
+            <Select
+              value={String(onsetOptions.hopSize)}
+              onValueChange={(v) => setOnsetOptions((options) => ({ ...options, hopSize: Number(v) }))}
+            >
+              <SelectTrigger className="h-7 w-20 text-xs bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {ONSET_HOP_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)} disabled={size > onsetOptions.frameSize / 2}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2" title="Boost high frequencies before analysis so attacks stand out">
+            <Switch
+              checked={onsetOptions.preEmphasis > 0}
+              onCheckedChange={(checked) =>
+                setOnsetOptions((options) => ({ ...options, preEmphasis: checked ? PRE_EMPHASIS : 0 }))
+              }
+              className="data-[state=checked]:bg-yellow-500"
+            />
+            Pre-emphasis
+          </label>
+          <label className="flex items-center gap-2" title="Threshold follows the local level, so quiet passages still slice">
+            <Switch
+              checked={onsetOptions.adaptiveThreshold}
+              onCheckedChange={(checked) => setOnsetOptions((options) => ({ ...options, adaptiveThreshold: checked }))}
+              className="data-[state=checked]:bg-yellow-500"
+            />
+            Adaptive threshold
+          </label>
+          <label className="flex items-center gap-2" title="Move each slice start back to the quiet point before the hit">
+            <Switch
+              checked={onsetOptions.backtrack}
+              onCheckedChange={(checked) => setOnsetOptions((options) => ({ ...options, backtrack: checked }))}
+              className="data-[state=checked]:bg-yellow-500"
+            />
+            Backtrack
+          </label>
+        </div>
+      )}
+
+      {/* Slice editing: drag slice edges on the waveform, or edit the selected slice here */}
+      {audioBuffer && (
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-t border-zinc-800 bg-zinc-900/90 text-xs text-zinc-400">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+            onClick={splitAtCursor}
+            disabled={isLoading}
+            title="Split the slice under the cursor"
+          >
+            <Scissors className="h-3 w-3 mr-1" />
+            Split
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+            onClick={mergeSelectedSlice}
+            disabled={isLoading || !selectedSlice}
+            title="Merge the selected slice with the next one"
+          >
+            <Merge className="h-3 w-3 mr-1" />
+            Merge
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs border-zinc-700 bg-zinc-800 hover:bg-zinc-700"
+            onClick={deleteSelectedSlice}
+            disabled={isLoading || !selectedSlice}
+            title="Delete the selected slice"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Delete
+          </Button>
+          <Input
+            value={sliceName}
+            onChange={(e) => setSliceName(e.target.value)}
+            onBlur={commitSliceName}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur()
+              if (e.key === "Escape") {
+                setSliceName(selectedSlice?.name ?? "")
+                e.currentTarget.blur()
+              }
+            }}
+            placeholder={selectedSlice ? "Slice name" : "Click a slice to select it"}
+            disabled={!selectedSlice}
+            className="h-6 w-44 text-xs bg-zinc-800 border-zinc-700"
+          />
+          <label
+            className="flex items-center gap-2 ml-auto"
+            title="Move detected slice boundaries to the nearest zero crossing"
+          >
+            <Switch
+              checked={zeroCrossingSnap}
+              onCheckedChange={setZeroCrossingSnap}
+              className="data-[state=checked]:bg-yellow-500"
+            />
+            Zero-crossing detect
+          </label>
+          <div className="flex items-center gap-2" title="Fades applied to slice playback, including loop wraps">
+            <span>Attack</span>
+            <Select
+              value={String(sliceFades.attack)}
+              onValueChange={(v) => setSliceFades((fades) => ({ ...fades, attack: Number(v) }))}
+            >
+              <SelectTrigger className="h-7 w-20 text-xs bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {SLICE_ATTACK_TIMES.map((time) => (
+                  <SelectItem key={time} value={String(time)}>
+                    {time} ms
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>Release</span>
+            <Select
+              value={String(sliceFades.release)}
+              onValueChange={(v) => setSliceFades((fades) => ({ ...fades, release: Number(v) }))}
+            >
+              <SelectTrigger className="h-7 w-20 text-xs bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {SLICE_RELEASE_TIMES.map((time) => (
+                  <SelectItem key={time} value={String(time)}>
+                    {time} ms
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <span>Snap</span>
+            <Select value={snapMode} onValueChange={(v) => setSnapMode(v as SnapMode)}>
+              <SelectTrigger className="h-7 w-32 text-xs bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {(Object.keys(SNAP_MODE_LABELS) as SnapMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {SNAP_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,122 @@
+/**
+ * Analysis Cache - Analysis results kept in IndexedDB so reloading a known file skips the worker
+ *
+ * Entries are keyed by the audio content hash, the command, its parameters and the algorithm
+ * version, so a change to any of them is a cache miss rather than a stale result.
+ */
+
+interface CacheRecord {
+  key: string
+  result: unknown
+  createdAt: number
+}
+
+const DB_NAME = "samplerista-analysis"
+const DB_VERSION = 1
+const RESULTS_STORE = "results"
+const CREATED_AT_INDEX = "createdAt"
+
+// Oldest entries are dropped beyond this many results
+const MAX_ENTRIES = 500
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Hex SHA-256 of the samples
+export async function hashSamples(samples: Float32Array): Promise<string> {
+  const bytes = new Uint8Array(samples.buffer as ArrayBuffer, samples.byteOffset, samples.byteLength)
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Stable cache key; parameters are sorted so their order does not matter
+export function createCacheKey(hash: string, command: string, version: number, params: Record<string, unknown>): string {
+  const sorted = Object.keys(params)
+    .sort()
+    .map((name) => [name, params[name]])
+  return `${hash}:${command}:v${version}:${JSON.stringify(sorted)}`
+}
+
+class AnalysisCache {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  // Whether IndexedDB and WebCrypto exist in this environment
+  isAvailable(): boolean {
+    return typeof indexedDB !== "undefined" && typeof crypto !== "undefined" && !!crypto.subtle
+  }
+
+  // Cached result for a key, if any
+  async get<T>(key: string): Promise<T | undefined> {
+    const db = await this.open()
+    const store = db.transaction(RESULTS_STORE, "readonly").objectStore(RESULTS_STORE)
+    const record = await promisify(store.get(key) as IDBRequest<CacheRecord | undefined>)
+    return record?.result as T | undefined
+  }
+
+  // Store a result, dropping the oldest entries once the cache is full
+  async set(key: string, result: unknown): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(RESULTS_STORE, "readwrite")
+    const store = transaction.objectStore(RESULTS_STORE)
+    store.put({ key, result, createdAt: Date.now() } satisfies CacheRecord)
+
+    const count = await promisify(store.count())
+    if (count > MAX_ENTRIES) {
+      let excess = count - MAX_ENTRIES
+      const cursorRequest = store.index(CREATED_AT_INDEX).openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || excess <= 0) return
+        cursor.delete()
+        excess--
+        cursor.continue()
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"))
+    })
+  }
+
+  // Remove every cached result
+  async clear(): Promise<void> {
+    const db = await this.open()
+    const store = db.transaction(RESULTS_STORE, "readwrite").objectStore(RESULTS_STORE)
+    await promisify(store.clear())
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise
+    if (!this.isAvailable()) return Promise.reject(new Error("IndexedDB is not available"))
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          const store = db.createObjectStore(RESULTS_STORE, { keyPath: "key" })
+          store.createIndex(CREATED_AT_INDEX, "createdAt")
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error("Analysis cache is open in another tab with an older version"))
+    })
+
+    // Let a later call retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null
+    })
+
+    return this.dbPromise
+  }
+}
+
+export const analysisCache = new AnalysisCache()
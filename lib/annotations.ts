@@ -0,0 +1,15 @@
+/**
+ * Annotations - Timed text (words, phrases, lyrics) attached to the loaded audio
+ */
+
+export interface Annotation {
+  id: string
+  startTime: number // seconds
+  endTime: number // seconds
+  text: string
+}
+
+// Sequential annotation id, e.g. "w000003"
+export function createAnnotationId(index: number): string {
+  return `w${String(index + 1).padStart(6, "0")}`
+}
@@ -1,9 +1,11 @@
 /**
  * Audio Analysis Service using Essentia.js
  * Provides professional-grade audio analysis including onset detection,
- * BPM detection, and song structure analysis.
+ * BPM and beat tracking, key and chord detection, drum-hit classification, and song structure analysis.
  */
 
+import { fft, magnitudeSpectrum } from './dsp'
+
 // Dynamic imports for Essentia.js to avoid SSR issues
 let EssentiaWASM: any = null
 let Essentia: any = null
@@ -19,13 +21,71 @@ export interface BPMResult {
   confidence?: number
 }
 
+export interface BeatResult {
+  bpm: number
+  confidence?: number
+  beats: number[] // in seconds
+  downbeats: number[] // in seconds, the first beat of each bar
+  beatsPerBar: number
+}
+
+export interface KeyResult {
+  key: string // tonic, e.g. "A" or "Eb"
+  scale: 'major' | 'minor'
+  strength: number // 0-1
+}
+
+export interface KeyDetectionResult {
+  key: KeyResult | null // whole file
+  ranges: (KeyResult | null)[] // one per requested range; null when the range is too short to call
+}
+
+export interface ChordSegment {
+  startTime: number
+  endTime: number
+  chord: string // e.g. "Am", "F#"
+  strength: number // 0-1 template match
+}
+
+export interface ChordResult {
+  chords: ChordSegment[]
+}
+
+export interface SampleRange {
+  startSample: number
+  endSample: number
+}
+
+export type DrumClass = 'kick' | 'snare' | 'hat' | 'clap' | 'tom' | 'other'
+
+export interface DrumHitFeatures {
+  centroid: number // Hz
+  flatness: number // 0-1, 1 = noise-like
+  zeroCrossingRate: number // crossings per sample
+  lowRatio: number // energy share below 150 Hz
+  midRatio: number // energy share 150 Hz - 1 kHz
+  highRatio: number // energy share above 5 kHz
+  decay: number // seconds for the envelope to fall 20 dB below its peak
+}
+
+export interface DrumHit {
+  label: DrumClass
+  confidence: number // 0-1
+  features: DrumHitFeatures
+}
+
+export interface DrumClassificationResult {
+  hits: DrumHit[] // one per requested range
+}
+
 export interface SectionBoundary {
   startSample: number
   endSample: number
   startTime: number
   endTime: number
   label: string
-  confidence?: number
+  group?: string // repetition group ('A', 'B', ...) shared by sections that sound alike
+  confidence?: number // 0-1, how clearly the section belongs to its group (or stands alone)
 }
 
 export interface SongStructureResult {
@@ -33,6 +93,286 @@ export interface SongStructureResult {
   bpm?: number
 }
 
+export interface SpectrogramResult {
+  data: Uint8Array // columns * bands levels, one column after another; 0 = floor, 255 = loudest
+  columns: number
+  bands: number // log-spaced from minFrequency to the Nyquist frequency, lowest first
+  minFrequency: number
+  maxFrequency: number
+}
+
+export interface VocalPhrase {
+  startSample: number
+  endSample: number
+  startTime: number
+  endTime: number
+  confidence: number // 0-1, mean vocal activity over the phrase
+}
+
+export interface VocalPhraseResult {
+  phrases: VocalPhrase[]
+}
+
+export interface VocalPhraseOptions {
+  threshold?: number // 0-1 vocal activity needed for a frame to count as sung
+  minSilence?: number // seconds; shorter gaps do not end a phrase
+  minPhraseDuration?: number // seconds
+  maxPhraseDuration?: number // seconds; longer phrases are split at their quietest point
+}
+
+export const DEFAULT_VOCAL_PHRASE_OPTIONS: Required<VocalPhraseOptions> = {
+  threshold: 0.5,
+  minSilence: 0.25,
+  minPhraseDuration: 0.4,
+  maxPhraseDuration: 8,
+}
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B']
+
+// Krumhansl-Kessler key profiles, used when KeyExtractor is unavailable
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88]
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+
+// Ranges shorter than this (seconds) are not given a key
+const MIN_KEY_DURATION = 1
+
+/**
+ * Version of the analysis algorithms. Bump it whenever a change alters any result,
+ * so results cached by earlier versions are no longer used.
+ *
+ * 1: first cached results
+ * 2: onset detection function computed in chunks on the worker pool
+ * 3: selectable onset detection functions, framing, adaptive threshold and backtracking
+ * 4: sections labelled by repetition
+ * 5: HPCP chroma rotated so chords and the fallback key start from C
+ */
+export const ANALYSIS_VERSION = 5
+
+// Vocal activity: frames within this many dB of the noise floor, or below this level, are silence
+const VOCAL_SILENCE_MARGIN = 6
+const VOCAL_SILENCE_LEVEL = -60
+// Spectral flatness at and above which a frame counts as noise rather than voice
+const VOCAL_MAX_FLATNESS = 0.35
+
+// Names for repetition groups A, B and C; later groups are named "Part D", "Part E"...
+const SECTION_GROUP_NAMES = ['Verse', 'Chorus', 'Bridge']
+
+// Sections are merged into one group when their similarity, rescaled between the least and most
+// similar pair of the song, is at least SECTION_GROUP_RELATIVE and the raw similarity at least
+// SECTION_GROUP_MIN_SIMILARITY. Chroma similarity is high for any two passages in the same key,
+// so the raw value alone cannot tell repeats apart.
+const SECTION_GROUP_RELATIVE = 0.8
+const SECTION_GROUP_MIN_SIMILARITY = 0.75
+// With a single pair there is nothing to rescale against, so only this raw similarity counts
+const SECTION_GROUP_PAIR_SIMILARITY = 0.9
+// Seconds a repeat may be offset from its detected section boundary
+const SECTION_ALIGNMENT_TOLERANCE = 2
+// Frames compared along each section diagonal
+const SECTION_SIMILARITY_SAMPLES = 200
+
+export type OnsetMethod = 'flux' | 'superflux' | 'hfc' | 'complex' | 'energy'
+
+/**
+ * Onset detection settings; the defaults are plain spectral flux on 2048/512 frames
+ */
+export interface OnsetDetectionOptions {
+  method?: OnsetMethod // onset detection function
+  frameSize?: number // power of two
+  hopSize?: number
+  preEmphasis?: number // first-order high-pass coefficient, 0 = off (0.97 is typical)
+  adaptiveThreshold?: boolean // moving median threshold instead of one for the whole file
+  backtrack?: boolean // move each onset back to the energy minimum before it
+}
+
+export const DEFAULT_ONSET_OPTIONS: Required<OnsetDetectionOptions> = {
+  method: 'flux',
+  frameSize: 2048,
+  hopSize: 512,
+  preEmphasis: 0,
+  adaptiveThreshold: false,
+  backtrack: false,
+}
+
+// Earlier frames an onset function value depends on (complex domain and superflux look two frames back)
+export const ONSET_CONTEXT_FRAMES = 2
+
+// Half-width of the moving median window for adaptive thresholding, in seconds
+const ADAPTIVE_THRESHOLD_WINDOW = 0.1
+
+export interface OnsetFunctionResult {
+  values: number[] // onset detection function, one value per hop
+  energy: number[] // RMS of each frame, used for backtracking
+  frameSize: number
+  hopSize: number
+}
+
+/**
+ * Median + multiplier * MAD of the values
+ */
+function calculateThreshold(values: number[], multiplier: number = 1.5): number {
+  if (values.length === 0) return 0
+
+  // Calculate median
+  const sorted = [...values].sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]
+
+  // Calculate median absolute deviation
+  const deviations = values.map(v => Math.abs(v - median))
+  const sortedDeviations = deviations.sort((a, b) => a - b)
+  const mad = sortedDeviations[Math.floor(sortedDeviations.length / 2)]
+
+  // Threshold is median + multiplier * MAD
+  return median + multiplier * mad
+}
+
+/**
+ * Detection threshold for each value of an onset function: median + sensitivity * MAD over the
+ * whole function, or over a moving window when adaptive
+ */
+export function getOnsetThresholds(
+  onsetFunction: number[],
+  options: { sampleRate: number; hopSize: number; sensitivity: number; adaptiveThreshold?: boolean }
+): number[] {
+  const { sampleRate, hopSize, sensitivity, adaptiveThreshold = false } = options
+  if (!adaptiveThreshold) {
+    return new Array<number>(onsetFunction.length).fill(calculateThreshold(onsetFunction, sensitivity))
+  }
+
+  const radius = Math.max(1, Math.round((ADAPTIVE_THRESHOLD_WINDOW * sampleRate) / hopSize))
+  // Keeps the moving threshold from dropping to nothing in silence
+  const floor = 0.01 * onsetFunction.reduce((max, value) => Math.max(max, value), 0)
+  return onsetFunction.map((_, i) =>
+    Math.max(floor, calculateThreshold(onsetFunction.slice(Math.max(0, i - radius), i + radius + 1), sensitivity))
+  )
+}
+
+/**
+ * Peak-pick an onset function: local maxima above the threshold, at least minDistance apart.
+ * The threshold is median + sensitivity * MAD, over the whole function or a moving window.
+ */
+export function pickOnsets(
+  onsetFunction: number[],
+  options: {
+    sampleRate: number
+    hopSize: number
+    sensitivity: number
+    minDistance: number // seconds
+    adaptiveThreshold?: boolean
+    backtrack?: boolean
+    energy?: number[] // RMS per frame, required for backtracking
+  }
+): OnsetResult {
+  const { sampleRate, hopSize, sensitivity, minDistance, adaptiveThreshold = false, backtrack = false, energy = [] } = options
+  const frames: number[] = []
+  let lastOnsetFrame = -Infinity
+
+  const thresholds = getOnsetThresholds(onsetFunction, { sampleRate, hopSize, sensitivity, adaptiveThreshold })
+  const minDistanceFrames = Math.floor((minDistance * sampleRate) / hopSize)
+
+  for (let i = 1; i < onsetFunction.length - 1; i++) {
+    if (
+      onsetFunction[i] > thresholds[i] &&
+      onsetFunction[i] > onsetFunction[i - 1] &&
+      onsetFunction[i] > onsetFunction[i + 1]
+    ) {
+      if (i - lastOnsetFrame >= minDistanceFrames) {
+        frames.push(i)
+        lastOnsetFrame = i
+      }
+    }
+  }
+
+  // Walk each onset back while the energy keeps falling, but never past the previous onset
+  const onsetFrames =
+    backtrack && energy.length > 0
+      ? frames.map((frame, index) => {
+          const limit = index > 0 ? frames[index - 1] : 0
+          let j = Math.min(frame, energy.length - 1)
+          while (j > limit && energy[j - 1] <= energy[j]) {
+            j--
+          }
+          return j
+        })
+      : frames
+
+  const onsetTimes = onsetFrames.map((frame) => (frame * hopSize) / sampleRate)
+  return {
+    timestamps: onsetTimes.map((time) => Math.floor(time * sampleRate)),
+    times: onsetTimes,
+  }
+}
+
+export interface SectionClusters {
+  groups: number[] // cluster index per section, numbered by first appearance
+  confidence: number[] // 0-1 per section
+}
+
+/**
+ * Group sections by average-linkage clustering of a section-by-section similarity matrix.
+ * A grouped section's confidence is its mean similarity to the rest of its group; a section
+ * left on its own scores by how unlike every other section it is.
+ */
+export function clusterSections(similarity: number[][]): SectionClusters {
+  const n = similarity.length
+  const offDiagonal = similarity.flatMap((row, i) => row.filter((_, j) => j !== i))
+  const min = Math.min(...offDiagonal)
+  const range = Math.max(...offDiagonal) - min
+  const relative = (i: number, j: number) =>
+    n < 3 || range <= 0 ? similarity[i][j] : (similarity[i][j] - min) / range
+  const canMerge = (raw: number, rescaled: number) =>
+    n < 3 ? raw >= SECTION_GROUP_PAIR_SIMILARITY : raw >= SECTION_GROUP_MIN_SIMILARITY && rescaled >= SECTION_GROUP_RELATIVE
+
+  let clusters = similarity.map((_, i) => [i])
+  while (clusters.length > 1) {
+    let best: { a: number; b: number; raw: number; rescaled: number } | null = null
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        let raw = 0
+        let rescaled = 0
+        for (const i of clusters[a]) {
+          for (const j of clusters[b]) {
+            raw += similarity[i][j]
+            rescaled += relative(i, j)
+          }
+        }
+        const pairs = clusters[a].length * clusters[b].length
+        if (!best || raw / pairs > best.raw) best = { a, b, raw: raw / pairs, rescaled: rescaled / pairs }
+      }
+    }
+    if (!best || !canMerge(best.raw, best.rescaled)) break
+
+    const { a, b } = best
+    clusters = clusters.filter((_, index) => index !== a && index !== b).concat([[...clusters[a], ...clusters[b]]])
+  }
+
+  clusters.sort((a, b) => Math.min(...a) - Math.min(...b))
+  const groups = new Array<number>(n).fill(0)
+  clusters.forEach((members, cluster) => members.forEach((i) => (groups[i] = cluster)))
+
+  const confidence = groups.map((group, i) => {
+    const others = groups.flatMap((other, j) => (j !== i ? [j] : []))
+    if (others.length === 0) return 1
+    const members = others.filter((j) => groups[j] === group)
+    const value =
+      members.length > 0
+        ? members.reduce((sum, j) => sum + relative(i, j), 0) / members.length
+        : 1 - Math.max(...others.map((j) => relative(i, j)))
+    return Math.max(0, Math.min(1, value))
+  })
+
+  return { groups, confidence }
+}
+
+/**
+ * Thrown when an analysis job is cancelled or superseded before it finishes
+ */
+export class AnalysisCancelledError extends Error {
+  constructor(message = 'Analysis cancelled') {
+    super(message)
+    this.name = 'AnalysisCancelledError'
+  }
+}
+
 export class AudioAnalysisCore {
   private essentia: any = null
   private isInitialized = false
@@ -133,6 +473,12 @@ export class AudioAnalysisCore {
     }
   }
 
+  private throwIfCancelled(isCancelled?: () => boolean): void {
+    if (isCancelled?.()) {
+      throw new AnalysisCancelledError()
+    }
+  }
+
   /**
    * Check if Essentia is available (for UI feedback)
    */
@@ -191,103 +537,198 @@ export class AudioAnalysisCore {
    */
   async detectOnsets(
     audioBuffer: AudioBuffer,
-    options: {
+    options: OnsetDetectionOptions & {
       sensitivity?: number // 0-1, higher = more sensitive
       minDistance?: number // minimum time between onsets in seconds
       onProgress?: (progress: number) => void // Progress callback (0-1)
+      isCancelled?: () => boolean // Checked between chunks; throws AnalysisCancelledError when true
     } = {}
   ): Promise<OnsetResult> {
-    this.ensureInitialized()
-
-    const { sensitivity = 0.5, minDistance = 0.05, onProgress } = options
-    const audioVector = this.audioBufferToMono(audioBuffer)
-    const sampleRate = audioBuffer.sampleRate
+    const {
+      sensitivity = 0.5,
+      minDistance = 0.05,
+      adaptiveThreshold = DEFAULT_ONSET_OPTIONS.adaptiveThreshold,
+      backtrack = DEFAULT_ONSET_OPTIONS.backtrack,
+      ...functionOptions
+    } = options
 
     try {
-      const frameSize = 2048
-      const hopSize = 512
-      const hannWindow = this.getHannWindow(frameSize)
-      const onsetFunction: number[] = []
-      let previousSpectrum: Float32Array | null = null
+      const onsetFunction = await this.computeOnsetFunction(audioBuffer, functionOptions)
+      return pickOnsets(onsetFunction.values, {
+        sampleRate: audioBuffer.sampleRate,
+        hopSize: onsetFunction.hopSize,
+        sensitivity,
+        minDistance,
+        adaptiveThreshold,
+        backtrack,
+        energy: onsetFunction.energy,
+      })
+    } catch (error) {
+      if (!(error instanceof AnalysisCancelledError)) {
+        console.error('Error in onset detection:', error)
+      }
+      throw error
+    }
+  }
 
-      const totalFrames = Math.max(1, Math.floor((audioVector.length - frameSize) / hopSize))
-      const chunkSize = 10
+  /**
+   * Onset detection function, one value per hop. Frame i starts at sample i * hopSize and its value
+   * depends only on frames i - ONSET_CONTEXT_FRAMES..i, so a long file can be computed in chunks
+   * and joined frame for frame.
+   *
+   * - flux: positive change in magnitude
+   * - superflux: positive change in log magnitude against a frequency max-filtered earlier frame,
+   *   which ignores vibrato
+   * - hfc: high frequency content, sum of k * |X[k]|^2; suits percussive material
+   * - complex: distance from the spectrum predicted from the two previous frames' magnitude and
+   *   phase; also catches soft, pitched onsets
+   * - energy: positive change in frame energy; cheapest, for clean percussive material
+   */
+  async computeOnsetFunction(
+    audioBuffer: AudioBuffer,
+    options: Pick<OnsetDetectionOptions, 'method' | 'frameSize' | 'hopSize' | 'preEmphasis'> & {
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+      isCancelled?: () => boolean // Checked between chunks; throws AnalysisCancelledError when true
+    } = {}
+  ): Promise<OnsetFunctionResult> {
+    this.ensureInitialized()
 
-      for (let i = 0, frameIndex = 0; i <= audioVector.length - frameSize; i += hopSize, frameIndex++) {
-        if (frameIndex > 0 && frameIndex % chunkSize === 0) {
-          await new Promise((resolve) => {
-            if (typeof requestIdleCallback !== 'undefined') {
-              requestIdleCallback(() => resolve(undefined), { timeout: 1 })
-            } else {
-              setTimeout(resolve, 0)
-            }
-          })
-          if (onProgress) {
-            onProgress(Math.min(1, frameIndex / totalFrames))
+    const {
+      method = DEFAULT_ONSET_OPTIONS.method,
+      frameSize = DEFAULT_ONSET_OPTIONS.frameSize,
+      hopSize = DEFAULT_ONSET_OPTIONS.hopSize,
+      preEmphasis = DEFAULT_ONSET_OPTIONS.preEmphasis,
+      onProgress,
+      isCancelled,
+    } = options
+    let audioVector = this.audioBufferToMono(audioBuffer)
+    if (preEmphasis > 0) {
+      // y[n] = x[n] - a * x[n - 1]
+      const emphasized = new Float32Array(audioVector.length)
+      emphasized[0] = audioVector[0] ?? 0
+      for (let i = 1; i < audioVector.length; i++) {
+        emphasized[i] = audioVector[i] - preEmphasis * audioVector[i - 1]
+      }
+      audioVector = emphasized
+    }
+
+    const hannWindow = this.getHannWindow(frameSize)
+    const onsetFunction: number[] = []
+    const energy: number[] = []
+    // Spectra of the last ONSET_CONTEXT_FRAMES frames, most recent first
+    const history: { magnitudes: Float32Array; phases?: Float32Array }[] = []
+    let previousEnergy = 0
+    // SuperFlux compares against a frame ~10 ms back
+    const superfluxLag = Math.max(1, Math.min(ONSET_CONTEXT_FRAMES, Math.round((0.01 * audioBuffer.sampleRate) / hopSize)))
+
+    const totalFrames = Math.max(1, Math.floor((audioVector.length - frameSize) / hopSize))
+    const chunkSize = 10
+
+    for (let i = 0, frameIndex = 0; i <= audioVector.length - frameSize; i += hopSize, frameIndex++) {
+      if (frameIndex > 0 && frameIndex % chunkSize === 0) {
+        await new Promise((resolve) => {
+          if (typeof requestIdleCallback !== 'undefined') {
+            requestIdleCallback(() => resolve(undefined), { timeout: 1 })
+          } else {
+            setTimeout(resolve, 0)
           }
+        })
+        this.throwIfCancelled(isCancelled)
+        if (onProgress) {
+          onProgress(Math.min(1, frameIndex / totalFrames))
         }
+      }
 
-        const frameSlice = audioVector.subarray(i, i + frameSize)
-        const windowedFrame = new Float32Array(frameSize)
-        for (let j = 0; j < frameSize; j++) {
-          windowedFrame[j] = frameSlice[j] * hannWindow[j]
+      const frameSlice = audioVector.subarray(i, i + frameSize)
+      const windowedFrame = new Float32Array(frameSize)
+      let sumSquared = 0
+      let windowedEnergy = 0
+      for (let j = 0; j < frameSize; j++) {
+        windowedFrame[j] = frameSlice[j] * hannWindow[j]
+        sumSquared += frameSlice[j] * frameSlice[j]
+        windowedEnergy += windowedFrame[j] * windowedFrame[j]
+      }
+      energy.push(Math.sqrt(sumSquared / frameSize))
+
+      if (method === 'energy') {
+        onsetFunction.push(frameIndex > 0 ? Math.max(0, windowedEnergy - previousEnergy) : 0)
+        previousEnergy = windowedEnergy
+        continue
+      }
+
+      let magnitudes: Float32Array
+      let phases: Float32Array | undefined
+      let predictionError = 0
+      if (method === 'complex') {
+        // Essentia's Spectrum drops the phase, so the complex spectrum comes from the DSP module
+        const real = new Float32Array(windowedFrame)
+        const imag = new Float32Array(frameSize)
+        fft(real, imag)
+        magnitudes = new Float32Array(frameSize / 2 + 1)
+        phases = new Float32Array(frameSize / 2 + 1)
+        for (let k = 0; k < magnitudes.length; k++) {
+          magnitudes[k] = Math.hypot(real[k], imag[k])
+          phases[k] = Math.atan2(imag[k], real[k])
         }
 
+        const [previous, beforePrevious] = history
+        if (previous?.phases && beforePrevious?.phases) {
+          for (let k = 0; k < magnitudes.length; k++) {
+            const predictedPhase = 2 * previous.phases[k] - beforePrevious.phases[k]
+            const predictedReal = previous.magnitudes[k] * Math.cos(predictedPhase)
+            const predictedImag = previous.magnitudes[k] * Math.sin(predictedPhase)
+            predictionError += Math.hypot(real[k] - predictedReal, imag[k] - predictedImag)
+          }
+        }
+      } else {
         const frameVector = this.essentia.arrayToVector(windowedFrame)
         const spectrum = this.essentia.Spectrum(frameVector)
         const spectrumVector = spectrum.spectrum || spectrum.vector || spectrum
-        const magnitudeArray = this.essentia.vectorToArray(spectrumVector)
-
-        let fluxValue = 0
-        if (previousSpectrum) {
-          const len = Math.min(previousSpectrum.length, magnitudeArray.length)
-          for (let j = 0; j < len; j++) {
-            const diff = magnitudeArray[j] - previousSpectrum[j]
-            if (diff > 0) {
-              fluxValue += diff
-            }
-          }
-        }
-
-        onsetFunction.push(fluxValue)
-        previousSpectrum = new Float32Array(magnitudeArray)
+        magnitudes = new Float32Array(this.essentia.vectorToArray(spectrumVector))
       }
 
-      if (onProgress) {
-        onProgress(1)
-      }
-
-      const onsets: number[] = []
-      const onsetTimes: number[] = []
-      let lastOnsetFrame = -Infinity
-
-      const threshold = this.calculateThreshold(onsetFunction, sensitivity)
-      const minDistanceFrames = Math.floor((minDistance * sampleRate) / hopSize)
-
-      for (let i = 1; i < onsetFunction.length - 1; i++) {
-        if (
-          onsetFunction[i] > threshold &&
-          onsetFunction[i] > onsetFunction[i - 1] &&
-          onsetFunction[i] > onsetFunction[i + 1]
-        ) {
-          if (i - lastOnsetFrame >= minDistanceFrames) {
-            const timeInSeconds = (i * hopSize) / sampleRate
-            const sampleIndex = Math.floor(timeInSeconds * sampleRate)
-            onsets.push(sampleIndex)
-            onsetTimes.push(timeInSeconds)
-            lastOnsetFrame = i
+      let value = 0
+      if (method === 'hfc') {
+        for (let k = 0; k < magnitudes.length; k++) {
+          value += k * magnitudes[k] * magnitudes[k]
+        }
+        value /= magnitudes.length
+      } else if (method === 'complex') {
+        value = predictionError
+      } else if (method === 'superflux') {
+        for (let k = 0; k < magnitudes.length; k++) {
+          magnitudes[k] = Math.log1p(magnitudes[k])
+        }
+        const reference = history[superfluxLag - 1]
+        if (reference) {
+          const ref = reference.magnitudes
+          for (let k = 0; k < magnitudes.length; k++) {
+            const maxFiltered = Math.max(ref[k], ref[k - 1] ?? 0, ref[k + 1] ?? 0)
+            const diff = magnitudes[k] - maxFiltered
+            if (diff > 0) value += diff
+          }
+        }
+      } else {
+        const previous = history[0]
+        if (previous) {
+          const len = Math.min(previous.magnitudes.length, magnitudes.length)
+          for (let k = 0; k < len; k++) {
+            const diff = magnitudes[k] - previous.magnitudes[k]
+            if (diff > 0) value += diff
           }
         }
       }
 
-      return {
-        timestamps: onsets,
-        times: onsetTimes,
-      }
-    } catch (error) {
-      console.error('Error in onset detection:', error)
-      throw error
+      onsetFunction.push(value)
+      history.unshift({ magnitudes, phases })
+      history.length = Math.min(history.length, ONSET_CONTEXT_FRAMES)
     }
+
+    if (onProgress) {
+      onProgress(1)
+    }
+
+    return { values: onsetFunction, energy, frameSize, hopSize }
   }
 
   /**
@@ -354,6 +795,759 @@ export class AudioAnalysisCore {
     }
   }
 
+  /**
+   * Detect beat and downbeat positions using RhythmExtractor2013's beat ticks
+   */
+  async detectBeats(
+    audioBuffer: AudioBuffer,
+    options: {
+      beatsPerBar?: number
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+    } = {}
+  ): Promise<BeatResult> {
+    this.ensureInitialized()
+
+    const { beatsPerBar = 4, onProgress } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+    const duration = audioBuffer.duration
+
+    // Yield control before heavy beat tracking to prevent UI freezing
+    await new Promise(resolve => setTimeout(resolve, 0))
+    if (onProgress) {
+      onProgress(0.1)
+    }
+
+    let bpm = 0
+    let confidence = 0
+    let beats: number[] = []
+
+    try {
+      const rhythm = this.essentia.RhythmExtractor2013(this.essentia.arrayToVector(audioVector))
+      bpm = rhythm.bpm || 0
+      confidence = rhythm.confidence || 0
+      if (rhythm.ticks) {
+        beats = Array.from(this.essentia.vectorToArray(rhythm.ticks) as ArrayLike<number>).filter(
+          (time) => time >= 0 && time < duration
+        )
+      }
+    } catch (error) {
+      console.warn('Beat tracking failed, using a fixed grid:', error)
+    }
+
+    if (onProgress) {
+      onProgress(0.8)
+    }
+
+    // Without usable ticks, lay a straight grid at the detected (or default) tempo
+    if (beats.length < 2) {
+      const beatDuration = 60 / (bpm > 0 ? bpm : 120)
+      beats = []
+      for (let time = 0; time < duration; time += beatDuration) {
+        beats.push(time)
+      }
+      confidence = 0
+    }
+
+    if (bpm <= 0) {
+      bpm = 60 / this.median(beats.slice(1).map((time, i) => time - beats[i]))
+    }
+
+    const phase = this.estimateDownbeatPhase(beats, audioVector, sampleRate, beatsPerBar)
+    const downbeats = beats.filter((_, i) => i >= phase && (i - phase) % beatsPerBar === 0)
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return {
+      bpm: Math.round(bpm * 100) / 100,
+      confidence,
+      beats,
+      downbeats,
+      beatsPerBar,
+    }
+  }
+
+  /**
+   * Pick which beat of the bar is the downbeat: the phase whose beats carry the most attack energy
+   */
+  private estimateDownbeatPhase(
+    beats: number[],
+    audioVector: Float32Array,
+    sampleRate: number,
+    beatsPerBar: number
+  ): number {
+    const windowSize = Math.floor(sampleRate * 0.05) // 50ms after each beat
+    const phaseEnergy = new Array(beatsPerBar).fill(0)
+
+    beats.forEach((time, i) => {
+      const start = Math.floor(time * sampleRate)
+      const end = Math.min(start + windowSize, audioVector.length)
+      let sum = 0
+      for (let j = start; j < end; j++) {
+        sum += audioVector[j] * audioVector[j]
+      }
+      phaseEnergy[i % beatsPerBar] += end > start ? sum / (end - start) : 0
+    })
+
+    return phaseEnergy.indexOf(Math.max(...phaseEnergy))
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0.5
+    const sorted = [...values].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)]
+  }
+
+  /**
+   * Detect the key of the whole file and of each range (sections, slices) with Essentia's KeyExtractor
+   */
+  async detectKey(
+    audioBuffer: AudioBuffer,
+    options: {
+      ranges?: SampleRange[]
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+    } = {}
+  ): Promise<KeyDetectionResult> {
+    this.ensureInitialized()
+
+    const { ranges = [], onProgress } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+
+    const key = this.extractKey(audioVector, sampleRate)
+    const rangeKeys: (KeyResult | null)[] = []
+
+    for (let i = 0; i < ranges.length; i++) {
+      // Yield between ranges to keep the worker responsive
+      await new Promise(resolve => setTimeout(resolve, 0))
+      if (onProgress) {
+        onProgress((i + 1) / (ranges.length + 1))
+      }
+
+      const start = Math.max(0, Math.floor(ranges[i].startSample))
+      const end = Math.min(audioVector.length, Math.floor(ranges[i].endSample))
+      rangeKeys.push(end - start >= MIN_KEY_DURATION * sampleRate ? this.extractKey(audioVector.subarray(start, end), sampleRate) : null)
+    }
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return { key, ranges: rangeKeys }
+  }
+
+  /**
+   * Detect a chord progression by matching per-segment HPCP against major/minor triad templates
+   */
+  async detectChords(
+    audioBuffer: AudioBuffer,
+    options: {
+      segmentDuration?: number // seconds of audio summarised per chord estimate
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+    } = {}
+  ): Promise<ChordResult> {
+    this.ensureInitialized()
+
+    const { segmentDuration = 0.5, onProgress } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+
+    const frameSize = 4096
+    const hopSize = 2048
+    const framesPerSegment = Math.max(1, Math.round((segmentDuration * sampleRate) / hopSize))
+    const numFrames = Math.max(0, Math.floor((audioVector.length - frameSize) / hopSize) + 1)
+    const chords: ChordSegment[] = []
+
+    let segment = new Array(12).fill(0)
+    let segmentStart = 0
+
+    for (let i = 0; i < numFrames; i++) {
+      if (i > 0 && i % 20 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+        if (onProgress) {
+          onProgress(i / numFrames)
+        }
+      }
+
+      const hpcp = this.computeHpcp(audioVector.subarray(i * hopSize, i * hopSize + frameSize), sampleRate)
+      for (let j = 0; j < 12; j++) {
+        segment[j] += hpcp[j]
+      }
+
+      const isLast = i === numFrames - 1
+      if ((i + 1) % framesPerSegment === 0 || isLast) {
+        const startTime = (segmentStart * hopSize) / sampleRate
+        const endTime = isLast ? audioBuffer.duration : ((i + 1) * hopSize) / sampleRate
+        const match = this.matchChord(segment)
+        const previous = chords[chords.length - 1]
+
+        if (match && previous && previous.chord === match.chord && Math.abs(previous.endTime - startTime) < 1e-6) {
+          // Extend the running chord rather than repeating it
+          previous.endTime = endTime
+          previous.strength = Math.max(previous.strength, match.strength)
+        } else if (match) {
+          chords.push({ startTime, endTime, chord: match.chord, strength: match.strength })
+        }
+
+        segment = new Array(12).fill(0)
+        segmentStart = i + 1
+      }
+    }
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return { chords }
+  }
+
+  /**
+   * Run KeyExtractor on a block of audio, falling back to profile matching on its average HPCP
+   */
+  private extractKey(audio: Float32Array, sampleRate: number): KeyResult | null {
+    try {
+      const result = this.essentia.KeyExtractor(
+        this.essentia.arrayToVector(audio),
+        undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+        sampleRate
+      )
+      if (result && result.key && (result.scale === 'major' || result.scale === 'minor')) {
+        return { key: result.key, scale: result.scale, strength: result.strength || 0 }
+      }
+    } catch (error) {
+      console.warn('KeyExtractor failed, using profile matching:', error)
+    }
+
+    const frameSize = 4096
+    const chroma = new Array(12).fill(0)
+    for (let i = 0; i + frameSize <= audio.length; i += frameSize) {
+      const hpcp = this.computeHpcp(audio.subarray(i, i + frameSize), sampleRate)
+      for (let j = 0; j < 12; j++) {
+        chroma[j] += hpcp[j]
+      }
+    }
+    return this.matchKeyProfile(chroma)
+  }
+
+  /**
+   * 12-bin harmonic pitch class profile of one frame (Essentia HPCP, or a direct bin mapping),
+   * with C at index 0 like PITCH_NAMES
+   */
+  private computeHpcp(frame: Float32Array, sampleRate: number): number[] {
+    const windowed = new Float32Array(frame.length)
+    const window = this.getHannWindow(frame.length)
+    for (let i = 0; i < frame.length; i++) {
+      windowed[i] = frame[i] * window[i]
+    }
+
+    let magnitudes: ArrayLike<number>
+    try {
+      const spectrum = this.essentia.Spectrum(this.essentia.arrayToVector(windowed))
+      const spectrumVector = spectrum.spectrum || spectrum.vector || spectrum
+      try {
+        const peaks = this.essentia.SpectralPeaks(spectrumVector, 0, 5000, 100, 40, 'magnitude', sampleRate)
+        const hpcp = this.essentia.HPCP(
+          peaks.frequencies,
+          peaks.magnitudes,
+          true, 500, 0, 5000, false, 40, false, 'unitMax', 440, sampleRate, 12
+        )
+        const values = Array.from(this.essentia.vectorToArray(hpcp.hpcp || hpcp) as ArrayLike<number>)
+        // HPCP is referenced to 440 Hz, so its bin 0 is A; rotate it to index 9
+        if (values.length === 12) return values.map((_, i) => values[(i + 3) % 12])
+      } catch {
+        // Fall through to the direct mapping below
+      }
+      magnitudes = this.essentia.vectorToArray(spectrumVector)
+    } catch {
+      return new Array(12).fill(0)
+    }
+
+    // Direct mapping: fold each spectrum bin between 40 Hz and 5 kHz onto its pitch class
+    const chroma = new Array(12).fill(0)
+    const binWidth = sampleRate / frame.length
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const frequency = bin * binWidth
+      if (frequency < 40 || frequency > 5000) continue
+      const pitchClass = ((Math.round(12 * Math.log2(frequency / 440)) % 12) + 12 + 9) % 12
+      chroma[pitchClass] += magnitudes[bin] * magnitudes[bin]
+    }
+    const max = Math.max(...chroma)
+    return max > 0 ? chroma.map((value) => value / max) : chroma
+  }
+
+  /**
+   * Best-correlating major/minor key profile for a chroma vector
+   */
+  private matchKeyProfile(chroma: number[]): KeyResult | null {
+    if (chroma.every((value) => value === 0)) return null
+
+    let best: KeyResult | null = null
+    let bestScore = -Infinity
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const scale of ['major', 'minor'] as const) {
+        const profile = scale === 'major' ? MAJOR_PROFILE : MINOR_PROFILE
+        const rotated = chroma.map((_, i) => profile[(i - tonic + 12) % 12])
+        const score = this.pearsonCorrelation(chroma, rotated)
+        if (score > bestScore) {
+          bestScore = score
+          best = { key: PITCH_NAMES[tonic], scale, strength: Math.max(0, score) }
+        }
+      }
+    }
+    return best
+  }
+
+  /**
+   * Best-matching major/minor triad for a chroma vector; null for silence or weak matches
+   */
+  private matchChord(chroma: number[]): { chord: string; strength: number } | null {
+    const total = chroma.reduce((sum, value) => sum + value, 0)
+    if (total <= 0) return null
+
+    let best: { chord: string; strength: number } | null = null
+    for (let root = 0; root < 12; root++) {
+      for (const minor of [false, true]) {
+        const template = new Array(12).fill(0)
+        template[root] = 1
+        template[(root + (minor ? 3 : 4)) % 12] = 1
+        template[(root + 7) % 12] = 1
+        const strength = this.cosineSimilarity(chroma, template)
+        if (!best || strength > best.strength) {
+          best = { chord: `${PITCH_NAMES[root]}${minor ? 'm' : ''}`, strength }
+        }
+      }
+    }
+    return best && best.strength >= 0.5 ? best : null
+  }
+
+  private pearsonCorrelation(a: number[], b: number[]): number {
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length
+    let numerator = 0
+    let denominatorA = 0
+    let denominatorB = 0
+    for (let i = 0; i < a.length; i++) {
+      numerator += (a[i] - meanA) * (b[i] - meanB)
+      denominatorA += (a[i] - meanA) ** 2
+      denominatorB += (b[i] - meanB) ** 2
+    }
+    const denominator = Math.sqrt(denominatorA * denominatorB)
+    return denominator === 0 ? 0 : numerator / denominator
+  }
+
+  /**
+   * Classify each range (an onset slice) as kick, snare, hat, clap, tom or other from spectral features
+   */
+  async classifyDrumHits(
+    audioBuffer: AudioBuffer,
+    options: {
+      ranges?: SampleRange[]
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+    } = {}
+  ): Promise<DrumClassificationResult> {
+    this.ensureInitialized()
+
+    const { ranges = [], onProgress } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+    const hits: DrumHit[] = []
+
+    for (let i = 0; i < ranges.length; i++) {
+      if (i > 0 && i % 4 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+      if (onProgress) {
+        onProgress(i / Math.max(1, ranges.length))
+      }
+
+      const start = Math.max(0, Math.floor(ranges[i].startSample))
+      const end = Math.min(audioVector.length, Math.floor(ranges[i].endSample))
+      const features = this.extractDrumFeatures(audioVector.subarray(start, end), sampleRate)
+      hits.push({ ...this.classifyDrumFeatures(features), features })
+    }
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return { hits }
+  }
+
+  /**
+   * Spectral features of a hit's attack (first ~93ms) plus the decay of its whole envelope
+   */
+  private extractDrumFeatures(hit: Float32Array, sampleRate: number): DrumHitFeatures {
+    const frameSize = 4096
+    const frame = new Float32Array(frameSize)
+    frame.set(hit.subarray(0, frameSize))
+    const window = this.getHannWindow(frameSize)
+    for (let i = 0; i < frameSize; i++) {
+      frame[i] *= window[i]
+    }
+
+    let magnitudes: ArrayLike<number>
+    try {
+      const spectrum = this.essentia.Spectrum(this.essentia.arrayToVector(frame))
+      magnitudes = this.essentia.vectorToArray(spectrum.spectrum || spectrum.vector || spectrum)
+    } catch {
+      magnitudes = new Float32Array(frameSize / 2 + 1)
+    }
+
+    const binWidth = sampleRate / frameSize
+    let total = 0
+    let weighted = 0
+    let low = 0
+    let mid = 0
+    let high = 0
+    let logSum = 0
+    let linearSum = 0
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const frequency = bin * binWidth
+      const power = magnitudes[bin] * magnitudes[bin]
+      total += power
+      weighted += frequency * power
+      if (frequency < 150) low += power
+      else if (frequency < 1000) mid += power
+      else if (frequency > 5000) high += power
+      logSum += Math.log(magnitudes[bin] + 1e-10)
+      linearSum += magnitudes[bin]
+    }
+    const bins = Math.max(1, magnitudes.length - 1)
+    const linearMean = linearSum / bins
+
+    let crossings = 0
+    const attackLength = Math.min(hit.length, frameSize)
+    for (let i = 1; i < attackLength; i++) {
+      if ((hit[i - 1] >= 0) !== (hit[i] >= 0)) crossings++
+    }
+
+    return {
+      centroid: total > 0 ? weighted / total : 0,
+      flatness: linearMean > 0 ? Math.min(1, Math.exp(logSum / bins) / linearMean) : 0,
+      zeroCrossingRate: attackLength > 1 ? crossings / (attackLength - 1) : 0,
+      lowRatio: total > 0 ? low / total : 0,
+      midRatio: total > 0 ? mid / total : 0,
+      highRatio: total > 0 ? high / total : 0,
+      decay: this.measureDecay(hit, sampleRate),
+    }
+  }
+
+  /**
+   * Time from the envelope peak until it stays 20 dB below it
+   */
+  private measureDecay(hit: Float32Array, sampleRate: number): number {
+    const blockSize = Math.max(1, Math.floor(sampleRate * 0.005)) // 5ms RMS blocks
+    const envelope: number[] = []
+    for (let i = 0; i < hit.length; i += blockSize) {
+      let sum = 0
+      const end = Math.min(i + blockSize, hit.length)
+      for (let j = i; j < end; j++) {
+        sum += hit[j] * hit[j]
+      }
+      envelope.push(Math.sqrt(sum / (end - i)))
+    }
+    if (envelope.length === 0) return 0
+
+    const peak = Math.max(...envelope)
+    const peakIndex = envelope.indexOf(peak)
+    let endIndex = envelope.length
+    for (let i = envelope.length - 1; i > peakIndex; i--) {
+      if (envelope[i] >= peak * 0.1) {
+        endIndex = i + 1
+        break
+      }
+      endIndex = i
+    }
+    return ((endIndex - peakIndex) * blockSize) / sampleRate
+  }
+
+  /**
+   * Rule-based drum classifier; confidence is how clearly the deciding feature clears its threshold
+   */
+  private classifyDrumFeatures(features: DrumHitFeatures): { label: DrumClass; confidence: number } {
+    const { centroid, flatness, lowRatio, midRatio, highRatio, decay, zeroCrossingRate } = features
+    const clamp = (value: number) => Math.max(0, Math.min(1, value))
+
+    if (centroid === 0) {
+      return { label: 'other', confidence: 0 }
+    }
+    if (lowRatio > 0.45 && centroid < 800) {
+      return { label: 'kick', confidence: clamp(0.5 + (lowRatio - 0.45)) }
+    }
+    if (highRatio > 0.45 || (centroid > 6000 && zeroCrossingRate > 0.2)) {
+      return { label: 'hat', confidence: clamp(0.5 + (highRatio - 0.45)) }
+    }
+    if (midRatio > 0.5 && flatness < 0.2 && centroid < 1500) {
+      return { label: 'tom', confidence: clamp(0.5 + (midRatio - 0.5)) }
+    }
+    if (flatness > 0.3 && lowRatio < 0.1 && decay < 0.25) {
+      return { label: 'clap', confidence: clamp(0.4 + (flatness - 0.3)) }
+    }
+    if (centroid > 1000 && centroid < 6000) {
+      return { label: 'snare', confidence: clamp(0.4 + flatness) }
+    }
+    return { label: 'other', confidence: 0.3 }
+  }
+
+  /**
+   * Spectrogram for display: `columns` evenly spaced frames, magnitudes collected into
+   * log-spaced bands and scaled to 0-255 over the `range` dB below the loudest band
+   */
+  async computeSpectrogram(
+    audioBuffer: AudioBuffer,
+    options: {
+      columns?: number
+      bands?: number
+      frameSize?: number // power of two
+      minFrequency?: number // Hz
+      range?: number // dB
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+      isCancelled?: () => boolean // Checked between chunks; throws AnalysisCancelledError when true
+    } = {}
+  ): Promise<SpectrogramResult> {
+    const { bands = 160, frameSize = 2048, minFrequency = 40, range = 80, onProgress, isCancelled } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+    const maxFrequency = sampleRate / 2
+    // Never more columns than there are hops of a quarter frame
+    const columns = Math.max(1, Math.min(options.columns ?? 1024, Math.floor(audioVector.length / (frameSize / 4))))
+
+    // Bin range of each band; bands narrower than a bin use the bin at their centre
+    const binWidth = sampleRate / frameSize
+    const ratio = Math.pow(maxFrequency / minFrequency, 1 / bands)
+    const bandBins = Array.from({ length: bands }, (_, band) => {
+      const low = minFrequency * Math.pow(ratio, band)
+      const high = low * ratio
+      const from = Math.min(frameSize / 2, Math.round(low / binWidth))
+      const to = Math.min(frameSize / 2, Math.round(high / binWidth))
+      return to > from ? [from, to] : [Math.min(frameSize / 2, Math.round(Math.sqrt(low * high) / binWidth)), -1]
+    })
+
+    const levels = new Float32Array(columns * bands)
+    let loudest = -Infinity
+    for (let column = 0; column < columns; column++) {
+      if (column > 0 && column % 64 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+        this.throwIfCancelled(isCancelled)
+        if (onProgress) {
+          onProgress(column / columns)
+        }
+      }
+
+      const center = Math.floor(((column + 0.5) * audioVector.length) / columns)
+      const start = Math.max(0, Math.min(audioVector.length - frameSize, center - frameSize / 2))
+      const spectrum = magnitudeSpectrum(audioVector.subarray(start, start + frameSize), frameSize)
+
+      for (let band = 0; band < bands; band++) {
+        const [from, to] = bandBins[band]
+        let magnitude = spectrum[from]
+        for (let bin = from + 1; bin < to; bin++) {
+          magnitude = Math.max(magnitude, spectrum[bin])
+        }
+        const level = 20 * Math.log10(magnitude + 1e-12)
+        levels[column * bands + band] = level
+        loudest = Math.max(loudest, level)
+      }
+    }
+
+    const data = new Uint8Array(levels.length)
+    for (let i = 0; i < levels.length; i++) {
+      data[i] = Math.round(255 * Math.max(0, Math.min(1, (levels[i] - loudest + range) / range)))
+    }
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return { data, columns, bands, minFrequency, maxFrequency }
+  }
+
+  /**
+   * Find sung phrases: frames are scored for vocal activity from their loudness, tonality
+   * (inverse spectral flatness) and pitch salience, and runs of active frames separated by
+   * silence become phrases
+   */
+  async detectVocalPhrases(
+    audioBuffer: AudioBuffer,
+    options: VocalPhraseOptions & {
+      onProgress?: (progress: number) => void // Progress callback (0-1)
+      isCancelled?: () => boolean // Checked between chunks; throws AnalysisCancelledError when true
+    } = {}
+  ): Promise<VocalPhraseResult> {
+    this.ensureInitialized()
+
+    const {
+      threshold = DEFAULT_VOCAL_PHRASE_OPTIONS.threshold,
+      minSilence = DEFAULT_VOCAL_PHRASE_OPTIONS.minSilence,
+      minPhraseDuration = DEFAULT_VOCAL_PHRASE_OPTIONS.minPhraseDuration,
+      maxPhraseDuration = DEFAULT_VOCAL_PHRASE_OPTIONS.maxPhraseDuration,
+      onProgress,
+      isCancelled,
+    } = options
+    const audioVector = this.audioBufferToMono(audioBuffer)
+    const sampleRate = audioBuffer.sampleRate
+    const frameSize = 2048
+    const hopSize = 512
+    const window = this.getHannWindow(frameSize)
+    const binWidth = sampleRate / frameSize
+    const lowBin = Math.max(1, Math.floor(100 / binWidth))
+    const highBin = Math.min(frameSize / 2, Math.ceil(8000 / binWidth))
+
+    const levels: number[] = [] // dBFS
+    const flatness: number[] = []
+    const salience: number[] = []
+    let salienceAvailable = true
+    const numFrames = Math.max(0, Math.floor((audioVector.length - frameSize) / hopSize) + 1)
+
+    for (let i = 0; i < numFrames; i++) {
+      if (i > 0 && i % 200 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+        this.throwIfCancelled(isCancelled)
+        if (onProgress) {
+          onProgress(0.9 * (i / numFrames))
+        }
+      }
+
+      const frame = audioVector.subarray(i * hopSize, i * hopSize + frameSize)
+      let sumSquared = 0
+      for (let j = 0; j < frame.length; j++) {
+        sumSquared += frame[j] * frame[j]
+      }
+      levels.push(20 * Math.log10(Math.sqrt(sumSquared / frame.length) + 1e-10))
+
+      let magnitudes: ArrayLike<number>
+      let spectrumVector: any = null
+      try {
+        const windowed = new Float32Array(frameSize)
+        for (let j = 0; j < frameSize; j++) {
+          windowed[j] = frame[j] * window[j]
+        }
+        const spectrum = this.essentia.Spectrum(this.essentia.arrayToVector(windowed))
+        spectrumVector = spectrum.spectrum || spectrum.vector || spectrum
+        magnitudes = this.essentia.vectorToArray(spectrumVector)
+      } catch {
+        magnitudes = magnitudeSpectrum(frame)
+        salienceAvailable = false
+      }
+
+      // Geometric over arithmetic mean of the power in the vocal range: ~0 for tones, ~1 for noise
+      let logSum = 0
+      let linearSum = 0
+      for (let bin = lowBin; bin < highBin; bin++) {
+        const power = magnitudes[bin] * magnitudes[bin]
+        logSum += Math.log(power + 1e-20)
+        linearSum += power
+      }
+      const bins = Math.max(1, highBin - lowBin)
+      const frameFlatness = linearSum > 0 ? Math.exp(logSum / bins) / (linearSum / bins) : 1
+      flatness.push(frameFlatness)
+
+      let frameSalience = 0
+      if (salienceAvailable && spectrumVector) {
+        try {
+          const result = this.essentia.PitchSalience(spectrumVector, 5000, 100, sampleRate)
+          frameSalience = result.pitchSalience ?? 0
+        } catch {
+          salienceAvailable = false
+        }
+      }
+      salience.push(frameSalience)
+    }
+
+    // Without PitchSalience, tonality stands in for it
+    if (!salienceAvailable) {
+      flatness.forEach((value, i) => (salience[i] = 1 - value))
+    }
+
+    const percentile = (values: number[], fraction: number) => {
+      if (values.length === 0) return 0
+      const sorted = [...values].sort((a, b) => a - b)
+      return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+    }
+    const clamp = (value: number) => Math.max(0, Math.min(1, value))
+
+    const floorLevel = percentile(levels, 0.1)
+    const levelRange = Math.max(12, percentile(levels, 0.95) - floorLevel)
+    const salienceScale = percentile(salience, 0.95) || 1
+
+    const activity = levels.map((level, i) => {
+      // Silence gaps: near the noise floor, or quiet in absolute terms
+      if (level < floorLevel + VOCAL_SILENCE_MARGIN || level < VOCAL_SILENCE_LEVEL) return 0
+      const loudness = clamp((level - floorLevel) / levelRange)
+      const tonality = clamp(1 - flatness[i] / VOCAL_MAX_FLATNESS)
+      // Loud noise (drums, breaths) is not voice, so loudness scales the pitched score
+      return Math.sqrt(loudness) * (0.5 * tonality + 0.5 * clamp(salience[i] / salienceScale))
+    })
+
+    // Moving average so single frames do not start or end a phrase
+    const radius = Math.max(1, Math.round((0.1 * sampleRate) / hopSize))
+    const smoothed = activity.map((_, i) => {
+      const from = Math.max(0, i - radius)
+      const to = Math.min(activity.length, i + radius + 1)
+      let sum = 0
+      for (let j = from; j < to; j++) {
+        sum += activity[j]
+      }
+      return sum / (to - from)
+    })
+
+    // Runs of active frames, joined across gaps shorter than minSilence
+    const minGapFrames = Math.round((minSilence * sampleRate) / hopSize)
+    const runs: [number, number][] = []
+    for (let i = 0; i < smoothed.length; i++) {
+      if (smoothed[i] < threshold) continue
+      let end = i
+      while (end + 1 < smoothed.length && smoothed[end + 1] >= threshold) end++
+      const last = runs[runs.length - 1]
+      if (last && i - last[1] - 1 < minGapFrames) {
+        last[1] = end
+      } else {
+        runs.push([i, end])
+      }
+      i = end
+    }
+
+    // Split over-long phrases at their quietest frame, away from either end
+    const maxFrames = Math.max(1, Math.round((maxPhraseDuration * sampleRate) / hopSize))
+    const split = (start: number, end: number): [number, number][] => {
+      if (end - start + 1 <= maxFrames) return [[start, end]]
+      const quarter = Math.floor((end - start) / 4)
+      let quietest = start + quarter
+      for (let i = start + quarter; i <= end - quarter; i++) {
+        if (levels[i] < levels[quietest]) quietest = i
+      }
+      return [...split(start, quietest - 1), ...split(quietest + 1, end)]
+    }
+
+    const minFrames = Math.round((minPhraseDuration * sampleRate) / hopSize)
+    const phrases = runs
+      .flatMap(([start, end]) => split(start, end))
+      .filter(([start, end]) => end - start + 1 >= minFrames)
+      .map(([start, end]) => {
+        const startSample = start * hopSize
+        const endSample = Math.min(audioVector.length, end * hopSize + frameSize)
+        let sum = 0
+        for (let i = start; i <= end; i++) {
+          sum += smoothed[i]
+        }
+        return {
+          startSample,
+          endSample,
+          startTime: startSample / sampleRate,
+          endTime: endSample / sampleRate,
+          confidence: clamp(sum / (end - start + 1)),
+        }
+      })
+
+    if (onProgress) {
+      onProgress(1.0)
+    }
+
+    return { phrases }
+  }
+
   /**
    * Detect song structure (sections) using chroma and MFCC features
    */
@@ -363,11 +1557,12 @@ export class AudioAnalysisCore {
       maxSections?: number
       minSectionDuration?: number // in seconds
       onProgress?: (progress: number) => void // Progress callback (0-1)
+      isCancelled?: () => boolean // Checked between chunks; throws AnalysisCancelledError when true
     } = {}
   ): Promise<SongStructureResult> {
     this.ensureInitialized()
 
-    const { maxSections = 8, minSectionDuration = 5, onProgress } = options
+    const { maxSections = 8, minSectionDuration = 5, onProgress, isCancelled } = options
     const audioVector = this.audioBufferToMono(audioBuffer)
     const sampleRate = audioBuffer.sampleRate
     const duration = audioBuffer.duration
@@ -399,6 +1594,7 @@ export class AudioAnalysisCore {
               setTimeout(resolve, 0)
             }
           })
+          this.throwIfCancelled(isCancelled)
           // Report progress (feature extraction is about 60% of total work)
           if (onProgress && numFrames > 0) {
             onProgress(0.6 * (i / numFrames))
@@ -495,6 +1691,7 @@ export class AudioAnalysisCore {
       }
 
       // Build self-similarity matrix using chroma features
+      this.throwIfCancelled(isCancelled)
       const similarityMatrix = this.buildSimilarityMatrix(chromaFeatures)
       
       // Report progress: similarity matrix complete
@@ -518,8 +1715,8 @@ export class AudioAnalysisCore {
         onProgress(0.9)
       }
 
-      // Label sections based on energy and position
-      const labeledBoundaries = this.labelSections(boundaries, energyProfile, duration)
+      // Label sections by which of them repeat
+      const labeledBoundaries = this.labelSections(boundaries, similarityMatrix, sampleRate, hopSize)
 
       // Report progress: labeling complete
       if (onProgress) {
@@ -539,6 +1736,7 @@ export class AudioAnalysisCore {
         bpm: bpmResult.bpm,
       }
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
       console.error('Error in song structure detection:', error)
       // Report error completion so UI can update
       if (onProgress) {
@@ -616,7 +1814,7 @@ export class AudioAnalysisCore {
     }
 
     // Find peaks in novelty function (section boundaries)
-    const threshold = this.calculateThreshold(noveltyFunction, 0.3)
+    const threshold = calculateThreshold(noveltyFunction, 0.3)
     const boundaries: number[] = [0] // Always start at beginning
 
     for (let i = 1; i < noveltyFunction.length - 1; i++) {
@@ -682,93 +1880,96 @@ export class AudioAnalysisCore {
   }
 
   /**
-   * Label sections based on energy, position, and repetition patterns
+   * Label sections by repetition: sections whose chroma repeats share a group letter (A, B, C...)
+   * named Verse, Chorus, Bridge in order of first appearance. A first or last section that
+   * does not repeat is the Intro or Outro.
    */
   private labelSections(
     boundaries: SectionBoundary[],
-    energyProfile: number[],
-    duration: number
+    similarityMatrix: number[][],
+    sampleRate: number,
+    hopSize: number
   ): SectionBoundary[] {
     if (boundaries.length === 0) return boundaries
 
-    // Calculate average energy for each section
-    const sectionEnergies: number[] = []
-    for (const boundary of boundaries) {
-      const startFrame = Math.floor(boundary.startTime * 44.1) // Approximate frame index
-      const endFrame = Math.floor(boundary.endTime * 44.1)
-      let sum = 0
-      let count = 0
-
-      for (let i = startFrame; i < Math.min(endFrame, energyProfile.length); i++) {
-        sum += energyProfile[i]
-        count++
-      }
-
-      sectionEnergies.push(count > 0 ? sum / count : 0)
-    }
-
-    // Normalize energies
-    const maxEnergy = Math.max(...sectionEnergies)
-    const normalizedEnergies = sectionEnergies.map(e => maxEnergy > 0 ? e / maxEnergy : 0)
-
-    // Label sections
-    const labeledBoundaries = boundaries.map((boundary, index) => {
-      const energy = normalizedEnergies[index]
-      const position = boundary.startTime / duration
-      let label = 'Section'
-
-      // First section is usually Intro
-      if (index === 0 && position < 0.1) {
-        label = 'Intro'
-      }
-      // Last section is usually Outro
-      else if (index === boundaries.length - 1 && position > 0.8) {
-        label = 'Outro'
-      }
-      // High energy sections are usually Chorus
-      else if (energy > 0.7) {
-        label = 'Chorus'
-      }
-      // Medium energy sections are usually Verse
-      else if (energy > 0.4) {
-        label = 'Verse'
-      }
-      // Low energy sections might be Bridge or Breakdown
-      else if (energy < 0.3) {
-        label = position > 0.5 ? 'Bridge' : 'Break'
+    const lastFrame = similarityMatrix.length - 1
+    const frameRanges = boundaries.map((boundary) => {
+      const start = Math.min(lastFrame, Math.floor(boundary.startSample / hopSize))
+      return [start, Math.max(start + 1, Math.min(lastFrame + 1, Math.floor(boundary.endSample / hopSize)))]
+    })
+    const maxLag = Math.round((SECTION_ALIGNMENT_TOLERANCE * sampleRate) / hopSize)
+
+    const similarity = frameRanges.map((a, i) =>
+      frameRanges.map((b, j) => (i === j ? 1 : this.sectionSimilarity(similarityMatrix, a, b, maxLag)))
+    )
+    // The matrix is symmetric, so average the two directions of each lag search
+    const symmetric = similarity.map((row, i) => row.map((value, j) => (value + similarity[j][i]) / 2))
+    const { groups, confidence } = clusterSections(symmetric)
+
+    const groupSizes = new Map<number, number>()
+    groups.forEach((group) => groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1))
+
+    const letters = new Map<number, string>()
+    const occurrences = new Map<number, number>()
+
+    return boundaries.map((boundary, index) => {
+      const group = groups[index]
+      const repeats = (groupSizes.get(group) ?? 0) > 1
+      if (!repeats && index === 0 && boundaries.length > 1) {
+        return { ...boundary, label: 'Intro', confidence: confidence[index] }
       }
-      // Default to Verse
-      else {
-        label = 'Verse'
+      if (!repeats && index === boundaries.length - 1 && boundaries.length > 1) {
+        return { ...boundary, label: 'Outro', confidence: confidence[index] }
       }
 
+      if (!letters.has(group)) letters.set(group, String.fromCharCode(65 + letters.size))
+      const letter = letters.get(group)!
+      const occurrence = (occurrences.get(group) ?? 0) + 1
+      occurrences.set(group, occurrence)
+      const name = SECTION_GROUP_NAMES[letter.charCodeAt(0) - 65] ?? `Part ${letter}`
+
       return {
         ...boundary,
-        label: `${label} ${index + 1}`,
-        confidence: energy,
+        label: `${name} ${occurrence}`,
+        group: letter,
+        confidence: confidence[index],
       }
     })
-
-    return labeledBoundaries
   }
 
   /**
-   * Calculate adaptive threshold for peak detection
+   * Mean similarity along the diagonal that lines section a up with section b, taking the best
+   * alignment within maxLag frames so slightly misplaced boundaries still match
    */
-  private calculateThreshold(values: number[], multiplier: number = 1.5): number {
-    if (values.length === 0) return 0
-
-    // Calculate median
-    const sorted = [...values].sort((a, b) => a - b)
-    const median = sorted[Math.floor(sorted.length / 2)]
-
-    // Calculate median absolute deviation
-    const deviations = values.map(v => Math.abs(v - median))
-    const sortedDeviations = deviations.sort((a, b) => a - b)
-    const mad = sortedDeviations[Math.floor(sortedDeviations.length / 2)]
-
-    // Threshold is median + multiplier * MAD
-    return median + multiplier * mad
+  private sectionSimilarity(
+    similarityMatrix: number[][],
+    [aStart, aEnd]: number[],
+    [bStart, bEnd]: number[],
+    maxLag: number
+  ): number {
+    const length = Math.min(aEnd - aStart, bEnd - bStart)
+    if (length <= 0) return 0
+    // Never shift far enough to compare against a neighbouring section instead
+    maxLag = Math.min(maxLag, Math.floor(length / 4))
+    // Sample the diagonal sparsely; neighbouring chroma frames are nearly identical
+    const step = Math.max(1, Math.floor(length / SECTION_SIMILARITY_SAMPLES))
+    const lagStep = Math.max(1, Math.floor(maxLag / 8))
+    const lastFrame = similarityMatrix.length - 1
+
+    let best = -Infinity
+    for (let lag = -maxLag; lag <= maxLag; lag += lagStep) {
+      let sum = 0
+      let count = 0
+      for (let k = 0; k < length; k += step) {
+        const row = aStart + k
+        const column = bStart + k + lag
+        if (column < 0 || column > lastFrame) continue
+        sum += similarityMatrix[row][column]
+        count++
+      }
+      if (count > 0) best = Math.max(best, sum / count)
+    }
+    return best === -Infinity ? 0 : best
   }
 
   private getHannWindow(size: number): Float32Array {
@@ -1,8 +1,29 @@
 import type {
+  BeatResult,
   BPMResult,
+  ChordResult,
+  DrumClassificationResult,
+  KeyDetectionResult,
+  OnsetDetectionOptions,
+  OnsetFunctionResult,
   OnsetResult,
+  SampleRange,
   SongStructureResult,
+  SpectrogramResult,
+  VocalPhraseOptions,
+  VocalPhraseResult,
 } from './audio-analysis-core'
+import {
+  ANALYSIS_VERSION,
+  AnalysisCancelledError,
+  DEFAULT_ONSET_OPTIONS,
+  DEFAULT_VOCAL_PHRASE_OPTIONS,
+  ONSET_CONTEXT_FRAMES,
+  pickOnsets,
+} from './audio-analysis-core'
+import { analysisCache, createCacheKey, hashSamples } from './analysis-cache'
+
+export { AnalysisCancelledError }
 
 interface AudioWorkerRequest {
   id: number
@@ -12,7 +33,7 @@ interface AudioWorkerRequest {
 
 interface AudioWorkerResponse {
   id: number
-  event: 'result' | 'error' | 'progress' | 'initialized'
+  event: 'result' | 'error' | 'progress' | 'initialized' | 'cancelled'
   payload?: any
   error?: { message: string; stack?: string }
 }
@@ -20,74 +41,285 @@ interface AudioWorkerResponse {
 type WorkerCommand =
   | 'INIT'
   | 'DETECT_ONSETS'
+  | 'ONSET_FUNCTION'
   | 'DETECT_BPM'
+  | 'DETECT_BEATS'
+  | 'DETECT_KEY'
+  | 'DETECT_CHORDS'
+  | 'CLASSIFY_DRUMS'
   | 'DETECT_STRUCTURE'
+  | 'DETECT_VOCAL_PHRASES'
+  | 'SPECTROGRAM'
+  | 'CANCEL'
   | 'CLEANUP'
 
+interface RequestOptions {
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+  /** File the job analyses; a newer job for another file, or of the same kind for this file, supersedes it */
+  audioBuffer?: AudioBuffer
+  /** Kind of job the request belongs to when a job is split over several requests; defaults to the command */
+  job?: WorkerCommand
+}
+
+interface PoolWorker {
+  worker: Worker
+  ready: Promise<void> | null // Essentia loaded in this worker
+  jobs: number // requests assigned and not yet settled
+}
+
+interface PendingRequest {
+  job: WorkerCommand
+  slot: PoolWorker
+  fileId?: number
+  resolve: (value: any) => void
+  reject: (reason: any) => void
+  onProgress?: (progress: number) => void
+  dispose: () => void
+}
+
+// Each worker holds its own Essentia instance, so the pool stays small
+const MAX_POOL_SIZE = 4
+
+// Files shorter than this (seconds) are not worth splitting for onset detection
+const CHUNK_MIN_DURATION = 30
+
 const createWorker = () =>
   new Worker(new URL('../workers/essentia-worker.ts', import.meta.url), {
     type: 'module',
   })
 
+/**
+ * Workers to run side by side, leaving one core for the UI
+ */
+const getPoolSize = () => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1))
+}
+
+/**
+ * Split one progress callback into several, reporting their weighted average.
+ * Weights are relative, e.g. the sample length of each chunk.
+ */
+export function combineProgress(
+  weights: number[],
+  onProgress?: (progress: number) => void
+): ((progress: number) => void)[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1
+  const parts = weights.map(() => 0)
+  return weights.map((_, index) => (progress: number) => {
+    parts[index] = progress
+    onProgress?.(parts.reduce((sum, part, i) => sum + part * weights[i], 0) / total)
+  })
+}
+
 class AudioAnalysisWorkerClient {
-  private worker?: Worker
+  private pool: PoolWorker[] = []
+  private poolSize = getPoolSize()
   private initialized = false
   private nextId = 0
-  private pending = new Map<
-    number,
-    {
-      resolve: (value: any) => void
-      reject: (reason: any) => void
-      onProgress?: (progress: number) => void
+  private nextFileId = 0
+  private fileIds = new WeakMap<AudioBuffer, number>()
+  private contentHashes = new WeakMap<AudioBuffer, Promise<string | null>>()
+  private pending = new Map<number, PendingRequest>()
+
+  private createSlot(): PoolWorker {
+    const slot: PoolWorker = { worker: createWorker(), ready: null, jobs: 0 }
+
+    slot.worker.onmessage = (event: MessageEvent<AudioWorkerResponse>) => {
+      const { id, event: type, payload, error } = event.data
+      const request = this.pending.get(id)
+      if (!request) return
+
+      if (type === 'progress') {
+        request.onProgress?.(payload?.progress ?? 0)
+        return
+      }
+
+      this.settle(id)
+      if (type === 'cancelled') {
+        request.reject(new AnalysisCancelledError())
+      } else if (type === 'error') {
+        request.reject(new Error(error?.message || 'Worker error'))
+      } else {
+        request.resolve(payload)
+      }
+    }
+    slot.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      this.handleCrash(slot, new Error(event.message || 'Analysis worker crashed'))
+    }
+    slot.worker.onmessageerror = () => {
+      this.handleCrash(slot, new Error('Analysis worker sent an unreadable message'))
     }
-  >()
 
-  private ensureWorker(): Worker {
-    if (!this.worker) {
-      this.worker = createWorker()
-      this.worker.onmessage = (event: MessageEvent<AudioWorkerResponse>) => {
-        const { id, event: type, payload, error } = event.data
-        const request = this.pending.get(id)
-        if (!request) return
+    this.pool.push(slot)
+    return slot
+  }
 
-        if (type === 'progress') {
-          request.onProgress?.(payload?.progress ?? 0)
-          return
-        }
+  /**
+   * An idle worker, a new one while the pool has room, or else the least busy one
+   */
+  private acquireSlot(): PoolWorker {
+    const idle = this.pool.find((slot) => slot.jobs === 0)
+    if (idle) return idle
+    if (this.pool.length < this.poolSize) return this.createSlot()
+    return this.pool.reduce((best, slot) => (slot.jobs < best.jobs ? slot : best))
+  }
 
-        if (type === 'error') {
-          request.reject(new Error(error?.message || 'Worker error'))
-        } else {
-          request.resolve(payload)
+  private prepareSlot(slot: PoolWorker): Promise<void> {
+    if (!slot.ready) {
+      const ready = this.postToSlot<void>(slot, 'INIT')
+      slot.ready = ready
+      ready.then(
+        () => {
+          this.initialized = true
+        },
+        // Let a later job retry if Essentia failed to load
+        () => {
+          if (slot.ready === ready) slot.ready = null
         }
-        this.pending.delete(id)
-      }
+      )
     }
-    return this.worker
+    return slot.ready
   }
 
+  /**
+   * Drop a dead worker and fail everything it was running; later jobs start a fresh worker
+   */
+  private handleCrash(slot: PoolWorker, error: Error) {
+    console.error('Analysis worker crashed, restarting:', error)
+    slot.worker.terminate()
+    this.pool = this.pool.filter((item) => item !== slot)
+    if (this.pool.length === 0) {
+      this.initialized = false
+    }
+
+    for (const [id, request] of this.pending) {
+      if (request.slot !== slot) continue
+      this.settle(id)
+      request.reject(error)
+    }
+  }
+
+  private settle(id: number) {
+    this.pending.get(id)?.dispose()
+    this.pending.delete(id)
+  }
+
+  private getFileId(audioBuffer: AudioBuffer): number {
+    let fileId = this.fileIds.get(audioBuffer)
+    if (fileId === undefined) {
+      fileId = ++this.nextFileId
+      this.fileIds.set(audioBuffer, fileId)
+    }
+    return fileId
+  }
+
+  /**
+   * Send a control command (INIT, CLEANUP) to one particular worker
+   */
+  private postToSlot<T>(slot: PoolWorker, command: WorkerCommand): Promise<T> {
+    const id = ++this.nextId
+    const promise = new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { job: command, slot, resolve, reject, dispose: () => {} })
+    })
+    slot.worker.postMessage({ id, command } satisfies AudioWorkerRequest)
+    return promise
+  }
+
+  /**
+   * Run a job on a pool worker, loading Essentia there first if needed
+   */
   private sendRequest<T>(
     command: WorkerCommand,
     payload?: any,
     transfer: Transferable[] = [],
-    onProgress?: (progress: number) => void
+    options: RequestOptions = {}
   ): Promise<T> {
-    const worker = this.ensureWorker()
+    const { onProgress, signal, audioBuffer, job = command } = options
+    if (signal?.aborted) {
+      return Promise.reject(new AnalysisCancelledError())
+    }
+
+    const slot = this.acquireSlot()
     const id = ++this.nextId
+    slot.jobs++
 
     const promise = new Promise<T>((resolve, reject) => {
-      this.pending.set(id, { resolve, reject, onProgress })
-      const message: AudioWorkerRequest = { id, command, payload }
-      worker.postMessage(message, transfer)
+      const onAbort = () => this.cancel(id)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(id, {
+        job,
+        slot,
+        fileId: audioBuffer ? this.getFileId(audioBuffer) : undefined,
+        resolve,
+        reject,
+        onProgress,
+        dispose: () => {
+          signal?.removeEventListener('abort', onAbort)
+          slot.jobs--
+        },
+      })
     })
 
+    // A job cancelled while its worker was still loading is never sent
+    this.prepareSlot(slot).then(
+      () => {
+        if (!this.pending.has(id)) return
+        const message: AudioWorkerRequest = { id, command, payload }
+        slot.worker.postMessage(message, transfer)
+      },
+      (error) => {
+        const request = this.pending.get(id)
+        if (!request) return
+        this.settle(id)
+        request.reject(error)
+      }
+    )
+
     return promise
   }
 
+  /**
+   * Cancel jobs made stale by a new one: anything for another file, and the same kind of job for this file
+   */
+  private supersede(job: WorkerCommand, fileId: number) {
+    for (const [id, request] of this.pending) {
+      if (request.fileId === undefined) continue
+      if (request.fileId !== fileId || request.job === job) {
+        this.cancel(id)
+      }
+    }
+  }
+
+  /**
+   * Reject a job straight away and ask its worker to stop working on it
+   */
+  private cancel(id: number) {
+    const request = this.pending.get(id)
+    if (!request) return
+
+    this.settle(id)
+    request.slot.worker.postMessage({ id: ++this.nextId, command: 'CANCEL', payload: { id } } satisfies AudioWorkerRequest)
+    request.reject(new AnalysisCancelledError())
+  }
+
+  /**
+   * Cancel every running analysis job, e.g. when a new file replaces the current one
+   */
+  cancelAll(): void {
+    for (const [id, request] of this.pending) {
+      if (request.job !== 'INIT' && request.job !== 'CLEANUP') {
+        this.cancel(id)
+      }
+    }
+  }
+
   async initialize(): Promise<void> {
     if (this.initialized) return
-    await this.sendRequest('INIT')
-    this.initialized = true
+    await this.prepareSlot(this.pool[0] ?? this.createSlot())
   }
 
   isAvailable(): boolean {
@@ -95,15 +327,21 @@ class AudioAnalysisWorkerClient {
   }
 
   async cleanup(): Promise<void> {
-    if (!this.worker) return
-    try {
-      await this.sendRequest('CLEANUP')
-    } finally {
-      this.worker.terminate()
-      this.worker = undefined
-      this.initialized = false
-      this.pending.clear()
-    }
+    const pool = this.pool
+    this.pool = []
+    this.initialized = false
+
+    await Promise.all(
+      pool.map(async (slot) => {
+        try {
+          await this.postToSlot(slot, 'CLEANUP')
+        } finally {
+          slot.worker.terminate()
+        }
+      })
+    )
+    this.pending.forEach((request) => request.dispose())
+    this.pending.clear()
   }
 
   private audioBufferToMono(audioBuffer: AudioBuffer) {
@@ -126,40 +364,276 @@ class AudioAnalysisWorkerClient {
     }
   }
 
+  /**
+   * Content hash of the decoded audio, computed once per buffer; null when hashing is unavailable
+   */
+  private getContentHash(audioBuffer: AudioBuffer): Promise<string | null> {
+    let hash = this.contentHashes.get(audioBuffer)
+    if (!hash) {
+      const { samples, sampleRate } = this.audioBufferToMono(audioBuffer)
+      hash = hashSamples(samples)
+        .then((digest) => `${digest}@${sampleRate}`)
+        .catch((error) => {
+          console.warn('Could not hash audio for the analysis cache:', error)
+          return null
+        })
+      this.contentHashes.set(audioBuffer, hash)
+    }
+    return hash
+  }
+
+  private async getCacheKey(
+    command: WorkerCommand,
+    audioBuffer: AudioBuffer,
+    params: Record<string, unknown>
+  ): Promise<string | null> {
+    if (!analysisCache.isAvailable()) return null
+    const hash = await this.getContentHash(audioBuffer)
+    return hash ? createCacheKey(hash, command, ANALYSIS_VERSION, params) : null
+  }
+
+  /**
+   * Run an analysis command, answering from the cache when this file was analysed with the same parameters.
+   * `compute` replaces the single worker request for jobs split across the pool.
+   */
+  private async analyze<T>(
+    command: WorkerCommand,
+    audioBuffer: AudioBuffer,
+    params: Record<string, unknown>,
+    options: Pick<RequestOptions, 'onProgress' | 'signal'> = {},
+    compute?: () => Promise<T>
+  ): Promise<T> {
+    const { onProgress, signal } = options
+    const cacheKey = await this.getCacheKey(command, audioBuffer, params)
+
+    if (cacheKey) {
+      const cached = await analysisCache.get<T>(cacheKey).catch((error) => {
+        console.warn('Analysis cache read failed:', error)
+        return undefined
+      })
+      if (cached !== undefined) {
+        if (signal?.aborted) throw new AnalysisCancelledError()
+        this.supersede(command, this.getFileId(audioBuffer))
+        onProgress?.(1)
+        return cached
+      }
+    }
+
+    this.supersede(command, this.getFileId(audioBuffer))
+
+    const run =
+      compute ??
+      (() => {
+        const { samples, sampleRate, duration } = this.audioBufferToMono(audioBuffer)
+        return this.sendRequest<T>(
+          command,
+          { samples, sampleRate, duration, options: params },
+          [samples.buffer],
+          { onProgress, signal, audioBuffer }
+        )
+      })
+    const result = await run()
+
+    if (cacheKey) {
+      analysisCache.set(cacheKey, result).catch((error) => console.warn('Analysis cache write failed:', error))
+    }
+    return result
+  }
+
   async detectOnsets(
     audioBuffer: AudioBuffer,
-    options: {
+    options: OnsetDetectionOptions & {
       sensitivity?: number
       minDistance?: number
       onProgress?: (progress: number) => void
+      signal?: AbortSignal
     } = {}
   ): Promise<OnsetResult> {
-    await this.initialize()
+    const {
+      sensitivity = 0.5,
+      minDistance = 0.05,
+      method = DEFAULT_ONSET_OPTIONS.method,
+      frameSize = DEFAULT_ONSET_OPTIONS.frameSize,
+      hopSize = DEFAULT_ONSET_OPTIONS.hopSize,
+      preEmphasis = DEFAULT_ONSET_OPTIONS.preEmphasis,
+      adaptiveThreshold = DEFAULT_ONSET_OPTIONS.adaptiveThreshold,
+      backtrack = DEFAULT_ONSET_OPTIONS.backtrack,
+      onProgress,
+      signal,
+    } = options
+    const params = { sensitivity, minDistance, method, frameSize, hopSize, preEmphasis, adaptiveThreshold, backtrack }
 
+    // Long files are split across the pool; short ones are not worth the extra copies
+    const compute =
+      this.poolSize > 1 && audioBuffer.duration >= CHUNK_MIN_DURATION
+        ? () => this.detectOnsetsInChunks(audioBuffer, params, { onProgress, signal })
+        : undefined
+
+    return this.analyze<OnsetResult>('DETECT_ONSETS', audioBuffer, params, { onProgress, signal }, compute)
+  }
+
+  /**
+   * Compute the onset function of a long file in overlapping chunks on several workers, then
+   * peak-pick the joined function once so the result matches a single-worker run.
+   */
+  private async detectOnsetsInChunks(
+    audioBuffer: AudioBuffer,
+    params: Required<OnsetDetectionOptions> & { sensitivity: number; minDistance: number },
+    options: Pick<RequestOptions, 'onProgress' | 'signal'>
+  ): Promise<OnsetResult> {
+    const { onProgress, signal } = options
     const { samples, sampleRate } = this.audioBufferToMono(audioBuffer)
-    const { sensitivity = 0.5, minDistance = 0.05, onProgress } = options
-
-    return this.sendRequest<OnsetResult>(
-      'DETECT_ONSETS',
-      {
-        samples,
-        sampleRate,
-        options: { sensitivity, minDistance },
-      },
-      [samples.buffer],
+    const { method, frameSize, hopSize, preEmphasis, ...pickOptions } = params
+
+    const totalFrames = Math.floor((samples.length - frameSize) / hopSize) + 1
+    const chunkCount = Math.min(this.poolSize, Math.ceil(audioBuffer.duration / CHUNK_MIN_DURATION))
+    const framesPerChunk = Math.ceil(totalFrames / chunkCount)
+    const chunks = Array.from({ length: chunkCount }, (_, index) => ({
+      start: index * framesPerChunk,
+      end: Math.min(totalFrames, (index + 1) * framesPerChunk),
+    })).filter((chunk) => chunk.end > chunk.start)
+
+    // One failed chunk stops the others
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort, { once: true })
+    const progress = combineProgress(
+      chunks.map((chunk) => chunk.end - chunk.start),
       onProgress
     )
+
+    try {
+      const parts = await Promise.all(
+        chunks.map((chunk, index) => {
+          // Start early enough that the chunk's first value sees the frames it depends on, plus one
+          // more frame so pre-emphasis has a previous sample; run one frame past the last hop so
+          // every frame is complete
+          const leadFrame = Math.max(0, chunk.start - ONSET_CONTEXT_FRAMES - 1)
+          const chunkSamples = samples.slice(leadFrame * hopSize, (chunk.end - 1) * hopSize + frameSize)
+
+          return this.sendRequest<OnsetFunctionResult>(
+            'ONSET_FUNCTION',
+            { samples: chunkSamples, sampleRate, options: { method, frameSize, hopSize, preEmphasis } },
+            [chunkSamples.buffer],
+            { onProgress: progress[index], signal: controller.signal, audioBuffer, job: 'DETECT_ONSETS' }
+          )
+            .then((result) => ({
+              values: result.values.slice(chunk.start - leadFrame),
+              energy: result.energy.slice(chunk.start - leadFrame),
+            }))
+            .catch((error) => {
+              controller.abort()
+              throw error
+            })
+        })
+      )
+
+      return pickOnsets(
+        parts.flatMap((part) => part.values),
+        { sampleRate, hopSize, energy: parts.flatMap((part) => part.energy), ...pickOptions }
+      )
+    } finally {
+      signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  /**
+   * The onset detection function and frame energy on their own, for display
+   */
+  async computeOnsetFunction(
+    audioBuffer: AudioBuffer,
+    options: Pick<OnsetDetectionOptions, 'method' | 'frameSize' | 'hopSize' | 'preEmphasis'> & {
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<OnsetFunctionResult> {
+    const {
+      method = DEFAULT_ONSET_OPTIONS.method,
+      frameSize = DEFAULT_ONSET_OPTIONS.frameSize,
+      hopSize = DEFAULT_ONSET_OPTIONS.hopSize,
+      preEmphasis = DEFAULT_ONSET_OPTIONS.preEmphasis,
+      onProgress,
+      signal,
+    } = options
+
+    return this.analyze<OnsetFunctionResult>(
+      'ONSET_FUNCTION',
+      audioBuffer,
+      { method, frameSize, hopSize, preEmphasis },
+      { onProgress, signal }
+    )
   }
 
-  async detectBPM(audioBuffer: AudioBuffer): Promise<BPMResult> {
-    await this.initialize()
+  async detectBPM(
+    audioBuffer: AudioBuffer,
+    options: {
+      signal?: AbortSignal
+    } = {}
+  ): Promise<BPMResult> {
+    const { signal } = options
 
-    const { samples, sampleRate } = this.audioBufferToMono(audioBuffer)
+    return this.analyze<BPMResult>('DETECT_BPM', audioBuffer, {}, { signal })
+  }
+
+  async detectBeats(
+    audioBuffer: AudioBuffer,
+    options: {
+      beatsPerBar?: number
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<BeatResult> {
+    const { beatsPerBar = 4, onProgress, signal } = options
 
-    return this.sendRequest<BPMResult>(
-      'DETECT_BPM',
-      { samples, sampleRate },
-      [samples.buffer]
+    return this.analyze<BeatResult>('DETECT_BEATS', audioBuffer, { beatsPerBar }, { onProgress, signal })
+  }
+
+  async detectKey(
+    audioBuffer: AudioBuffer,
+    options: {
+      ranges?: SampleRange[]
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<KeyDetectionResult> {
+    const { ranges = [], onProgress, signal } = options
+
+    return this.analyze<KeyDetectionResult>(
+      'DETECT_KEY',
+      audioBuffer,
+      { ranges: ranges.map(({ startSample, endSample }) => ({ startSample, endSample })) },
+      { onProgress, signal }
+    )
+  }
+
+  async detectChords(
+    audioBuffer: AudioBuffer,
+    options: {
+      segmentDuration?: number
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<ChordResult> {
+    const { segmentDuration = 0.5, onProgress, signal } = options
+
+    return this.analyze<ChordResult>('DETECT_CHORDS', audioBuffer, { segmentDuration }, { onProgress, signal })
+  }
+
+  async classifyDrumHits(
+    audioBuffer: AudioBuffer,
+    options: {
+      ranges?: SampleRange[]
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<DrumClassificationResult> {
+    const { ranges = [], onProgress, signal } = options
+
+    return this.analyze<DrumClassificationResult>(
+      'CLASSIFY_DRUMS',
+      audioBuffer,
+      { ranges: ranges.map(({ startSample, endSample }) => ({ startSample, endSample })) },
+      { onProgress, signal }
     )
   }
 
@@ -169,25 +643,57 @@ class AudioAnalysisWorkerClient {
       maxSections?: number
       minSectionDuration?: number
       onProgress?: (progress: number) => void
+      signal?: AbortSignal
     } = {}
   ): Promise<SongStructureResult> {
-    await this.initialize()
-
-    const { samples, sampleRate, duration } = this.audioBufferToMono(audioBuffer)
-    const { maxSections = 8, minSectionDuration = 5, onProgress } = options
+    const { maxSections = 8, minSectionDuration = 5, onProgress, signal } = options
 
-    return this.sendRequest<SongStructureResult>(
+    return this.analyze<SongStructureResult>(
       'DETECT_STRUCTURE',
-      {
-        samples,
-        sampleRate,
-        duration,
-        options: { maxSections, minSectionDuration },
-      },
-      [samples.buffer],
-      onProgress
+      audioBuffer,
+      { maxSections, minSectionDuration },
+      { onProgress, signal }
+    )
+  }
+
+  async detectVocalPhrases(
+    audioBuffer: AudioBuffer,
+    options: VocalPhraseOptions & {
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<VocalPhraseResult> {
+    const { onProgress, signal, ...phraseOptions } = options
+
+    return this.analyze<VocalPhraseResult>(
+      'DETECT_VOCAL_PHRASES',
+      audioBuffer,
+      { ...DEFAULT_VOCAL_PHRASE_OPTIONS, ...phraseOptions },
+      { onProgress, signal }
     )
   }
+
+  async computeSpectrogram(
+    audioBuffer: AudioBuffer,
+    options: {
+      columns?: number
+      bands?: number
+      onProgress?: (progress: number) => void
+      signal?: AbortSignal
+    } = {}
+  ): Promise<SpectrogramResult> {
+    const { columns = 1024, bands = 160, onProgress, signal } = options
+
+    return this.analyze<SpectrogramResult>('SPECTROGRAM', audioBuffer, { columns, bands }, { onProgress, signal })
+  }
+
+  /**
+   * Forget every cached analysis result
+   */
+  async clearCache(): Promise<void> {
+    if (!analysisCache.isAvailable()) return
+    await analysisCache.clear()
+  }
 }
 
 export const audioAnalysisService = new AudioAnalysisWorkerClient()
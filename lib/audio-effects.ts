@@ -0,0 +1,707 @@
+/**
+ * Audio Effects - Insert effect graph and parameter descriptors for the sampler
+ */
+
+export type EffectType = "reverb" | "delay" | "filter" | "compressor" | "distortion" | "bitcrusher"
+
+export interface EffectParameterDescriptor {
+  id: string
+  name: string
+  min: number
+  max: number
+  step: number
+  defaultValue: number
+  unit?: string
+  scale?: "linear" | "log" // how a slider should map onto the range
+  valueLabels?: string[] // discrete parameters: label for each integer value from min
+}
+
+export interface EffectDescriptor {
+  type: EffectType
+  name: string
+  parameters: EffectParameterDescriptor[]
+}
+
+// Serializable state of one effect in the chain (order of the array is the signal order)
+export interface EffectState {
+  id: string
+  type: EffectType
+  enabled: boolean
+  parameters: Record<string, number>
+}
+
+export const EFFECT_DESCRIPTORS: Record<EffectType, EffectDescriptor> = {
+  reverb: {
+    type: "reverb",
+    name: "Reverb",
+    parameters: [
+      { id: "size", name: "Size", min: 0, max: 100, step: 1, defaultValue: 50, unit: "%" },
+      { id: "decay", name: "Decay", min: 0, max: 100, step: 1, defaultValue: 30, unit: "%" },
+      { id: "mix", name: "Mix", min: 0, max: 100, step: 1, defaultValue: 40, unit: "%" },
+    ],
+  },
+  delay: {
+    type: "delay",
+    name: "Delay",
+    parameters: [
+      { id: "time", name: "Time", min: 10, max: 2000, step: 1, defaultValue: 120, unit: "ms" },
+      { id: "feedback", name: "Feedback", min: 0, max: 95, step: 1, defaultValue: 40, unit: "%" },
+      { id: "mix", name: "Mix", min: 0, max: 100, step: 1, defaultValue: 50, unit: "%" },
+    ],
+  },
+  filter: {
+    type: "filter",
+    name: "Filter",
+    parameters: [
+      {
+        id: "mode",
+        name: "Mode",
+        min: 0,
+        max: 2,
+        step: 1,
+        defaultValue: 0,
+        valueLabels: ["Low-pass", "High-pass", "Band-pass"],
+      },
+      { id: "cutoff", name: "Cutoff", min: 20, max: 20000, step: 1, defaultValue: 8000, unit: "Hz", scale: "log" },
+      { id: "resonance", name: "Resonance", min: 0.1, max: 20, step: 0.1, defaultValue: 0.7 },
+    ],
+  },
+  compressor: {
+    type: "compressor",
+    name: "Compressor",
+    parameters: [
+      { id: "threshold", name: "Threshold", min: -60, max: 0, step: 1, defaultValue: -24, unit: "dB" },
+      { id: "ratio", name: "Ratio", min: 1, max: 20, step: 0.5, defaultValue: 4, unit: ":1" },
+      { id: "attack", name: "Attack", min: 0, max: 200, step: 1, defaultValue: 3, unit: "ms" },
+      { id: "release", name: "Release", min: 10, max: 1000, step: 10, defaultValue: 250, unit: "ms" },
+      { id: "makeup", name: "Makeup", min: 0, max: 24, step: 0.5, defaultValue: 0, unit: "dB" },
+    ],
+  },
+  distortion: {
+    type: "distortion",
+    name: "Distortion",
+    parameters: [
+      { id: "drive", name: "Drive", min: 0, max: 100, step: 1, defaultValue: 30, unit: "%" },
+      { id: "tone", name: "Tone", min: 500, max: 16000, step: 1, defaultValue: 6000, unit: "Hz", scale: "log" },
+      { id: "mix", name: "Mix", min: 0, max: 100, step: 1, defaultValue: 100, unit: "%" },
+    ],
+  },
+  bitcrusher: {
+    type: "bitcrusher",
+    name: "Bitcrusher",
+    parameters: [
+      { id: "bits", name: "Bits", min: 1, max: 16, step: 1, defaultValue: 8 },
+      { id: "downsample", name: "Downsample", min: 1, max: 32, step: 1, defaultValue: 4, unit: "x" },
+      { id: "mix", name: "Mix", min: 0, max: 100, step: 1, defaultValue: 100, unit: "%" },
+    ],
+  },
+}
+
+// Get the descriptor for an effect type
+export function getEffectDescriptor(type: EffectType): EffectDescriptor {
+  return EFFECT_DESCRIPTORS[type]
+}
+
+// Create effect state with every parameter at its default
+export function createEffectState(type: EffectType, id: string, enabled = false): EffectState {
+  const parameters: Record<string, number> = {}
+  EFFECT_DESCRIPTORS[type].parameters.forEach((param) => {
+    parameters[param.id] = param.defaultValue
+  })
+  return { id, type, enabled, parameters }
+}
+
+// Format a parameter value for display
+export function formatEffectParameter(param: EffectParameterDescriptor, value: number): string {
+  if (param.valueLabels) {
+    return param.valueLabels[Math.round(value - param.min)] ?? String(value)
+  }
+  if (param.unit === "Hz" && value >= 1000) {
+    return `${(value / 1000).toFixed(1)} kHz`
+  }
+  const decimals = param.step < 1 ? 1 : 0
+  const unit = param.unit ? (param.unit === "%" || param.unit === ":1" || param.unit === "x" ? param.unit : ` ${param.unit}`) : ""
+  return `${value.toFixed(decimals)}${unit}`
+}
+
+// Map a 0-1 control value (e.g. a MIDI CC) onto a parameter's range, honouring its scale and step
+export function denormalizeEffectParameter(param: EffectParameterDescriptor, normalized: number): number {
+  const amount = Math.min(1, Math.max(0, normalized))
+  const value =
+    param.scale === "log"
+      ? param.min * Math.pow(param.max / param.min, amount)
+      : param.min + (param.max - param.min) * amount
+  const stepped = Math.round(value / param.step) * param.step
+  return Math.min(param.max, Math.max(param.min, Number(stepped.toFixed(4))))
+}
+
+// Longest tail the effects chain can add after the dry signal ends (seconds), for offline rendering
+export function estimateEffectsTail(effects: EffectState[]): number {
+  let tail = 0
+
+  effects.forEach((effect) => {
+    if (!effect.enabled) return
+    if (effect.type === "reverb") {
+      tail += 0.3 + (readParameter("reverb", effect.parameters, "size") / 100) * 5.7
+    } else if (effect.type === "delay") {
+      // Time for the feedback loop to fall 60 dB
+      const time = readParameter("delay", effect.parameters, "time") / 1000
+      const feedback = readParameter("delay", effect.parameters, "feedback") / 100
+      const repeats = feedback > 0.01 ? Math.log(0.001) / Math.log(feedback) : 1
+      tail += time * Math.max(1, repeats)
+    }
+  })
+
+  return Math.min(10, tail)
+}
+
+// Read a parameter, falling back to its default
+function readParameter(type: EffectType, params: Record<string, number>, id: string): number {
+  const value = params[id]
+  if (typeof value === "number" && !Number.isNaN(value)) return value
+  const descriptor = EFFECT_DESCRIPTORS[type].parameters.find((param) => param.id === id)
+  return descriptor ? descriptor.defaultValue : 0
+}
+
+// Parameter smoothing time constant (seconds)
+const PARAM_SMOOTHING = 0.01
+
+function smoothParam(param: AudioParam, value: number, time: number): void {
+  param.setTargetAtTime(value, time, PARAM_SMOOTHING)
+}
+
+interface EffectProcessor {
+  input: AudioNode
+  output: AudioNode
+  setParameters(params: Record<string, number>, time: number): void
+  dispose(): void
+}
+
+// Dry/wet pair shared by the effects that expose a Mix parameter
+class MixStage {
+  readonly input: GainNode
+  readonly output: GainNode
+  private dry: GainNode
+  private wet: GainNode
+
+  constructor(context: BaseAudioContext, wetSource: AudioNode, wetDestination: AudioNode) {
+    this.input = context.createGain()
+    this.output = context.createGain()
+    this.dry = context.createGain()
+    this.wet = context.createGain()
+
+    this.input.connect(this.dry)
+    this.dry.connect(this.output)
+    this.input.connect(wetSource)
+    wetDestination.connect(this.wet)
+    this.wet.connect(this.output)
+  }
+
+  setMix(mix: number, time: number): void {
+    const wet = Math.min(1, Math.max(0, mix / 100))
+    smoothParam(this.dry.gain, 1 - wet, time)
+    smoothParam(this.wet.gain, wet, time)
+  }
+
+  dispose(): void {
+    this.input.disconnect()
+    this.dry.disconnect()
+    this.wet.disconnect()
+    this.output.disconnect()
+  }
+}
+
+// Decaying stereo noise used as the reverb impulse response
+function createImpulseResponse(context: BaseAudioContext, duration: number, decay: number): AudioBuffer {
+  const length = Math.max(1, Math.floor(context.sampleRate * duration))
+  const impulse = context.createBuffer(2, length, context.sampleRate)
+
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel)
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay)
+    }
+  }
+
+  return impulse
+}
+
+class ReverbProcessor implements EffectProcessor {
+  private convolver: ConvolverNode
+  private mixStage: MixStage
+  private impulseKey = ""
+
+  constructor(private context: BaseAudioContext) {
+    this.convolver = context.createConvolver()
+    this.mixStage = new MixStage(context, this.convolver, this.convolver)
+  }
+
+  get input(): AudioNode {
+    return this.mixStage.input
+  }
+
+  get output(): AudioNode {
+    return this.mixStage.output
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    const size = readParameter("reverb", params, "size")
+    const decay = readParameter("reverb", params, "decay")
+
+    // Only regenerate the impulse response when its shape changes
+    const key = `${size}:${decay}`
+    if (key !== this.impulseKey) {
+      this.impulseKey = key
+      const duration = 0.3 + (size / 100) * 5.7
+      const exponent = 1 + (decay / 100) * 9
+      this.convolver.buffer = createImpulseResponse(this.context, duration, exponent)
+    }
+
+    this.mixStage.setMix(readParameter("reverb", params, "mix"), time)
+  }
+
+  dispose(): void {
+    this.convolver.disconnect()
+    this.mixStage.dispose()
+  }
+}
+
+class DelayProcessor implements EffectProcessor {
+  private delay: DelayNode
+  private feedback: GainNode
+  private damping: BiquadFilterNode
+  private mixStage: MixStage
+
+  constructor(context: BaseAudioContext) {
+    this.delay = context.createDelay(2.5)
+    this.feedback = context.createGain()
+    this.damping = context.createBiquadFilter()
+    this.damping.type = "lowpass"
+    this.damping.frequency.value = 6000
+
+    // Feedback loop: delay -> damping -> feedback -> delay
+    this.delay.connect(this.damping)
+    this.damping.connect(this.feedback)
+    this.feedback.connect(this.delay)
+
+    this.mixStage = new MixStage(context, this.delay, this.delay)
+  }
+
+  get input(): AudioNode {
+    return this.mixStage.input
+  }
+
+  get output(): AudioNode {
+    return this.mixStage.output
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    smoothParam(this.delay.delayTime, readParameter("delay", params, "time") / 1000, time)
+    smoothParam(this.feedback.gain, readParameter("delay", params, "feedback") / 100, time)
+    this.mixStage.setMix(readParameter("delay", params, "mix"), time)
+  }
+
+  dispose(): void {
+    this.delay.disconnect()
+    this.damping.disconnect()
+    this.feedback.disconnect()
+    this.mixStage.dispose()
+  }
+}
+
+const FILTER_MODES: BiquadFilterType[] = ["lowpass", "highpass", "bandpass"]
+
+class FilterProcessor implements EffectProcessor {
+  private filter: BiquadFilterNode
+
+  constructor(context: BaseAudioContext) {
+    this.filter = context.createBiquadFilter()
+  }
+
+  get input(): AudioNode {
+    return this.filter
+  }
+
+  get output(): AudioNode {
+    return this.filter
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    const mode = FILTER_MODES[Math.round(readParameter("filter", params, "mode"))] || "lowpass"
+    if (this.filter.type !== mode) {
+      this.filter.type = mode
+    }
+    smoothParam(this.filter.frequency, readParameter("filter", params, "cutoff"), time)
+    smoothParam(this.filter.Q, readParameter("filter", params, "resonance"), time)
+  }
+
+  dispose(): void {
+    this.filter.disconnect()
+  }
+}
+
+class CompressorProcessor implements EffectProcessor {
+  private compressor: DynamicsCompressorNode
+  private makeup: GainNode
+
+  constructor(context: BaseAudioContext) {
+    this.compressor = context.createDynamicsCompressor()
+    this.makeup = context.createGain()
+    this.compressor.connect(this.makeup)
+  }
+
+  get input(): AudioNode {
+    return this.compressor
+  }
+
+  get output(): AudioNode {
+    return this.makeup
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    smoothParam(this.compressor.threshold, readParameter("compressor", params, "threshold"), time)
+    smoothParam(this.compressor.ratio, readParameter("compressor", params, "ratio"), time)
+    smoothParam(this.compressor.attack, readParameter("compressor", params, "attack") / 1000, time)
+    smoothParam(this.compressor.release, readParameter("compressor", params, "release") / 1000, time)
+    smoothParam(this.makeup.gain, Math.pow(10, readParameter("compressor", params, "makeup") / 20), time)
+  }
+
+  dispose(): void {
+    this.compressor.disconnect()
+    this.makeup.disconnect()
+  }
+}
+
+// Normalised tanh saturation curve
+function createDistortionCurve(drive: number) {
+  const samples = 2048
+  const curve = new Float32Array(samples)
+  const k = 1 + (drive / 100) * 49
+  const normaliser = Math.tanh(k)
+
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / (samples - 1) - 1
+    curve[i] = Math.tanh(k * x) / normaliser
+  }
+
+  return curve
+}
+
+class DistortionProcessor implements EffectProcessor {
+  private shaper: WaveShaperNode
+  private tone: BiquadFilterNode
+  private mixStage: MixStage
+  private drive = -1
+
+  constructor(context: BaseAudioContext) {
+    this.shaper = context.createWaveShaper()
+    this.shaper.oversample = "4x"
+    this.tone = context.createBiquadFilter()
+    this.tone.type = "lowpass"
+    this.shaper.connect(this.tone)
+    this.mixStage = new MixStage(context, this.shaper, this.tone)
+  }
+
+  get input(): AudioNode {
+    return this.mixStage.input
+  }
+
+  get output(): AudioNode {
+    return this.mixStage.output
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    const drive = readParameter("distortion", params, "drive")
+    if (drive !== this.drive) {
+      this.drive = drive
+      this.shaper.curve = createDistortionCurve(drive)
+    }
+    smoothParam(this.tone.frequency, readParameter("distortion", params, "tone"), time)
+    this.mixStage.setMix(readParameter("distortion", params, "mix"), time)
+  }
+
+  dispose(): void {
+    this.shaper.disconnect()
+    this.tone.disconnect()
+    this.mixStage.dispose()
+  }
+}
+
+// Staircase curve used when the bitcrusher worklet is unavailable (bit depth only)
+function createQuantizeCurve(bits: number) {
+  const samples = 4096
+  const curve = new Float32Array(samples)
+  const levels = Math.pow(2, bits - 1)
+
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / (samples - 1) - 1
+    curve[i] = Math.round(x * levels) / levels
+  }
+
+  return curve
+}
+
+class BitcrusherProcessor implements EffectProcessor {
+  private crusher: AudioWorkletNode | null = null
+  private fallback: WaveShaperNode | null = null
+  private mixStage: MixStage
+  private bits = -1
+
+  constructor(context: BaseAudioContext) {
+    let crushNode: AudioNode
+    try {
+      this.crusher = new AudioWorkletNode(context, "bitcrusher-processor")
+      crushNode = this.crusher
+    } catch (error) {
+      // Processor not registered: quantize with a wave shaper instead (no sample-rate reduction)
+      this.fallback = context.createWaveShaper()
+      crushNode = this.fallback
+    }
+    this.mixStage = new MixStage(context, crushNode, crushNode)
+  }
+
+  get input(): AudioNode {
+    return this.mixStage.input
+  }
+
+  get output(): AudioNode {
+    return this.mixStage.output
+  }
+
+  setParameters(params: Record<string, number>, time: number): void {
+    const bits = readParameter("bitcrusher", params, "bits")
+    const downsample = readParameter("bitcrusher", params, "downsample")
+
+    if (this.crusher) {
+      this.crusher.parameters.get("bits")?.setValueAtTime(bits, time)
+      this.crusher.parameters.get("downsample")?.setValueAtTime(downsample, time)
+    } else if (this.fallback && bits !== this.bits) {
+      this.fallback.curve = createQuantizeCurve(bits)
+    }
+    this.bits = bits
+
+    this.mixStage.setMix(readParameter("bitcrusher", params, "mix"), time)
+  }
+
+  dispose(): void {
+    this.crusher?.disconnect()
+    this.fallback?.disconnect()
+    this.mixStage.dispose()
+  }
+}
+
+function createEffectProcessor(context: BaseAudioContext, type: EffectType): EffectProcessor {
+  switch (type) {
+    case "reverb":
+      return new ReverbProcessor(context)
+    case "delay":
+      return new DelayProcessor(context)
+    case "filter":
+      return new FilterProcessor(context)
+    case "compressor":
+      return new CompressorProcessor(context)
+    case "distortion":
+      return new DistortionProcessor(context)
+    case "bitcrusher":
+      return new BitcrusherProcessor(context)
+  }
+}
+
+// Time after a bypass crossfade starts before the processor is disconnected (seconds)
+const BYPASS_DETACH_DELAY = PARAM_SMOOTHING * 10
+
+// One insert position: crossfades between the processor and a bypass path; a bypassed
+// processor is disconnected from the input so it stops doing work
+class EffectSlot {
+  readonly input: GainNode
+  readonly output: GainNode
+  private bypass: GainNode
+  private send: GainNode
+  private processor: EffectProcessor
+  private enabled: boolean | null = null
+  private sendConnected = false
+  private detachTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private context: BaseAudioContext,
+    readonly type: EffectType,
+  ) {
+    this.input = context.createGain()
+    this.output = context.createGain()
+    this.bypass = context.createGain()
+    this.send = context.createGain()
+    this.processor = createEffectProcessor(context, type)
+
+    this.input.connect(this.bypass)
+    this.bypass.connect(this.output)
+    this.input.connect(this.send)
+    this.processor.output.connect(this.output)
+  }
+
+  apply(state: EffectState, immediate: boolean): void {
+    const time = this.context.currentTime
+    this.processor.setParameters(state.parameters, time)
+
+    if (state.enabled !== this.enabled) {
+      const processed = state.enabled ? 1 : 0
+      if (state.enabled) this.attachProcessor()
+      if (immediate || this.enabled === null) {
+        this.send.gain.value = processed
+        this.bypass.gain.value = 1 - processed
+        if (!state.enabled) this.detachProcessor()
+      } else {
+        smoothParam(this.send.gain, processed, time)
+        smoothParam(this.bypass.gain, 1 - processed, time)
+        // Once the crossfade has settled, stop feeding the processor so it goes idle
+        if (!state.enabled) {
+          this.detachTimer = setTimeout(() => this.detachProcessor(), BYPASS_DETACH_DELAY * 1000)
+        }
+      }
+      this.enabled = state.enabled
+    }
+  }
+
+  // Feed the processor; cancels a pending detach
+  private attachProcessor(): void {
+    if (this.detachTimer) {
+      clearTimeout(this.detachTimer)
+      this.detachTimer = null
+    }
+    if (!this.sendConnected) {
+      this.send.connect(this.processor.input)
+      this.sendConnected = true
+    }
+  }
+
+  // Take a bypassed processor out of the signal path; its output stays connected so tails ring out
+  private detachProcessor(): void {
+    this.detachTimer = null
+    if (this.sendConnected) {
+      this.send.disconnect()
+      this.sendConnected = false
+    }
+  }
+
+  dispose(): void {
+    if (this.detachTimer) {
+      clearTimeout(this.detachTimer)
+      this.detachTimer = null
+    }
+    this.input.disconnect()
+    this.bypass.disconnect()
+    this.send.disconnect()
+    this.processor.dispose()
+    this.output.disconnect()
+  }
+}
+
+// Time to fade the chain out around a rewire (seconds)
+const REWIRE_FADE = 0.015
+
+/**
+ * Serial chain of insert effects between `input` and `output`.
+ * Works on any BaseAudioContext, so the same chain can be built for offline rendering.
+ */
+export class EffectsChain {
+  readonly input: GainNode
+  readonly output: GainNode
+  private slots: Map<string, EffectSlot> = new Map()
+  private order: string[] = []
+  private wired = false
+  private rewireTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private context: BaseAudioContext) {
+    this.input = context.createGain()
+    this.output = context.createGain()
+    this.input.connect(this.output)
+  }
+
+  // Bring the graph in line with `effects`; order of the array is the signal order
+  update(effects: EffectState[]): void {
+    const realtime = typeof AudioContext !== "undefined" && this.context instanceof AudioContext
+    const nextOrder = effects.map((effect) => effect.id)
+    let orderChanged = nextOrder.join("|") !== this.order.join("|")
+
+    // Drop slots that are gone or changed type
+    this.slots.forEach((slot, id) => {
+      const effect = effects.find((item) => item.id === id)
+      if (!effect || effect.type !== slot.type) {
+        orderChanged = true
+        this.retireSlot(slot, realtime)
+        this.slots.delete(id)
+      }
+    })
+
+    effects.forEach((effect) => {
+      let slot = this.slots.get(effect.id)
+      if (!slot) {
+        slot = new EffectSlot(this.context, effect.type)
+        this.slots.set(effect.id, slot)
+        orderChanged = true
+      }
+      slot.apply(effect, !realtime)
+    })
+
+    if (orderChanged) {
+      this.order = nextOrder
+      this.rewire(realtime && this.wired)
+    }
+  }
+
+  dispose(): void {
+    if (this.rewireTimer) {
+      clearTimeout(this.rewireTimer)
+      this.rewireTimer = null
+    }
+    this.slots.forEach((slot) => slot.dispose())
+    this.slots.clear()
+    this.order = []
+    this.input.disconnect()
+    this.output.disconnect()
+  }
+
+  // Reconnect the slots in order; live graphs fade out and back in around the switch
+  private rewire(fade: boolean): void {
+    const connect = () => {
+      this.input.disconnect()
+      this.slots.forEach((slot) => slot.output.disconnect())
+
+      let previous: AudioNode = this.input
+      this.order.forEach((id) => {
+        const slot = this.slots.get(id)
+        if (!slot) return
+        previous.connect(slot.input)
+        previous = slot.output
+      })
+      previous.connect(this.output)
+      this.wired = true
+    }
+
+    if (!fade) {
+      connect()
+      return
+    }
+
+    const now = this.context.currentTime
+    this.output.gain.cancelScheduledValues(now)
+    this.output.gain.setTargetAtTime(0, now, REWIRE_FADE / 4)
+
+    if (this.rewireTimer) {
+      clearTimeout(this.rewireTimer)
+    }
+    this.rewireTimer = setTimeout(() => {
+      this.rewireTimer = null
+      connect()
+      this.output.gain.setTargetAtTime(1, this.context.currentTime, REWIRE_FADE / 4)
+    }, REWIRE_FADE * 1000)
+  }
+
+  // Let a removed slot finish fading before it is torn down
+  private retireSlot(slot: EffectSlot, realtime: boolean): void {
+    if (!realtime) {
+      slot.dispose()
+      return
+    }
+    setTimeout(() => slot.dispose(), REWIRE_FADE * 2000)
+  }
+}
@@ -2,7 +2,22 @@
  * Audio Engine - Handles Web Audio API functionality for the sampler
  */
 
-import { audioAnalysisService } from './audio-analysis'
+import { AnalysisCancelledError, audioAnalysisService, combineProgress } from './audio-analysis'
+import type {
+  BeatResult,
+  ChordSegment,
+  DrumClass,
+  KeyResult,
+  OnsetDetectionOptions,
+  OnsetFunctionResult,
+  SpectrogramResult,
+} from './audio-analysis-core'
+import { formatKey } from './music-key'
+import { nameDrumSlices } from './drum-kit'
+import { createAnnotationId, type Annotation } from './annotations'
+import { EffectsChain, type EffectState } from './audio-effects'
+import * as dsp from './dsp'
+import { assignSlicesToSections, snapSlicesToZeroCrossings } from './slice-editing'
 
 export interface AudioSlice {
   id: number
@@ -10,6 +25,8 @@ export interface AudioSlice {
   endSample: number
   name: string
   sectionId?: number
+  key?: string // e.g. "A minor", set by key detection
+  drumClass?: DrumClass // set when an onset slice is classified
 }
 
 export interface AudioSection {
@@ -18,16 +35,205 @@ export interface AudioSection {
   endSample: number
   name: string
   slices: AudioSlice[]
+  key?: string
+  group?: string // repetition group ('A', 'B', ...) shared by sections that sound alike
+  confidence?: number // 0-1, how sure the structure analysis is of the group
+}
+
+// Result of key detection: the file's key, the slices/sections tagged with theirs, and a chord track
+export interface KeyAnalysis {
+  key: string | null
+  slices: AudioSlice[]
+  sections: AudioSection[]
+  chords: ChordSegment[]
 }
 
 export interface PlaybackOptions {
   loop?: boolean
   loopStart?: number
   loopEnd?: number
-  rate?: number
+  rate?: number // varispeed: changes tempo and pitch together
+  stretch?: number // tempo ratio (1 = original tempo), pitch preserved
+  semitones?: number // pitch shift, tempo preserved
   volume?: number
   fadeIn?: number // ms
   fadeOut?: number // ms
+  when?: number // AudioContext time to start at (playSlice), defaults to now
+}
+
+// Where a launched slice may start relative to the clip that is already playing
+export type LaunchQuantization = "none" | "1/16" | "1/4" | "1bar" | "slice-end"
+
+// Slice length for beat-grid slicing
+export type BeatDivision = "1/4" | "1/8" | "1bar"
+
+export interface LaunchOptions extends PlaybackOptions {
+  quantize?: LaunchQuantization
+}
+
+export interface LaunchEvent {
+  type: "queued" | "started" | "ended" | "cancelled"
+  sliceId: number
+  playbackId: string
+  time: number // AudioContext time the event applies to
+}
+
+// Attack and release (ms) applied to slice playback when the caller passes no fadeIn/fadeOut
+export interface SliceFades {
+  attack: number
+  release: number
+}
+
+export const DEFAULT_SLICE_FADES: SliceFades = { attack: 2, release: 5 }
+
+interface ScheduledLaunch {
+  playbackId: string
+  sliceId: number
+  startTime: number // AudioContext time
+  options: PlaybackOptions
+  sourceNode: AudioBufferSourceNode | null // set once the launch has been handed to Web Audio
+  latency: number // seconds the voice's output trails its source, set with sourceNode
+}
+
+// AudioWorklet processors served from /public
+const TIME_STRETCH_WORKLET_URL = "/worklets/time-stretch-processor.js"
+// Samples the time-stretch processor delays its output by (its FFT_SIZE - HOP_SIZE)
+export const TIME_STRETCH_LATENCY = 1536
+const BITCRUSHER_WORKLET_URL = "/worklets/bitcrusher-processor.js"
+
+// Launch scheduler timing (seconds)
+const LAUNCH_LOOKAHEAD = 0.1
+const LAUNCH_TICK_INTERVAL = 0.025
+
+// How far (seconds) detection may move a slice boundary to reach a zero crossing
+const ZERO_CROSSING_SNAP_DISTANCE = 0.005
+
+// Faded slice copies kept for replay; the cache is dropped when it grows past this
+const MAX_FADED_SLICES = 64
+
+// Grid sizes in quarter-note beats
+const LAUNCH_GRID_BEATS: Record<Exclude<LaunchQuantization, "none" | "slice-end">, number> = {
+  "1/16": 0.25,
+  "1/4": 1,
+  "1bar": 4,
+}
+
+// Which AudioWorklet processors could be registered on a context
+export interface WorkletAvailability {
+  timeStretch: boolean
+  bitcrusher: boolean
+}
+
+// Register the playback and effect processors on any context (live or offline)
+export async function registerWorklets(context: BaseAudioContext): Promise<WorkletAvailability> {
+  if (!context.audioWorklet) return { timeStretch: false, bitcrusher: false }
+
+  const [timeStretch, bitcrusher] = await Promise.allSettled([
+    context.audioWorklet.addModule(TIME_STRETCH_WORKLET_URL),
+    context.audioWorklet.addModule(BITCRUSHER_WORKLET_URL),
+  ])
+
+  if (timeStretch.status === "rejected") {
+    console.warn("Time-stretch worklet unavailable, tempo changes will also shift pitch:", timeStretch.reason)
+  }
+  if (bitcrusher.status === "rejected") {
+    console.warn("Bitcrusher worklet unavailable, falling back to bit-depth only:", bitcrusher.reason)
+  }
+
+  return { timeStretch: timeStretch.status === "fulfilled", bitcrusher: bitcrusher.status === "fulfilled" }
+}
+
+// Sensitivity slider value (0.01-0.5) as the MAD multiplier the onset peak picker expects
+export function toOnsetSensitivity(sensitivity: number): number {
+  return Math.max(0.1, Math.min(1.0, sensitivity * 10))
+}
+
+// Rate the buffer is read at: varispeed times the tempo stretch
+export function getTimelineRate(options: PlaybackOptions): number {
+  const rate = options.rate !== undefined && options.rate > 0 ? options.rate : 1
+  const stretch = options.stretch !== undefined && options.stretch > 0 ? options.stretch : 1
+  return rate * stretch
+}
+
+export interface Voice {
+  sourceNode: AudioBufferSourceNode
+  gainNode: GainNode
+  latency: number // seconds between the source and its output (time-stretch processing)
+}
+
+// Build a source -> (time-stretch) -> gain chain for `buffer`; the caller connects and starts it.
+// `when` is the context time the voice will be heard, used to anchor fades; start the source
+// `latency` earlier (see getSourceStartTime) so its output lands on `when`.
+//
+// Time-stretching reads the buffer at `rate * stretch` and lets the phase vocoder undo the
+// pitch change of `stretch`, then applies `semitones` on top.
+export function buildVoice(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  options: PlaybackOptions,
+  when: number,
+  timeStretchAvailable: boolean,
+): Voice {
+  const sourceNode = context.createBufferSource()
+  sourceNode.buffer = buffer
+  sourceNode.playbackRate.value = getTimelineRate(options)
+
+  const volume = options.volume !== undefined ? options.volume : 1.0
+  const gainNode = context.createGain()
+  gainNode.gain.value = volume
+
+  if (options.fadeIn && options.fadeIn > 0) {
+    gainNode.gain.setValueAtTime(0, when)
+    gainNode.gain.linearRampToValueAtTime(volume, when + options.fadeIn / 1000)
+  }
+
+  const stretch = options.stretch !== undefined && options.stretch > 0 ? options.stretch : 1
+  const pitchRatio = Math.pow(2, (options.semitones || 0) / 12) / stretch
+
+  if (Math.abs(pitchRatio - 1) > 1e-4 && timeStretchAvailable) {
+    const stretchNode = new AudioWorkletNode(context, "time-stretch-processor", {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [buffer.numberOfChannels],
+      parameterData: { pitchRatio },
+    })
+    sourceNode.connect(stretchNode)
+    stretchNode.connect(gainNode)
+    return { sourceNode, gainNode, latency: TIME_STRETCH_LATENCY / context.sampleRate }
+  }
+
+  sourceNode.connect(gainNode)
+  return { sourceNode, gainNode, latency: 0 }
+}
+
+// When to start a voice's source so it is heard at `when`; as soon as possible if that has passed
+export function getSourceStartTime(context: BaseAudioContext, voice: Voice, when: number): number {
+  return Math.max(context.currentTime, when - voice.latency)
+}
+
+// Copy of a sample range with the default slice fades written into it, for whichever of
+// fadeIn/fadeOut the options leave unset. Null when no fade applies.
+export function createFadedSlice(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  startSample: number,
+  endSample: number,
+  fades: SliceFades,
+  options: PlaybackOptions,
+): AudioBuffer | null {
+  const attack = options.fadeIn === undefined ? fades.attack : 0
+  const release = options.fadeOut === undefined ? fades.release : 0
+  const length = endSample - startSample
+  if ((attack <= 0 && release <= 0) || length <= 0) return null
+
+  const { numberOfChannels, sampleRate } = buffer
+  const faded = context.createBuffer(numberOfChannels, length, sampleRate)
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel).slice(startSample, endSample)
+    dsp.applyFades(samples, (attack / 1000) * sampleRate, (release / 1000) * sampleRate)
+    faded.copyToChannel(samples, channel)
+  }
+  return faded
 }
 
 class AudioEngine {
@@ -37,14 +243,32 @@ class AudioEngine {
   private activeSourceNodes: Map<string, AudioBufferSourceNode> = new Map()
   private slices: AudioSlice[] = []
   private sections: AudioSection[] = []
+  private beats: BeatResult | null = null
+  private sliceFades: SliceFades = DEFAULT_SLICE_FADES
+  private fadedSlices: Map<string, AudioBuffer> = new Map()
+  private spectralFlux: Map<string, Promise<number[]>> = new Map() // fallback flux by frame/hop size
+  private monoData: Float32Array | null = null
+  private zeroCrossingSnap = true
   private analyserNode: AnalyserNode | null = null
   private isInitialized = false
+  private timeStretchAvailable = false
+  private workletsLoaded = false
+
+  private effectsChain: EffectsChain | null = null
+  private effects: EffectState[] = []
 
   private currentSourceNode: AudioBufferSourceNode | null = null
   private currentGainNode: GainNode | null = null
   private playbackStartTime = 0
   private playbackStartOffset = 0
 
+  private tempo = 120
+  private playingLaunch: ScheduledLaunch | null = null
+  private queuedLaunch: ScheduledLaunch | null = null
+  private launchGridOrigin = 0
+  private launchTimer: ReturnType<typeof setInterval> | null = null
+  private launchListeners: Set<(event: LaunchEvent) => void> = new Set()
+
   // Initialize the audio engine
   initialize(): Promise<void> {
     if (this.isInitialized) return Promise.resolve()
@@ -70,10 +294,17 @@ class AudioEngine {
       this.analyserNode = this.context.createAnalyser()
       this.analyserNode.fftSize = 2048
 
-      // Connect nodes: analyser -> masterGain -> destination
+      this.effectsChain = new EffectsChain(this.context)
+
+      // Connect nodes: voices -> effects -> analyser -> masterGain -> destination
+      this.effectsChain.output.connect(this.analyserNode)
       this.analyserNode.connect(this.masterGainNode)
       this.masterGainNode.connect(this.context.destination)
 
+      // Voices fall back to varispeed until the time-stretch processor has loaded,
+      // effects are built once the bitcrusher processor is known to be there or not
+      this.loadWorklets()
+
       this.isInitialized = true
       return Promise.resolve()
     } catch (error) {
@@ -82,6 +313,37 @@ class AudioEngine {
     }
   }
 
+  // Register the AudioWorklet processors used by the playback path
+  private async loadWorklets(): Promise<void> {
+    const context = this.context
+    if (!context) return
+
+    const available = await registerWorklets(context)
+    if (this.context !== context) return
+
+    this.timeStretchAvailable = available.timeStretch
+    this.workletsLoaded = true
+    this.effectsChain?.update(this.effects)
+  }
+
+  // Whether tempo and pitch can currently be changed independently
+  isTimeStretchAvailable(): boolean {
+    return this.timeStretchAvailable
+  }
+
+  // Set the insert effects; array order is the signal order
+  setEffects(effects: EffectState[]): void {
+    this.effects = effects
+    if (this.workletsLoaded) {
+      this.effectsChain?.update(effects)
+    }
+  }
+
+  // Get the current insert effects
+  getEffects(): EffectState[] {
+    return this.effects
+  }
+
   // Load and decode an audio file
   async loadAudioFile(file: File): Promise<AudioBuffer> {
     if (!this.isInitialized) await this.initialize()
@@ -90,7 +352,13 @@ class AudioEngine {
     try {
       const arrayBuffer = await file.arrayBuffer()
       const audioBuffer = await this.context.decodeAudioData(arrayBuffer)
+      // Analysis still running for the previous file would overwrite results for this one
+      audioAnalysisService.cancelAll()
       this.buffer = audioBuffer
+      this.beats = null
+      this.fadedSlices.clear()
+      this.spectralFlux.clear()
+      this.monoData = null
       return audioBuffer
     } catch (error) {
       console.error("Error decoding audio data:", error)
@@ -100,6 +368,11 @@ class AudioEngine {
 
   // Set the audio buffer directly
   setBuffer(buffer: AudioBuffer): void {
+    if (buffer !== this.buffer) {
+      this.fadedSlices.clear()
+      this.spectralFlux.clear()
+      this.monoData = null
+    }
     this.buffer = buffer
   }
 
@@ -121,6 +394,25 @@ class AudioEngine {
     }
   }
 
+  // Default slice attack/release, used whenever playback options leave fadeIn/fadeOut unset
+  setSliceFades(fades: SliceFades): void {
+    this.sliceFades = fades
+    this.fadedSlices.clear()
+  }
+
+  getSliceFades(): SliceFades {
+    return this.sliceFades
+  }
+
+  // Whether detected slice boundaries are moved to the nearest zero crossing
+  setZeroCrossingSnap(enabled: boolean): void {
+    this.zeroCrossingSnap = enabled
+  }
+
+  getZeroCrossingSnap(): boolean {
+    return this.zeroCrossingSnap
+  }
+
   // Set slices for the current buffer
   setSlices(slices: AudioSlice[]): void {
     // Only update if the slices actually changed
@@ -166,27 +458,10 @@ class AudioEngine {
       this.context.resume()
     }
 
-    // Create a source node
-    const sourceNode = this.context.createBufferSource()
-    sourceNode.buffer = this.buffer
-
-    // Set playback rate
-    if (options.rate !== undefined) {
-      sourceNode.playbackRate.value = options.rate
-    }
-
-    // Create a gain node for this specific playback
-    const gainNode = this.context.createGain()
-    gainNode.gain.value = options.volume !== undefined ? options.volume : 1.0
-
-    // Apply fade in if specified
-    if (options.fadeIn && options.fadeIn > 0) {
-      gainNode.gain.setValueAtTime(0, this.context.currentTime)
-      gainNode.gain.linearRampToValueAtTime(
-        options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + options.fadeIn / 1000,
-      )
-    }
+    // Create the source -> (time-stretch) -> gain chain, with fade in if specified
+    const voice = this.createVoice(options, this.context.currentTime)
+    if (!voice) return null
+    const { sourceNode, gainNode } = voice
 
     // Apply fade out if specified and not looping
     if (options.fadeOut && options.fadeOut > 0 && !options.loop) {
@@ -207,10 +482,6 @@ class AudioEngine {
       sourceNode.loopEnd = options.loopEnd
     }
 
-    // Connect nodes: source -> gain -> analyser -> (rest of the chain)
-    sourceNode.connect(gainNode)
-    gainNode.connect(this.analyserNode)
-
     // Generate a unique ID for this playback
     const playbackId = `buffer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
@@ -245,27 +516,10 @@ class AudioEngine {
       this.context.resume()
     }
 
-    // Create a source node
-    const sourceNode = this.context.createBufferSource()
-    sourceNode.buffer = this.buffer
-
-    // Set playback rate
-    if (options.rate !== undefined) {
-      sourceNode.playbackRate.value = options.rate
-    }
-
-    // Create a gain node for this specific playback
-    const gainNode = this.context.createGain()
-    gainNode.gain.value = options.volume !== undefined ? options.volume : 1.0
-
-    // Apply fade in if specified
-    if (options.fadeIn && options.fadeIn > 0) {
-      gainNode.gain.setValueAtTime(0, this.context.currentTime)
-      gainNode.gain.linearRampToValueAtTime(
-        options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + options.fadeIn / 1000,
-      )
-    }
+    // Create the source -> (time-stretch) -> gain chain, with fade in if specified
+    const voice = this.createVoice(options, this.context.currentTime)
+    if (!voice) return null
+    const { sourceNode, gainNode } = voice
 
     // Set loop
     sourceNode.loop = options.loop || false
@@ -276,10 +530,6 @@ class AudioEngine {
       sourceNode.loopEnd = options.loopEnd
     }
 
-    // Connect nodes: source -> gain -> analyser -> (rest of the chain)
-    sourceNode.connect(gainNode)
-    gainNode.connect(this.analyserNode)
-
     // Generate a unique ID for this playback
     const playbackId = `buffer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
@@ -314,27 +564,10 @@ class AudioEngine {
       this.context.resume()
     }
 
-    // Create a source node
-    const sourceNode = this.context.createBufferSource()
-    sourceNode.buffer = this.buffer
-
-    // Set playback rate based on BPM if provided
-    if (options.rate !== undefined) {
-      sourceNode.playbackRate.value = options.rate
-    }
-
-    // Create a gain node for this specific playback
-    const gainNode = this.context.createGain()
-    gainNode.gain.value = options.volume !== undefined ? options.volume : 1.0
-
-    // Apply fade in if specified
-    if (options.fadeIn && options.fadeIn > 0) {
-      gainNode.gain.setValueAtTime(0, this.context.currentTime)
-      gainNode.gain.linearRampToValueAtTime(
-        options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + options.fadeIn / 1000,
-      )
-    }
+    // Create the source -> (time-stretch) -> gain chain, with fade in if specified
+    const voice = this.createVoice(options, this.context.currentTime)
+    if (!voice) return null
+    const { sourceNode, gainNode } = voice
 
     // Apply fade out if specified and not looping
     if (options.fadeOut && options.fadeOut > 0 && !options.loop) {
@@ -355,10 +588,6 @@ class AudioEngine {
       sourceNode.loopEnd = options.loopEnd
     }
 
-    // Connect nodes: source -> gain -> analyser -> (rest of the chain)
-    sourceNode.connect(gainNode)
-    gainNode.connect(this.analyserNode)
-
     // Generate a unique ID for this playback
     const playbackId = `playback-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
@@ -394,55 +623,40 @@ class AudioEngine {
       this.context.resume()
     }
 
-    // Create a source node
-    const sourceNode = this.context.createBufferSource()
-    sourceNode.buffer = this.buffer
-
-    // Set playback rate
-    if (options.rate !== undefined) {
-      sourceNode.playbackRate.value = options.rate
-    }
+    // Scheduled hits start at `options.when`; anything in the past starts now
+    const when = Math.max(options.when ?? 0, this.context.currentTime)
 
-    // Create a gain node for this specific playback
-    const gainNode = this.context.createGain()
-    gainNode.gain.value = options.volume !== undefined ? options.volume : 1.0
+    // Play a copy with the default fades written in when the caller leaves fades unset
+    const faded = this.getFadedSlice(slice, options)
 
-    // Apply fade in if specified
-    if (options.fadeIn && options.fadeIn > 0) {
-      gainNode.gain.setValueAtTime(0, this.context.currentTime)
-      gainNode.gain.linearRampToValueAtTime(
-        options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + options.fadeIn / 1000,
-      )
-    }
+    // Create the source -> (time-stretch) -> gain chain, with fade in if specified
+    const voice = this.createVoice(options, when, faded ?? this.buffer)
+    if (!voice) return null
+    const { sourceNode, gainNode } = voice
 
-    // Calculate slice duration
-    const sliceDuration = (slice.endSample - slice.startSample) / this.buffer.sampleRate
+    // Where the slice sits in the buffer being played, and how long it lasts
+    const startTime = faded ? 0 : slice.startSample / this.buffer.sampleRate
+    const duration = (slice.endSample - slice.startSample) / this.buffer.sampleRate
 
     // Apply fade out if specified and not looping
     if (options.fadeOut && options.fadeOut > 0 && !options.loop) {
+      const endTime = when + duration / getTimelineRate(options)
       gainNode.gain.setValueAtTime(
         options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + sliceDuration - options.fadeOut / 1000,
+        Math.max(when, endTime - options.fadeOut / 1000),
       )
-      gainNode.gain.linearRampToValueAtTime(0, this.context.currentTime + sliceDuration)
+      gainNode.gain.linearRampToValueAtTime(0, endTime)
     }
 
     // Set loop
     sourceNode.loop = options.loop || false
 
-    // Set loop points if specified and looping
+    // Set loop points if specified and looping; a faded copy fades at every wrap
     if (options.loop) {
-      const startTime = slice.startSample / this.buffer.sampleRate
-      const endTime = slice.endSample / this.buffer.sampleRate
       sourceNode.loopStart = startTime
-      sourceNode.loopEnd = endTime
+      sourceNode.loopEnd = startTime + duration
     }
 
-    // Connect nodes: source -> gain -> analyser -> (rest of the chain)
-    sourceNode.connect(gainNode)
-    gainNode.connect(this.analyserNode)
-
     // Generate a unique ID for this playback
     const playbackId = `slice-${sliceId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
@@ -450,13 +664,11 @@ class AudioEngine {
     this.activeSourceNodes.set(playbackId, sourceNode)
     this.currentSourceNode = sourceNode
     this.currentGainNode = gainNode
-    this.playbackStartTime = this.context.currentTime
+    this.playbackStartTime = when
     this.playbackStartOffset = slice.startSample / this.buffer.sampleRate
 
     // Start playback from the slice start position
-    const startTime = slice.startSample / this.buffer.sampleRate
-    const duration = (slice.endSample - slice.startSample) / this.buffer.sampleRate
-    sourceNode.start(0, startTime, options.loop ? undefined : duration)
+    sourceNode.start(getSourceStartTime(this.context, voice, when), startTime, options.loop ? undefined : duration)
 
     // Remove the source node when playback ends
     sourceNode.onended = () => {
@@ -480,27 +692,10 @@ class AudioEngine {
       this.context.resume()
     }
 
-    // Create a source node
-    const sourceNode = this.context.createBufferSource()
-    sourceNode.buffer = this.buffer
-
-    // Set playback rate
-    if (options.rate !== undefined) {
-      sourceNode.playbackRate.value = options.rate
-    }
-
-    // Create a gain node for this specific playback
-    const gainNode = this.context.createGain()
-    gainNode.gain.value = options.volume !== undefined ? options.volume : 1.0
-
-    // Apply fade in if specified
-    if (options.fadeIn && options.fadeIn > 0) {
-      gainNode.gain.setValueAtTime(0, this.context.currentTime)
-      gainNode.gain.linearRampToValueAtTime(
-        options.volume !== undefined ? options.volume : 1.0,
-        this.context.currentTime + options.fadeIn / 1000,
-      )
-    }
+    // Create the source -> (time-stretch) -> gain chain, with fade in if specified
+    const voice = this.createVoice(options, this.context.currentTime)
+    if (!voice) return null
+    const { sourceNode, gainNode } = voice
 
     // Calculate section duration
     const sectionDuration = (section.endSample - section.startSample) / this.buffer.sampleRate
@@ -525,10 +720,6 @@ class AudioEngine {
       sourceNode.loopEnd = endTime
     }
 
-    // Connect nodes: source -> gain -> analyser -> (rest of the chain)
-    sourceNode.connect(gainNode)
-    gainNode.connect(this.analyserNode)
-
     // Generate a unique ID for this playback
     const playbackId = `section-${sectionId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
@@ -556,6 +747,266 @@ class AudioEngine {
     return playbackId
   }
 
+  // Set the tempo used for launch quantization
+  setTempo(bpm: number): void {
+    if (bpm > 0) {
+      this.tempo = bpm
+    }
+  }
+
+  // Subscribe to launch scheduler events; returns an unsubscribe function
+  addLaunchListener(listener: (event: LaunchEvent) => void): () => void {
+    this.launchListeners.add(listener)
+    return () => {
+      this.launchListeners.delete(listener)
+    }
+  }
+
+  // Launch a slice, quantized against the clip that is already playing.
+  // With nothing playing the slice starts immediately and becomes the origin of the beat grid.
+  launchSlice(sliceId: number, options: LaunchOptions = {}): string | null {
+    const slice = this.getSlice(sliceId)
+    if (!slice || !this.buffer || !this.context || !this.masterGainNode || !this.analyserNode) return null
+
+    if (this.context.state === "suspended") {
+      this.context.resume()
+    }
+
+    const { quantize = "none", ...playbackOptions } = options
+    const now = this.context.currentTime
+
+    // Forget a clip that has already run out
+    if (this.playingLaunch && this.getLaunchEndTime(this.playingLaunch, now) <= now) {
+      this.playingLaunch = null
+    }
+
+    let startTime = now
+    if (!this.playingLaunch) {
+      this.launchGridOrigin = now
+    } else if (quantize !== "none") {
+      startTime = this.getNextLaunchTime(quantize, now)
+    }
+
+    // A newer launch replaces whatever was waiting in the queue
+    if (this.queuedLaunch) {
+      this.cancelQueuedLaunch()
+    }
+
+    const launch: ScheduledLaunch = {
+      playbackId: `launch-${sliceId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sliceId,
+      startTime,
+      options: playbackOptions,
+      sourceNode: null,
+      latency: 0,
+    }
+
+    this.queuedLaunch = launch
+    this.emitLaunchEvent({ type: "queued", sliceId, playbackId: launch.playbackId, time: startTime })
+    this.pumpLaunchQueue()
+
+    if (this.queuedLaunch && this.launchTimer === null) {
+      this.launchTimer = setInterval(() => this.pumpLaunchQueue(), LAUNCH_TICK_INTERVAL * 1000)
+    }
+
+    return launch.playbackId
+  }
+
+  // Get the slice currently waiting to launch, if any
+  getQueuedSliceId(): number | null {
+    return this.queuedLaunch ? this.queuedLaunch.sliceId : null
+  }
+
+  // Hand the queued launch to Web Audio once it falls inside the lookahead window
+  private pumpLaunchQueue(): void {
+    const launch = this.queuedLaunch
+    if (!this.context || !launch) {
+      this.stopLaunchTimer()
+      return
+    }
+
+    if (launch.sourceNode || launch.startTime > this.context.currentTime + LAUNCH_LOOKAHEAD) return
+
+    const slice = this.getSlice(launch.sliceId)
+    const faded = slice ? this.getFadedSlice(slice, launch.options) : null
+    const voice = slice ? this.createVoice(launch.options, launch.startTime, faded ?? this.buffer) : null
+    if (!slice || !voice || !this.buffer) {
+      this.queuedLaunch = null
+      this.stopLaunchTimer()
+      this.emitLaunchEvent({
+        type: "cancelled",
+        sliceId: launch.sliceId,
+        playbackId: launch.playbackId,
+        time: launch.startTime,
+      })
+      return
+    }
+
+    const { sourceNode, gainNode } = voice
+    const sampleRate = this.buffer.sampleRate
+    const offset = faded ? 0 : slice.startSample / sampleRate
+    const duration = (slice.endSample - slice.startSample) / sampleRate
+
+    const { fadeOut, volume = 1.0, loop } = launch.options
+    if (fadeOut && fadeOut > 0 && !loop) {
+      const endTime = launch.startTime + duration / getTimelineRate(launch.options)
+      gainNode.gain.setValueAtTime(volume, Math.max(launch.startTime, endTime - fadeOut / 1000))
+      gainNode.gain.linearRampToValueAtTime(0, endTime)
+    }
+
+    if (loop) {
+      sourceNode.loop = true
+      sourceNode.loopStart = offset
+      sourceNode.loopEnd = offset + duration
+      sourceNode.start(getSourceStartTime(this.context, voice, launch.startTime), offset)
+    } else {
+      sourceNode.start(getSourceStartTime(this.context, voice, launch.startTime), offset, duration)
+    }
+
+    // The outgoing clip is heard up to the exact sample the new one starts
+    const previous = this.playingLaunch
+    if (previous?.sourceNode) {
+      try {
+        previous.sourceNode.stop(Math.max(this.context.currentTime, launch.startTime - previous.latency))
+      } catch (e) {
+        // Ignore errors if the source has already stopped
+      }
+    }
+
+    launch.sourceNode = sourceNode
+    launch.latency = voice.latency
+    this.activeSourceNodes.set(launch.playbackId, sourceNode)
+    this.queuedLaunch = null
+    this.playingLaunch = launch
+    this.stopLaunchTimer()
+
+    sourceNode.onended = () => {
+      this.activeSourceNodes.delete(launch.playbackId)
+      if (this.playingLaunch === launch) {
+        this.playingLaunch = null
+        this.emitLaunchEvent({
+          type: "ended",
+          sliceId: launch.sliceId,
+          playbackId: launch.playbackId,
+          time: this.context ? this.context.currentTime : 0,
+        })
+      }
+    }
+
+    // Notify listeners when the clip becomes audible rather than when it was scheduled
+    const delay = Math.max(0, (launch.startTime - this.context.currentTime) * 1000)
+    setTimeout(() => {
+      if (launch.sourceNode && this.activeSourceNodes.has(launch.playbackId)) {
+        this.emitLaunchEvent({
+          type: "started",
+          sliceId: launch.sliceId,
+          playbackId: launch.playbackId,
+          time: launch.startTime,
+        })
+      }
+    }, delay)
+  }
+
+  // Drop the queued launch, undoing its hand-off to Web Audio if that already happened
+  private cancelQueuedLaunch(): void {
+    const launch = this.queuedLaunch
+    if (!launch) return
+
+    this.queuedLaunch = null
+    if (launch.sourceNode) {
+      try {
+        launch.sourceNode.stop()
+      } catch (e) {
+        // Ignore errors if the source has already stopped
+      }
+      this.activeSourceNodes.delete(launch.playbackId)
+    }
+
+    this.emitLaunchEvent({
+      type: "cancelled",
+      sliceId: launch.sliceId,
+      playbackId: launch.playbackId,
+      time: launch.startTime,
+    })
+  }
+
+  // Time (AudioContext clock) at which a launched clip stops, or its next loop boundary
+  private getLaunchEndTime(launch: ScheduledLaunch, now: number): number {
+    const slice = this.getSlice(launch.sliceId)
+    if (!slice || !this.buffer) return now
+
+    const cycle = (slice.endSample - slice.startSample) / this.buffer.sampleRate / getTimelineRate(launch.options)
+    if (cycle <= 0) return now
+
+    if (!launch.options.loop) {
+      return launch.startTime + cycle
+    }
+
+    const cyclesElapsed = Math.max(0, Math.floor((now - launch.startTime) / cycle) + 1)
+    return launch.startTime + cyclesElapsed * cycle
+  }
+
+  // Next quantized launch time after `now`
+  private getNextLaunchTime(quantize: Exclude<LaunchQuantization, "none">, now: number): number {
+    if (quantize === "slice-end") {
+      return this.playingLaunch ? this.getLaunchEndTime(this.playingLaunch, now) : now
+    }
+
+    const gridLength = (60 / this.tempo) * LAUNCH_GRID_BEATS[quantize]
+    const gridIndex = Math.ceil((now - this.launchGridOrigin) / gridLength)
+    return this.launchGridOrigin + Math.max(0, gridIndex) * gridLength
+  }
+
+  private stopLaunchTimer(): void {
+    if (this.launchTimer !== null) {
+      clearInterval(this.launchTimer)
+      this.launchTimer = null
+    }
+  }
+
+  private emitLaunchEvent(event: LaunchEvent): void {
+    this.launchListeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error("Launch listener error:", error)
+      }
+    })
+  }
+
+  // Create a voice for the current buffer, routed into the effects chain
+  private createVoice(
+    options: PlaybackOptions,
+    when: number,
+    buffer: AudioBuffer | null = this.buffer,
+  ): Voice | null {
+    if (!buffer || !this.context || !this.analyserNode) return null
+
+    const voice = buildVoice(this.context, buffer, options, when, this.timeStretchAvailable)
+    voice.gainNode.connect(this.effectsChain ? this.effectsChain.input : this.analyserNode)
+
+    return voice
+  }
+
+  // Copy of a slice with the default attack/release applied to its samples, so loops fade at
+  // every wrap as well as at the start and end. Null when the caller sets both fades itself.
+  private getFadedSlice(slice: AudioSlice, options: PlaybackOptions): AudioBuffer | null {
+    if (!this.buffer || !this.context) return null
+
+    const attack = options.fadeIn === undefined ? this.sliceFades.attack : 0
+    const release = options.fadeOut === undefined ? this.sliceFades.release : 0
+    const key = `${slice.startSample}:${slice.endSample}:${attack}:${release}`
+    const cached = this.fadedSlices.get(key)
+    if (cached) return cached
+
+    const faded = createFadedSlice(this.context, this.buffer, slice.startSample, slice.endSample, this.sliceFades, options)
+    if (!faded) return null
+
+    if (this.fadedSlices.size >= MAX_FADED_SLICES) this.fadedSlices.clear()
+    this.fadedSlices.set(key, faded)
+    return faded
+  }
+
   // Stop playback by ID
   stopPlayback(playbackId: string): void {
     const sourceNode = this.activeSourceNodes.get(playbackId)
@@ -567,10 +1018,21 @@ class AudioEngine {
       }
       this.activeSourceNodes.delete(playbackId)
     }
+
+    if (this.queuedLaunch?.playbackId === playbackId) {
+      this.cancelQueuedLaunch()
+    }
+    if (this.playingLaunch?.playbackId === playbackId) {
+      this.playingLaunch = null
+    }
   }
 
   // Stop all playback
   stopAllPlayback(): void {
+    this.cancelQueuedLaunch()
+    this.stopLaunchTimer()
+    this.playingLaunch = null
+
     this.activeSourceNodes.forEach((sourceNode) => {
       try {
         sourceNode.stop()
@@ -588,62 +1050,198 @@ class AudioEngine {
     sensitivity = 0.1,
     minDistance = 0.05,
     maxSlices = 16,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    onsetOptions: OnsetDetectionOptions = {}
   ): Promise<AudioSlice[]> {
     if (!this.buffer) return []
 
     try {
-      // Initialize analysis service if needed
-      await audioAnalysisService.initialize()
-
       // Use real onset detection
       const onsetResult = await audioAnalysisService.detectOnsets(this.buffer, {
-        sensitivity: Math.max(0.1, Math.min(1.0, sensitivity * 10)), // Scale sensitivity
+        ...onsetOptions,
+        sensitivity: toOnsetSensitivity(sensitivity),
         minDistance,
-        onProgress,
+        onProgress: (progress) => onProgress?.(progress * 0.8),
       })
 
       // Convert onsets to slices
-      const slices: AudioSlice[] = []
-      const bufferLength = this.buffer.length
-
-      // Create slices from detected onsets
-      for (let i = 0; i < onsetResult.timestamps.length && slices.length < maxSlices; i++) {
-        const startSample = onsetResult.timestamps[i]
-        // End sample is either the next onset or the end of the buffer
-        const endSample =
-          i < onsetResult.timestamps.length - 1
-            ? onsetResult.timestamps[i + 1]
-            : bufferLength
-
-        slices.push({
-          id: slices.length,
-          startSample,
-          endSample,
-          name: `Slice ${slices.length + 1}`,
-        })
-      }
+      const slices = this.createOnsetSlices(onsetResult.timestamps, maxSlices)
 
       // If no onsets detected or too few, fall back to evenly spaced slices
       if (slices.length < 2) {
-        return this.detectTransientsFallback(sensitivity, minDistance, maxSlices)
+        return this.detectTransientsFallback(sensitivity, minDistance, maxSlices, onsetOptions)
       }
 
-      this.slices = slices
-      return slices
+      const classified = await this.classifyDrumSlices(slices, (progress) => onProgress?.(0.8 + progress * 0.2))
+      this.slices = classified
+      return classified
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
       console.warn('Essentia.js onset detection failed, using fallback:', error)
-      return this.detectTransientsFallback(sensitivity, minDistance, maxSlices)
+      return this.detectTransientsFallback(sensitivity, minDistance, maxSlices, onsetOptions)
+    }
+  }
+
+  // Onset times (seconds) with the settings detectTransients uses, without replacing the slices
+  async detectOnsetPositions(
+    sensitivity = 0.1,
+    minDistance = 0.05,
+    onsetOptions: OnsetDetectionOptions = {}
+  ): Promise<number[]> {
+    if (!this.buffer) return []
+
+    try {
+      const onsetResult = await audioAnalysisService.detectOnsets(this.buffer, {
+        ...onsetOptions,
+        sensitivity: toOnsetSensitivity(sensitivity),
+        minDistance,
+      })
+      return onsetResult.timestamps
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js onset detection failed, using fallback:', error)
+      const { frameSize = dsp.DEFAULT_FRAME_SIZE, hopSize = dsp.DEFAULT_HOP_SIZE } = onsetOptions
+      const flux = await this.getSpectralFlux(frameSize, hopSize)
+      return dsp.onsetsFromFlux(flux, this.buffer.sampleRate, {
+        sensitivity: 1 - Math.min(1, sensitivity * 2),
+        minDistance,
+        hopSize,
+      }).timestamps
+    }
+  }
+
+  // Onset detection function and frame energy with the settings detectTransients uses, for display
+  async computeOnsetFunction(
+    onsetOptions: OnsetDetectionOptions = {},
+    onProgress?: (progress: number) => void
+  ): Promise<OnsetFunctionResult | null> {
+    if (!this.buffer) return null
+
+    try {
+      return await audioAnalysisService.computeOnsetFunction(this.buffer, { ...onsetOptions, onProgress })
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js onset function failed:', error)
+      return null
+    }
+  }
+
+  // Log-frequency spectrogram of the loaded file, for display
+  async computeSpectrogram(onProgress?: (progress: number) => void): Promise<SpectrogramResult | null> {
+    if (!this.buffer) return null
+
+    try {
+      return await audioAnalysisService.computeSpectrogram(this.buffer, { onProgress })
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Spectrogram analysis failed:', error)
+      return null
+    }
+  }
+
+  // Classify onset slices as drum hits and name them by class; unclassifiable slices keep their names
+  async classifyDrumSlices(
+    slices: AudioSlice[],
+    onProgress?: (progress: number) => void
+  ): Promise<AudioSlice[]> {
+    if (!this.buffer || slices.length === 0) return slices
+
+    try {
+      const result = await audioAnalysisService.classifyDrumHits(this.buffer, { ranges: slices, onProgress })
+      return nameDrumSlices(
+        slices.map((slice, i) => (result.hits[i] ? { ...slice, drumClass: result.hits[i].label } : slice))
+      )
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js drum classification failed:', error)
+      return slices
+    }
+  }
+
+  // Slices from onset positions; each runs to the next onset or the end of the buffer
+  private createOnsetSlices(timestamps: number[], maxSlices: number): AudioSlice[] {
+    if (!this.buffer) return []
+
+    const slices: AudioSlice[] = []
+    const bufferLength = this.buffer.length
+
+    for (let i = 0; i < timestamps.length && slices.length < maxSlices; i++) {
+      const startSample = timestamps[i]
+      // End sample is either the next onset or the end of the buffer
+      const endSample = i < timestamps.length - 1 ? timestamps[i + 1] : bufferLength
+
+      slices.push({
+        id: slices.length,
+        startSample,
+        endSample,
+        name: `Slice ${slices.length + 1}`,
+      })
+    }
+
+    return this.snapToZeroCrossings(slices)
+  }
+
+  // Detected slices with their boundaries on zero crossings, when snapping is on
+  private snapToZeroCrossings(slices: AudioSlice[]): AudioSlice[] {
+    if (!this.zeroCrossingSnap || !this.buffer || slices.length === 0) return slices
+    const maxDistance = Math.round(ZERO_CROSSING_SNAP_DISTANCE * this.buffer.sampleRate)
+    return snapSlicesToZeroCrossings(slices, this.getMonoData(), maxDistance)
+  }
+
+  // Mono mixdown of the current buffer, for the TypeScript DSP fallbacks and zero-crossing snapping.
+  // Mixed once per buffer and shared, so callers must not modify it
+  getMonoData(): Float32Array {
+    if (!this.buffer) return new Float32Array(0)
+    if (this.buffer.numberOfChannels === 1) return this.buffer.getChannelData(0)
+    if (this.monoData) return this.monoData
+
+    const mono = new Float32Array(this.buffer.length)
+    for (let channel = 0; channel < this.buffer.numberOfChannels; channel++) {
+      const data = this.buffer.getChannelData(channel)
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / this.buffer.numberOfChannels
+      }
+    }
+    this.monoData = mono
+    return mono
+  }
+
+  // Spectral flux of the current buffer for the TypeScript DSP fallbacks, computed once per frame/hop size
+  // in chunks that yield to the main thread
+  private getSpectralFlux(frameSize = dsp.DEFAULT_FRAME_SIZE, hopSize = dsp.DEFAULT_HOP_SIZE): Promise<number[]> {
+    const key = `${frameSize}:${hopSize}`
+    let flux = this.spectralFlux.get(key)
+    if (!flux) {
+      flux = dsp.spectralFluxAsync(this.getMonoData(), { frameSize, hopSize })
+      this.spectralFlux.set(key, flux)
     }
+    return flux
   }
 
-  // Fallback method for transient detection (original implementation)
-  private detectTransientsFallback(
+  // Fallback transient detection with the TypeScript DSP module; evenly spaced slices if that finds too few
+  private async detectTransientsFallback(
     sensitivity = 0.1,
     minDistance = 0.05,
-    maxSlices = 16
-  ): AudioSlice[] {
+    maxSlices = 16,
+    onsetOptions: OnsetDetectionOptions = {}
+  ): Promise<AudioSlice[]> {
+    if (!this.buffer) return []
+
+    // The slider works as a threshold (higher = fewer slices), over 0.01-0.5; the fallback only has spectral flux
+    const { sampleRate } = this.buffer
+    const { frameSize = dsp.DEFAULT_FRAME_SIZE, hopSize = dsp.DEFAULT_HOP_SIZE } = onsetOptions
+    const flux = await this.getSpectralFlux(frameSize, hopSize)
     if (!this.buffer) return []
+    const onsets = dsp.onsetsFromFlux(flux, sampleRate, {
+      sensitivity: 1 - Math.min(1, sensitivity * 2),
+      minDistance,
+      hopSize,
+    })
+    const onsetSlices = this.createOnsetSlices(onsets.timestamps, maxSlices)
+    if (onsetSlices.length >= 2) {
+      this.slices = onsetSlices
+      return onsetSlices
+    }
 
     const slices: AudioSlice[] = []
     const bufferLength = this.buffer.length
@@ -663,10 +1261,170 @@ class AudioEngine {
       })
     }
 
+    this.slices = this.snapToZeroCrossings(slices)
+    return this.slices
+  }
+
+  // Beat grid from the last beat detection on the current buffer
+  getBeats(): BeatResult | null {
+    return this.beats
+  }
+
+  // Track beats without touching the slices; falls back to a straight grid at the estimated tempo
+  async detectBeats(onProgress?: (progress: number) => void): Promise<BeatResult> {
+    if (!this.buffer) return this.detectBeatsFallback()
+
+    let beats: BeatResult
+    try {
+      beats = await audioAnalysisService.detectBeats(this.buffer, { onProgress })
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js beat tracking failed, using fallback:', error)
+      beats = await this.detectBeatsFallback()
+    }
+
+    this.beats = beats
+    return beats
+  }
+
+  // Track beats and cut the buffer into slices on the beat grid
+  async detectBeatSlices(
+    division: BeatDivision = "1/4",
+    maxSlices = 64,
+    onProgress?: (progress: number) => void
+  ): Promise<AudioSlice[]> {
+    if (!this.buffer) return []
+
+    const beats = await this.detectBeats(onProgress)
+    const slices = this.createBeatSlices(beats, division, maxSlices)
     this.slices = slices
     return slices
   }
 
+  // Fallback beat grid: straight beats at the estimated tempo (or the current one), starting on the first onset
+  private async detectBeatsFallback(beatsPerBar = 4): Promise<BeatResult> {
+    const duration = this.buffer ? this.buffer.duration : 0
+    const sampleRate = this.buffer ? this.buffer.sampleRate : 44100
+    // Tempo and first onset share one flux
+    const flux = this.buffer ? await this.getSpectralFlux() : []
+    const tempo = flux.length > 0 ? dsp.estimateTempo(flux, sampleRate / dsp.DEFAULT_HOP_SIZE) : null
+    const bpm = tempo ? tempo.bpm : this.tempo
+    const beatDuration = 60 / bpm
+    const firstOnset = flux.length > 0 ? dsp.onsetsFromFlux(flux, sampleRate).times[0] ?? 0 : 0
+
+    const beats: number[] = []
+    for (let time = firstOnset % beatDuration; time < duration; time += beatDuration) {
+      beats.push(time)
+    }
+
+    return {
+      bpm,
+      confidence: tempo ? tempo.confidence : 0,
+      beats,
+      downbeats: beats.filter((_, i) => i % beatsPerBar === 0),
+      beatsPerBar,
+    }
+  }
+
+  // Turn a beat grid into slices; anything before the first grid line becomes a pickup slice
+  private createBeatSlices(beats: BeatResult, division: BeatDivision, maxSlices: number): AudioSlice[] {
+    if (!this.buffer || beats.beats.length === 0) return []
+
+    const { sampleRate, length } = this.buffer
+    const phase = Math.max(0, beats.beats.indexOf(beats.downbeats[0]))
+    const points: { time: number; name: string }[] = []
+
+    const beatName = (index: number) => {
+      const position = index - phase
+      const bar = Math.floor(position / beats.beatsPerBar) + 1
+      const beat = ((position % beats.beatsPerBar) + beats.beatsPerBar) % beats.beatsPerBar + 1
+      return `${bar}.${beat}`
+    }
+
+    if (division === "1bar") {
+      beats.downbeats.forEach((time, i) => points.push({ time, name: `Bar ${i + 1}` }))
+    } else {
+      beats.beats.forEach((time, i) => {
+        points.push({ time, name: division === "1/8" ? `${beatName(i)}.1` : beatName(i) })
+        if (division === "1/8") {
+          // The last beat has no successor; assume it lasts as long as the one before it
+          const next = i < beats.beats.length - 1 ? beats.beats[i + 1] : time + (time - (beats.beats[i - 1] ?? time))
+          if (next > time) {
+            points.push({ time: (time + next) / 2, name: `${beatName(i)}.2` })
+          }
+        }
+      })
+    }
+
+    if (points.length > 0 && points[0].time * sampleRate > sampleRate * 0.01) {
+      points.unshift({ time: 0, name: "Pickup" })
+    }
+
+    const slices: AudioSlice[] = []
+    for (let i = 0; i < points.length && slices.length < maxSlices; i++) {
+      const startSample = Math.round(points[i].time * sampleRate)
+      const endSample = i < points.length - 1 ? Math.round(points[i + 1].time * sampleRate) : length
+      if (startSample >= length || endSample <= startSample) continue
+
+      slices.push({
+        id: slices.length,
+        startSample,
+        endSample: Math.min(endSample, length),
+        name: points[i].name,
+      })
+    }
+
+    return this.snapToZeroCrossings(slices)
+  }
+
+  // Detect the key of the file, each section and each slice, plus its chord progression
+  async detectKeys(onProgress?: (progress: number) => void): Promise<KeyAnalysis> {
+    if (!this.buffer) return { key: null, slices: this.slices, sections: this.sections, chords: [] }
+
+    const toKey = (result: KeyResult | null) => (result ? formatKey(result.key, result.scale) : undefined)
+
+    try {
+      // Key and chord analysis are independent, so they run on separate workers
+      const ranges = [...this.sections, ...this.slices]
+      const [keyProgress, chordProgress] = combineProgress([0.6, 0.4], onProgress)
+      const [keyResult, chordResult] = await Promise.all([
+        audioAnalysisService.detectKey(this.buffer, { ranges, onProgress: keyProgress }),
+        audioAnalysisService.detectChords(this.buffer, { onProgress: chordProgress }),
+      ])
+
+      const sectionKeys = keyResult.ranges.slice(0, this.sections.length)
+      const sliceKeys = keyResult.ranges.slice(this.sections.length)
+      const slices = this.slices.map((slice, i) => ({ ...slice, key: toKey(sliceKeys[i]) }))
+      const sections = this.sections.map((section, i) => ({
+        ...section,
+        key: toKey(sectionKeys[i]),
+        slices: section.slices.map((slice) => slices.find((item) => item.id === slice.id) ?? slice),
+      }))
+
+      this.slices = slices
+      this.sections = sections
+      return { key: toKey(keyResult.key) ?? null, slices, sections, chords: chordResult.chords }
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js key detection failed:', error)
+      return { key: null, slices: this.slices, sections: this.sections, chords: [] }
+    }
+  }
+
+  // Sung phrases as annotations with empty text, ready for lyrics. There is no fallback, so analysis
+  // errors are thrown rather than returning no phrases that would replace the annotations
+  async detectVocalPhrases(onProgress?: (progress: number) => void): Promise<Annotation[]> {
+    if (!this.buffer) return []
+
+    const result = await audioAnalysisService.detectVocalPhrases(this.buffer, { onProgress })
+    return result.phrases.map((phrase, i) => ({
+      id: createAnnotationId(i),
+      startTime: phrase.startTime,
+      endTime: phrase.endTime,
+      text: '',
+    }))
+  }
+
   // Detect sections in the audio buffer using Essentia.js
   async detectSections(
     maxSections = 8,
@@ -675,9 +1433,6 @@ class AudioEngine {
     if (!this.buffer) return []
 
     try {
-      // Initialize analysis service if needed
-      await audioAnalysisService.initialize()
-
       // Use real song structure detection
       const structureResult = await audioAnalysisService.detectSongStructure(this.buffer, {
         maxSections,
@@ -726,14 +1481,17 @@ class AudioEngine {
           endSample: boundary.endSample,
           name: boundary.label,
           slices: sectionSlices,
+          group: boundary.group,
+          confidence: boundary.confidence,
         })
       }
 
-      this.sections = sections
       // Flatten all slices from all sections
-      this.slices = sections.flatMap((section) => section.slices)
-      return sections
+      this.slices = this.snapToZeroCrossings(sections.flatMap((section) => section.slices))
+      this.sections = assignSlicesToSections(sections, this.slices)
+      return this.sections
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) throw error
       console.warn('Essentia.js structure detection failed, using fallback:', error)
       return this.detectSectionsFallback(maxSections)
     }
@@ -747,82 +1505,11 @@ class AudioEngine {
     const channelData = buffer.getChannelData(0)
     const sections: AudioSection[] = []
 
-    // Calculate RMS energy across the buffer
-    const blockSize = Math.floor(buffer.sampleRate * 0.5) // 500ms blocks
-    const numBlocks = Math.floor(channelData.length / blockSize)
-    const energyProfile: number[] = []
-
-    for (let i = 0; i < numBlocks; i++) {
-      let sum = 0
-      const startSample = i * blockSize
-      const endSample = Math.min(startSample + blockSize, channelData.length)
-
-      for (let j = startSample; j < endSample; j++) {
-        sum += channelData[j] * channelData[j]
-      }
-
-      const rms = Math.sqrt(sum / (endSample - startSample))
-      energyProfile.push(rms)
-    }
-
-    // Smooth the energy profile
-    const smoothedProfile: number[] = []
-    const smoothingWindow = 5
-
-    for (let i = 0; i < energyProfile.length; i++) {
-      let windowSum = 0
-      let count = 0
-
-      for (let j = Math.max(0, i - smoothingWindow); j < Math.min(energyProfile.length, i + smoothingWindow + 1); j++) {
-        windowSum += energyProfile[j]
-        count++
-      }
-
-      smoothedProfile.push(windowSum / count)
-    }
-
-    // Find significant changes in energy (potential section boundaries)
-    const changeThreshold = 0.1
-    const boundaries: number[] = [0] // Always include the start
-
-    for (let i = 1; i < smoothedProfile.length - 1; i++) {
-      const prevEnergy = smoothedProfile[i - 1]
-      const currEnergy = smoothedProfile[i]
-      const nextEnergy = smoothedProfile[i + 1]
-
-      // Check for significant change in energy
-      if (
-        Math.abs(currEnergy - prevEnergy) / prevEnergy > changeThreshold ||
-        Math.abs(nextEnergy - currEnergy) / currEnergy > changeThreshold
-      ) {
-        boundaries.push(i * blockSize)
-      }
-    }
-
-    // Always include the end
-    boundaries.push(channelData.length - 1)
-
-    // Limit to maxSections by merging closest boundaries if needed
-    while (boundaries.length > maxSections + 1) {
-      let minDistance = Number.POSITIVE_INFINITY
-      let minIndex = -1
-
-      for (let i = 0; i < boundaries.length - 1; i++) {
-        const distance = boundaries[i + 1] - boundaries[i]
-        if (distance < minDistance) {
-          minDistance = distance
-          minIndex = i
-        }
-      }
-
-      // Remove the boundary at the end of the shortest section
-      if (minIndex >= 0) {
-        boundaries.splice(minIndex + 1, 1)
-      }
-    }
-
-    // Sort boundaries (just in case)
-    boundaries.sort((a, b) => a - b)
+    // Boundaries where the spectrum changes most, from the TypeScript DSP module
+    const boundaries = dsp.detectSectionBoundaries(this.getMonoData(), buffer.sampleRate, {
+      maxSections,
+      minSectionDuration: 5,
+    })
 
     // Create sections from boundaries
     for (let i = 0; i < boundaries.length - 1; i++) {
@@ -875,10 +1562,10 @@ class AudioEngine {
       })
     }
 
-    this.sections = sections
     // Flatten all slices from all sections
-    this.slices = sections.flatMap((section) => section.slices)
-    return sections
+    this.slices = this.snapToZeroCrossings(sections.flatMap((section) => section.slices))
+    this.sections = assignSlicesToSections(sections, this.slices)
+    return this.sections
   }
 
   // Detect BPM (tempo) of the audio buffer
@@ -886,15 +1573,15 @@ class AudioEngine {
     if (!this.buffer) return 120
 
     try {
-      // Initialize analysis service if needed
-      await audioAnalysisService.initialize()
-
       // Use real BPM detection
       const bpmResult = await audioAnalysisService.detectBPM(this.buffer)
       return bpmResult.bpm
     } catch (error) {
-      console.warn('Essentia.js BPM detection failed, using default:', error)
-      return 120 // Default BPM
+      if (error instanceof AnalysisCancelledError) throw error
+      console.warn('Essentia.js BPM detection failed, using fallback:', error)
+      const { sampleRate } = this.buffer
+      const tempo = dsp.estimateTempo(await this.getSpectralFlux(), sampleRate / dsp.DEFAULT_HOP_SIZE)
+      return tempo ? Math.round(tempo.bpm) : 120 // Default BPM
     }
   }
 
@@ -918,6 +1605,11 @@ class AudioEngine {
     }
   }
 
+  // Get the current AudioContext time (seconds)
+  getCurrentTime(): number {
+    return this.context ? this.context.currentTime : 0
+  }
+
   getCurrentPlaybackPosition(): number {
     if (!this.currentSourceNode || !this.context || !this.buffer) return 0
 
@@ -932,6 +1624,8 @@ class AudioEngine {
   // Clean up resources
   dispose(): void {
     this.stopAllPlayback()
+    this.effectsChain?.dispose()
+    this.effectsChain = null
     if (this.context) {
       this.context.close().catch(console.error)
     }
@@ -939,9 +1633,12 @@ class AudioEngine {
     this.masterGainNode = null
     this.analyserNode = null
     this.buffer = null
+    this.monoData = null
     this.slices = []
     this.sections = []
     this.isInitialized = false
+    this.timeStretchAvailable = false
+    this.workletsLoaded = false
   }
 }
 
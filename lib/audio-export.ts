@@ -0,0 +1,310 @@
+/**
+ * Audio Export - Offline rendering of slices, sections and the sequencer arrangement to WAV
+ */
+
+import {
+  TIME_STRETCH_LATENCY,
+  buildVoice,
+  createFadedSlice,
+  getSourceStartTime,
+  getTimelineRate,
+  registerWorklets,
+  type AudioSection,
+  type AudioSlice,
+  type PlaybackOptions,
+  type SliceFades,
+} from "./audio-engine"
+import { EffectsChain, estimateEffectsTail, type EffectState } from "./audio-effects"
+import {
+  getArrangementHits,
+  getSongOrder,
+  type SequencerPattern,
+  type SongEntry,
+} from "./sequencer-engine"
+import { createZip, type ZipEntry } from "./zip"
+
+// 16/24-bit integer PCM, or 32-bit IEEE float
+export type WavBitDepth = 16 | 24 | 32
+
+export interface RenderOptions {
+  effects?: EffectState[] // rendered through the same chain as live playback
+  voice?: PlaybackOptions // volume, stretch, semitones applied to every voice
+  tail?: number // seconds rendered after the last voice; defaults to the effects' estimated tail
+  sliceFades?: SliceFades // baked into slice voices that leave fadeIn/fadeOut unset, as in live playback
+}
+
+export interface ArrangementSource {
+  patterns: SequencerPattern[]
+  arrangement: SongEntry[] // empty renders `activePattern` once
+  activePattern: number
+  bpm: number
+  swing: number
+}
+
+interface RenderVoice {
+  startSample: number
+  endSample: number
+  time: number
+  options: PlaybackOptions
+}
+
+// Seeded generator so step probabilities render the same way every time
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Render voices from `buffer` through the effects chain into a new buffer.
+// Rendering starts early by the time-stretch latency, so stretched voices can start their source
+// ahead of time like live playback does; that lead-in is cut from the result.
+async function renderVoices(
+  buffer: AudioBuffer,
+  voices: RenderVoice[],
+  duration: number,
+  options: RenderOptions,
+): Promise<AudioBuffer> {
+  const effects = options.effects || []
+  const tail = options.tail !== undefined ? options.tail : estimateEffectsTail(effects)
+  const length = Math.max(1, Math.ceil((duration + tail) * buffer.sampleRate))
+  const leadIn = TIME_STRETCH_LATENCY
+  const context = new OfflineAudioContext(buffer.numberOfChannels, length + leadIn, buffer.sampleRate)
+  const leadInTime = leadIn / buffer.sampleRate
+
+  const available = await registerWorklets(context)
+
+  const chain = new EffectsChain(context)
+  chain.update(effects)
+  chain.output.connect(context.destination)
+
+  // Arrangements repeat slices, so each faded copy is made once per render
+  const fadedSlices = new Map<string, AudioBuffer | null>()
+  const getFadedSlice = (voice: RenderVoice) => {
+    if (!options.sliceFades) return null
+    const key = `${voice.startSample}:${voice.endSample}:${voice.options.fadeIn === undefined}:${voice.options.fadeOut === undefined}`
+    if (!fadedSlices.has(key)) {
+      fadedSlices.set(key, createFadedSlice(context, buffer, voice.startSample, voice.endSample, options.sliceFades, voice.options))
+    }
+    return fadedSlices.get(key) ?? null
+  }
+
+  voices.forEach((voice) => {
+    const time = voice.time + leadInTime
+    const faded = getFadedSlice(voice)
+    const built = buildVoice(context, faded ?? buffer, voice.options, time, available.timeStretch)
+    const { sourceNode, gainNode } = built
+    gainNode.connect(chain.input)
+
+    const offset = faded ? 0 : voice.startSample / buffer.sampleRate
+    const sourceDuration = (voice.endSample - voice.startSample) / buffer.sampleRate
+    const fadeOut = voice.options.fadeOut
+
+    if (fadeOut && fadeOut > 0) {
+      const end = time + sourceDuration / getTimelineRate(voice.options)
+      const volume = voice.options.volume !== undefined ? voice.options.volume : 1.0
+      gainNode.gain.setValueAtTime(volume, Math.max(time, end - fadeOut / 1000))
+      gainNode.gain.linearRampToValueAtTime(0, end)
+    }
+
+    sourceNode.start(getSourceStartTime(context, built, time), offset, sourceDuration)
+  })
+
+  const rendered = await context.startRendering()
+  chain.dispose()
+
+  const output = context.createBuffer(rendered.numberOfChannels, length, rendered.sampleRate)
+  for (let channel = 0; channel < rendered.numberOfChannels; channel++) {
+    output.copyToChannel(rendered.getChannelData(channel).subarray(leadIn), channel)
+  }
+  return output
+}
+
+// Render one slice as a one-shot
+export function renderSlice(buffer: AudioBuffer, slice: AudioSlice, options: RenderOptions = {}): Promise<AudioBuffer> {
+  return renderRegion(buffer, slice.startSample, slice.endSample, options)
+}
+
+// Render a whole section
+export function renderSection(
+  buffer: AudioBuffer,
+  section: AudioSection,
+  options: RenderOptions = {},
+): Promise<AudioBuffer> {
+  // Like live section playback, sections play without the slice fades
+  return renderRegion(buffer, section.startSample, section.endSample, { ...options, sliceFades: undefined })
+}
+
+// Render a sample range of the buffer
+export function renderRegion(
+  buffer: AudioBuffer,
+  startSample: number,
+  endSample: number,
+  options: RenderOptions = {},
+): Promise<AudioBuffer> {
+  const voiceOptions = options.voice || {}
+  const start = Math.max(0, Math.min(buffer.length, Math.floor(startSample)))
+  const end = Math.max(start + 1, Math.min(buffer.length, Math.ceil(endSample)))
+  const duration = (end - start) / buffer.sampleRate / getTimelineRate(voiceOptions)
+
+  return renderVoices(buffer, [{ startSample: start, endSample: end, time: 0, options: voiceOptions }], duration, options)
+}
+
+// Render the sequencer: the song arrangement when there is one, otherwise the active pattern once
+export function renderArrangement(
+  buffer: AudioBuffer,
+  slices: AudioSlice[],
+  source: ArrangementSource,
+  options: RenderOptions = {},
+): Promise<AudioBuffer> {
+  const order = getSongOrder(source.arrangement, source.activePattern)
+  const { hits, duration } = getArrangementHits(
+    source.patterns,
+    order,
+    source.bpm,
+    source.swing,
+    options.voice || {},
+    createRandom(1),
+  )
+
+  const voices: RenderVoice[] = []
+  let end = duration
+
+  hits.forEach((hit) => {
+    const slice = slices.find((item) => item.id === hit.sliceId)
+    if (!slice) return
+    voices.push({ startSample: slice.startSample, endSample: slice.endSample, time: hit.time, options: hit.options })
+    end = Math.max(end, hit.time + (slice.endSample - slice.startSample) / buffer.sampleRate / getTimelineRate(hit.options))
+  })
+
+  return renderVoices(buffer, voices, end, options)
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+// Encode an AudioBuffer as an interleaved WAV file
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const channels = buffer.numberOfChannels
+  const frames = buffer.length
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = channels * bytesPerSample
+  const dataSize = frames * blockAlign
+  const isFloat = bitDepth === 32
+
+  // Non-PCM formats carry a fact chunk with the frame count
+  const factSize = isFloat ? 12 : 0
+  const headerSize = 44 + factSize
+  const view = new DataView(new ArrayBuffer(headerSize + dataSize))
+
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, headerSize - 8 + dataSize, true)
+  writeString(view, 8, "WAVE")
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, isFloat ? 3 : 1, true)
+  view.setUint16(22, channels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+
+  let offset = 36
+  if (isFloat) {
+    writeString(view, offset, "fact")
+    view.setUint32(offset + 4, 4, true)
+    view.setUint32(offset + 8, frames, true)
+    offset += 12
+  }
+
+  writeString(view, offset, "data")
+  view.setUint32(offset + 4, dataSize, true)
+  offset += 8
+
+  const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel))
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = channelData[channel][frame]
+
+      if (isFloat) {
+        view.setFloat32(offset, sample, true)
+      } else {
+        const clamped = Math.max(-1, Math.min(1, sample))
+        if (bitDepth === 16) {
+          view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true)
+        } else {
+          const value = Math.round(clamped < 0 ? clamped * 0x800000 : clamped * 0x7fffff)
+          view.setUint8(offset, value & 0xff)
+          view.setUint8(offset + 1, (value >> 8) & 0xff)
+          view.setUint8(offset + 2, (value >> 16) & 0xff)
+        }
+      }
+
+      offset += bytesPerSample
+    }
+  }
+
+  return view.buffer
+}
+
+// Turn a slice or section name into a safe file name
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+  return cleaned || "untitled"
+}
+
+// Numbered file name for a sample pack entry, e.g. "03 - Snare.wav"
+export function getExportFileName(index: number, name: string, total: number): string {
+  const digits = Math.max(2, String(total).length)
+  return `${String(index + 1).padStart(digits, "0")} - ${sanitizeFileName(name)}.wav`
+}
+
+// Render every slice and bundle them as a numbered ZIP sample pack
+export async function exportSamplePack(
+  buffer: AudioBuffer,
+  slices: AudioSlice[],
+  bitDepth: WavBitDepth,
+  options: RenderOptions = {},
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> {
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < slices.length; i++) {
+    const rendered = await renderSlice(buffer, slices[i], options)
+    entries.push({
+      name: getExportFileName(i, slices[i].name, slices.length),
+      data: new Uint8Array(encodeWav(rendered, bitDepth)),
+    })
+    onProgress?.(i + 1, slices.length)
+  }
+
+  return createZip(entries)
+}
+
+// Wrap an encoded WAV in a Blob
+export function wavToBlob(wav: ArrayBuffer): Blob {
+  return new Blob([wav], { type: "audio/wav" })
+}
+
+// Save a Blob through a temporary download link
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,91 @@
+/**
+ * Drum Kit - Names classified drum hits and lays them out on sequencer tracks
+ */
+
+import type { DrumClass } from "./audio-analysis-core"
+import type { AudioSlice } from "./audio-engine"
+import { getStepDuration, type SequencerPattern } from "./sequencer-engine"
+
+export const DRUM_CLASS_LABELS: Record<DrumClass, string> = {
+  kick: "Kick",
+  snare: "Snare",
+  clap: "Clap",
+  hat: "Hi-Hat",
+  tom: "Tom",
+  other: "Perc",
+}
+
+// Track order for a kit: the classes a beat is usually built from come first
+export const DRUM_CLASS_ORDER: DrumClass[] = ["kick", "snare", "clap", "hat", "tom", "other"]
+
+// Name slices by class, numbering repeats: "Kick 1", "Hi-Hat 1", "Hi-Hat 2"
+export function nameDrumSlices(slices: AudioSlice[]): AudioSlice[] {
+  const counts = new Map<DrumClass, number>()
+  return slices.map((slice) => {
+    if (!slice.drumClass) return slice
+    const count = (counts.get(slice.drumClass) ?? 0) + 1
+    counts.set(slice.drumClass, count)
+    return { ...slice, name: `${DRUM_CLASS_LABELS[slice.drumClass]} ${count}` }
+  })
+}
+
+// One slice per track: the first hit of each class in kit order, then the remaining hits
+export function getKitSliceOrder(slices: AudioSlice[]): AudioSlice[] {
+  const classified = slices.filter((slice) => slice.drumClass)
+  const leads = DRUM_CLASS_ORDER.flatMap((drumClass) => {
+    const first = classified.find((slice) => slice.drumClass === drumClass)
+    return first ? [first] : []
+  })
+  return [...leads, ...classified.filter((slice) => !leads.includes(slice))]
+}
+
+// Point a pattern's tracks at the kit; tracks beyond the kit keep their slice
+export function assignKitTracks(pattern: SequencerPattern, slices: AudioSlice[]): SequencerPattern {
+  const kit = getKitSliceOrder(slices)
+  if (kit.length === 0) return pattern
+  if (pattern.tracks.every((track, index) => index >= kit.length || track.sliceId === kit[index].id)) return pattern
+
+  return {
+    ...pattern,
+    tracks: pattern.tracks.map((track, index) => (index < kit.length ? { ...track, sliceId: kit[index].id } : track)),
+  }
+}
+
+// Assign the kit and program the loop's own hits onto the 16th-note grid, starting from its first hit.
+// `bpm` is the loop's tempo, so the hits land on the steps they were played on
+export function buildKitPattern(
+  pattern: SequencerPattern,
+  slices: AudioSlice[],
+  sampleRate: number,
+  bpm: number,
+): SequencerPattern {
+  const assigned = assignKitTracks(pattern, slices)
+  const kit = getKitSliceOrder(slices)
+  if (kit.length === 0 || slices.length === 0) return assigned
+
+  const stepSamples = getStepDuration(bpm) * sampleRate
+  const origin = Math.min(...slices.map((slice) => slice.startSample))
+  const tracks = assigned.tracks.map((track) => ({ ...track, steps: track.steps.map((step) => ({ ...step, active: false })) }))
+
+  slices.forEach((slice) => {
+    // Extra hits of a class share the track of that class's first hit
+    const trackIndex = kit.findIndex((item) => item.id === slice.id)
+    const track =
+      trackIndex >= 0 && trackIndex < tracks.length
+        ? trackIndex
+        : kit.findIndex((item) => item.drumClass === slice.drumClass)
+    if (track < 0 || track >= tracks.length) return
+
+    const step = Math.round((slice.startSample - origin) / stepSamples)
+    if (step < 0 || step >= assigned.length) return
+
+    const cell = tracks[track].steps[step]
+    tracks[track].steps[step] = {
+      ...cell,
+      active: true,
+      sliceId: tracks[track].sliceId === slice.id ? null : slice.id,
+    }
+  })
+
+  return { ...assigned, tracks }
+}
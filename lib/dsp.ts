@@ -0,0 +1,400 @@
+/**
+ * DSP - Plain TypeScript signal processing used when Essentia.js cannot be loaded
+ *
+ * No browser APIs: everything works on Float32Array samples, so it runs the same in a
+ * page, a worker or Node.
+ */
+
+export interface Onsets {
+  timestamps: number[] // in samples
+  times: number[] // in seconds
+}
+
+export interface TempoEstimate {
+  bpm: number
+  confidence: number // 0-1, height of the autocorrelation peak relative to lag 0
+}
+
+export interface FrameOptions {
+  frameSize?: number // power of two
+  hopSize?: number
+}
+
+export const DEFAULT_FRAME_SIZE = 2048
+export const DEFAULT_HOP_SIZE = 512
+
+// Frames of spectral flux computed between yields to the event loop
+const FLUX_FRAMES_PER_CHUNK = 256
+
+const windowCache = new Map<number, Float32Array>()
+const twiddleCache = new Map<number, { cos: Float32Array; sin: Float32Array }>()
+
+// Symmetric Hann window, cached per size
+export function hannWindow(size: number): Float32Array {
+  const cached = windowCache.get(size)
+  if (cached) return cached
+
+  const window = new Float32Array(size)
+  for (let n = 0; n < size; n++) {
+    window[n] = 0.5 * (1 - Math.cos((2 * Math.PI * n) / (size - 1)))
+  }
+  windowCache.set(size, window)
+  return window
+}
+
+// cos/sin of -2πk/n for k < n/2, cached per FFT size
+function twiddles(n: number): { cos: Float32Array; sin: Float32Array } {
+  const cached = twiddleCache.get(n)
+  if (cached) return cached
+
+  const cos = new Float32Array(n >> 1)
+  const sin = new Float32Array(n >> 1)
+  for (let k = 0; k < cos.length; k++) {
+    cos[k] = Math.cos((-2 * Math.PI * k) / n)
+    sin[k] = Math.sin((-2 * Math.PI * k) / n)
+  }
+  const table = { cos, sin }
+  twiddleCache.set(n, table)
+  return table
+}
+
+// In-place iterative radix-2 FFT; both arrays must have the same power-of-two length
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${n}`)
+  }
+  const table = twiddles(n)
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      const realValue = real[i]
+      const imagValue = imag[i]
+      real[i] = real[j]
+      imag[i] = imag[j]
+      real[j] = realValue
+      imag[j] = imagValue
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1
+    // Stage twiddle k is table entry k * n / size
+    const stride = n / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = table.cos[k * stride]
+        const sin = table.sin[k * stride]
+        const evenIndex = start + k
+        const oddIndex = evenIndex + half
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos
+        real[oddIndex] = real[evenIndex] - oddReal
+        imag[oddIndex] = imag[evenIndex] - oddImag
+        real[evenIndex] += oddReal
+        imag[evenIndex] += oddImag
+      }
+    }
+  }
+}
+
+// Magnitudes of bins 0..N/2 of a Hann-windowed frame; short frames are zero-padded
+export function magnitudeSpectrum(frame: Float32Array, size = frame.length): Float32Array {
+  const window = hannWindow(size)
+  const real = new Float32Array(size)
+  const imag = new Float32Array(size)
+  for (let i = 0; i < Math.min(size, frame.length); i++) {
+    real[i] = frame[i] * window[i]
+  }
+
+  fft(real, imag)
+
+  const magnitudes = new Float32Array(size / 2 + 1)
+  for (let bin = 0; bin < magnitudes.length; bin++) {
+    magnitudes[bin] = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin])
+  }
+  return magnitudes
+}
+
+// Appends spectral flux to `flux`, pausing after every `framesPerChunk` frames
+function* fluxChunks(samples: Float32Array, options: FrameOptions, flux: number[], framesPerChunk: number): Generator<void> {
+  const { frameSize = DEFAULT_FRAME_SIZE, hopSize = DEFAULT_HOP_SIZE } = options
+  let previous: Float32Array | null = null
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const spectrum = magnitudeSpectrum(samples.subarray(start, start + frameSize))
+    let value = 0
+    if (previous) {
+      for (let bin = 0; bin < spectrum.length; bin++) {
+        const diff = spectrum[bin] - previous[bin]
+        if (diff > 0) value += diff
+      }
+    }
+    flux.push(value)
+    previous = spectrum
+    if (flux.length % framesPerChunk === 0) yield
+  }
+}
+
+// Half-wave rectified spectral flux, one value per hop; frame i starts at sample i * hopSize
+export function spectralFlux(samples: Float32Array, options: FrameOptions = {}): number[] {
+  const flux: number[] = []
+  // With no chunk limit the generator runs to the end in one step
+  fluxChunks(samples, options, flux, Infinity).next()
+  return flux
+}
+
+// spectralFlux in chunks, yielding to the event loop between them so a long file does not block the page
+export async function spectralFluxAsync(samples: Float32Array, options: FrameOptions = {}): Promise<number[]> {
+  const flux: number[] = []
+  for (const _ of fluxChunks(samples, options, flux, FLUX_FRAMES_PER_CHUNK)) {
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+  return flux
+}
+
+// Index of the zero crossing nearest to `index` within maxDistance samples, or `index` if there is none.
+// A crossing at i lies between samples i - 1 and i; the one of the two closer to zero is returned.
+export function nearestZeroCrossing(samples: Float32Array, index: number, maxDistance: number): number {
+  const position = Math.max(0, Math.min(samples.length - 1, Math.round(index)))
+  const crossesAt = (i: number) => i > 0 && i < samples.length && (samples[i - 1] < 0) !== (samples[i] < 0)
+  const closer = (i: number) => (Math.abs(samples[i - 1]) < Math.abs(samples[i]) ? i - 1 : i)
+
+  if (samples[position] === 0) return position
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    if (crossesAt(position + distance)) return closer(position + distance)
+    if (distance > 0 && crossesAt(position - distance)) return closer(position - distance)
+  }
+  return position
+}
+
+// Linear fade in over the first `attack` samples and out over the last `release` samples, in place
+export function applyFades(samples: Float32Array, attack: number, release: number): void {
+  const length = samples.length
+  const fadeIn = Math.min(length, Math.max(0, Math.round(attack)))
+  const fadeOut = Math.min(length, Math.max(0, Math.round(release)))
+  for (let i = 0; i < fadeIn; i++) samples[i] *= i / fadeIn
+  for (let i = 0; i < fadeOut; i++) samples[length - 1 - i] *= i / fadeOut
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Local maxima above a moving median + multiplier * MAD threshold, at least minDistance apart.
+ * The threshold follows the level of the signal, so quiet passages still yield peaks.
+ */
+export function pickPeaks(
+  values: number[],
+  options: {
+    multiplier?: number // higher = fewer peaks
+    windowSize?: number // values either side used for the local threshold
+    minDistance?: number // in values
+  } = {}
+): number[] {
+  const { multiplier = 1.5, windowSize = 16, minDistance = 1 } = options
+  const peak = values.reduce((max, value) => Math.max(max, value), 0)
+  // Ignore ripples in near silence
+  const floor = peak * 0.01
+  const peaks: number[] = []
+
+  for (let i = 1; i < values.length - 1; i++) {
+    const value = values[i]
+    if (value <= floor || value <= values[i - 1] || value < values[i + 1]) continue
+
+    const local = values.slice(Math.max(0, i - windowSize), Math.min(values.length, i + windowSize + 1))
+    const center = median(local)
+    const deviation = median(local.map((item) => Math.abs(item - center)))
+    if (value <= center + multiplier * deviation) continue
+
+    const last = peaks[peaks.length - 1]
+    if (last !== undefined && i - last < minDistance) {
+      // Keep the stronger of two peaks that are too close
+      if (value > values[last]) peaks[peaks.length - 1] = i
+      continue
+    }
+    peaks.push(i)
+  }
+
+  return peaks
+}
+
+// Spectral-flux onsets; sensitivity 0-1, higher finds more onsets
+export function detectOnsets(
+  samples: Float32Array,
+  sampleRate: number,
+  options: FrameOptions & {
+    sensitivity?: number
+    minDistance?: number // seconds
+  } = {}
+): Onsets {
+  const { frameSize = DEFAULT_FRAME_SIZE, hopSize = DEFAULT_HOP_SIZE } = options
+  return onsetsFromFlux(spectralFlux(samples, { frameSize, hopSize }), sampleRate, { ...options, hopSize })
+}
+
+// Onsets from a spectral flux computed with `hopSize`; sensitivity as in detectOnsets
+export function onsetsFromFlux(
+  flux: number[],
+  sampleRate: number,
+  options: {
+    hopSize?: number
+    sensitivity?: number
+    minDistance?: number // seconds
+  } = {}
+): Onsets {
+  const { sensitivity = 0.5, minDistance = 0.05, hopSize = DEFAULT_HOP_SIZE } = options
+  const peaks = pickPeaks(flux, {
+    multiplier: 0.5 + (1 - Math.max(0, Math.min(1, sensitivity))) * 3,
+    minDistance: Math.max(1, Math.round((minDistance * sampleRate) / hopSize)),
+  })
+
+  return {
+    timestamps: peaks.map((frame) => frame * hopSize),
+    times: peaks.map((frame) => (frame * hopSize) / sampleRate),
+  }
+}
+
+/**
+ * Tempo from the autocorrelation of an onset function sampled at frameRate values per second.
+ * Lags are searched between minBpm and maxBpm, and the peak is refined by parabolic interpolation.
+ */
+export function estimateTempo(
+  onsetFunction: number[],
+  frameRate: number,
+  options: { minBpm?: number; maxBpm?: number } = {}
+): TempoEstimate | null {
+  const { minBpm = 60, maxBpm = 200 } = options
+  const mean = onsetFunction.reduce((sum, value) => sum + value, 0) / Math.max(1, onsetFunction.length)
+  const centered = onsetFunction.map((value) => value - mean)
+
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm))
+  const maxLag = Math.min(centered.length - 1, Math.ceil((60 * frameRate) / minBpm))
+  if (maxLag <= minLag) return null
+
+  const correlate = (lag: number) => {
+    let sum = 0
+    for (let i = lag; i < centered.length; i++) {
+      sum += centered[i] * centered[i - lag]
+    }
+    return sum / (centered.length - lag)
+  }
+
+  const energy = correlate(0)
+  if (energy <= 0) return null
+
+  const scores: number[] = []
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    scores.push(correlate(Math.max(0, lag)))
+  }
+
+  // A periodic onset function correlates as well at twice the beat period, so lags are weighted
+  // towards common tempos (log-normal around 120 BPM) to avoid picking half the tempo
+  const weighted = (lag: number) => {
+    const octaves = Math.log2((60 * frameRate) / lag / 120)
+    return scores[lag - minLag + 1] * Math.exp(-0.5 * octaves * octaves)
+  }
+
+  let bestLag = minLag
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (weighted(lag) > weighted(bestLag)) bestLag = lag
+  }
+
+  const before = scores[bestLag - minLag]
+  const at = scores[bestLag - minLag + 1]
+  const after = scores[bestLag - minLag + 2]
+  const curvature = before - 2 * at + after
+  const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0
+  const lag = bestLag + Math.max(-0.5, Math.min(0.5, offset))
+
+  return {
+    bpm: (60 * frameRate) / lag,
+    confidence: Math.max(0, Math.min(1, at / energy)),
+  }
+}
+
+// Tempo of a signal from its spectral flux
+export function detectTempo(
+  samples: Float32Array,
+  sampleRate: number,
+  options: FrameOptions & { minBpm?: number; maxBpm?: number } = {}
+): TempoEstimate | null {
+  const { frameSize = DEFAULT_FRAME_SIZE, hopSize = DEFAULT_HOP_SIZE, minBpm, maxBpm } = options
+  const flux = spectralFlux(samples, { frameSize, hopSize })
+  return estimateTempo(flux, sampleRate / hopSize, { minBpm, maxBpm })
+}
+
+/**
+ * Section boundaries (in samples, including 0 and samples.length) where the spectral character
+ * changes most: log band energies per block, compared between the blocks before and after each point.
+ */
+export function detectSectionBoundaries(
+  samples: Float32Array,
+  sampleRate: number,
+  options: {
+    maxSections?: number
+    minSectionDuration?: number // seconds
+    blockDuration?: number // seconds
+  } = {}
+): number[] {
+  const { maxSections = 8, minSectionDuration = 5, blockDuration = 0.5 } = options
+  const blockSize = Math.max(1, Math.floor(sampleRate * blockDuration))
+  const frameSize = 4096
+  const bandCount = 12
+  const features: number[][] = []
+
+  for (let start = 0; start + blockSize <= samples.length; start += blockSize) {
+    const frame = samples.subarray(start, Math.min(samples.length, start + frameSize))
+    const spectrum = magnitudeSpectrum(frame, frameSize)
+    // Log-spaced bands from ~40 Hz to Nyquist
+    const bands = new Array(bandCount).fill(0)
+    const lowBin = Math.max(1, Math.floor((40 * frameSize) / sampleRate))
+    const ratio = Math.pow(spectrum.length / lowBin, 1 / bandCount)
+    for (let band = 0; band < bandCount; band++) {
+      const from = Math.floor(lowBin * Math.pow(ratio, band))
+      const to = Math.max(from + 1, Math.floor(lowBin * Math.pow(ratio, band + 1)))
+      for (let bin = from; bin < Math.min(to, spectrum.length); bin++) {
+        bands[band] += spectrum[bin] * spectrum[bin]
+      }
+    }
+    features.push(bands.map((energy) => Math.log10(1e-10 + energy)))
+  }
+
+  const context = 4 // blocks either side compared at each point
+  const novelty = features.map((_, i) => {
+    if (i < context || i + context > features.length) return 0
+    let distance = 0
+    for (let band = 0; band < bandCount; band++) {
+      let before = 0
+      let after = 0
+      for (let k = 1; k <= context; k++) {
+        before += features[i - k][band]
+        after += features[i + k - 1][band]
+      }
+      distance += ((after - before) / context) ** 2
+    }
+    return Math.sqrt(distance)
+  })
+
+  const minDistance = Math.max(1, Math.round(minSectionDuration / blockDuration))
+  const candidates = pickPeaks(novelty, { multiplier: 1, windowSize: minDistance * 2, minDistance }).filter(
+    (block) => block >= minDistance && features.length - block >= minDistance
+  )
+  // Changes much weaker than the clearest one are variation within a section
+  const strongest = candidates.reduce((max, block) => Math.max(max, novelty[block]), 0)
+  const peaks = candidates
+    .filter((block) => novelty[block] >= strongest * 0.25)
+    .sort((a, b) => novelty[b] - novelty[a])
+    .slice(0, Math.max(0, maxSections - 1))
+    .sort((a, b) => a - b)
+
+  return [0, ...peaks.map((block) => block * blockSize), samples.length]
+}
@@ -0,0 +1,153 @@
+/**
+ * History - Undo/redo stack for slice, section, annotation, effect and sequencer edits
+ *
+ * Entries are plain data holding the affected state before and after each edit, so the stack
+ * can be saved with the project and still undo after it is reopened.
+ */
+
+import type { AudioSection, AudioSlice } from "./audio-engine"
+import type { EffectState } from "./audio-effects"
+import type { Annotation } from "./annotations"
+import type { SequencerPattern } from "./sequencer-engine"
+
+// One pattern of the bank, by index
+export interface PatternSnapshot {
+  index: number
+  pattern: SequencerPattern
+}
+
+// The parts of the session an edit touched; anything left out is unaffected
+export interface HistorySnapshot {
+  slices?: AudioSlice[]
+  sections?: AudioSection[]
+  annotations?: Annotation[]
+  effects?: EffectState[]
+  patterns?: PatternSnapshot[]
+}
+
+export interface HistoryEntry {
+  id: string
+  description: string // e.g. "Detect transients", shown in undo/redo tooltips
+  timestamp: number
+  before: HistorySnapshot
+  after: HistorySnapshot
+  mergeKey?: string // consecutive edits with the same key (slider drags) collapse into one entry
+}
+
+export interface HistoryState {
+  undo: HistoryEntry[] // oldest first
+  redo: HistoryEntry[] // next redo last
+}
+
+// Entries kept per stack; older ones are dropped
+export const HISTORY_LIMIT = 100
+
+// Edits with the same merge key closer together than this (ms) become one entry
+const MERGE_WINDOW = 1000
+
+class HistoryStore {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private listeners: Set<() => void> = new Set()
+
+  // Record an edit that has already been applied; clears the redo stack
+  record(description: string, before: HistorySnapshot, after: HistorySnapshot, mergeKey?: string): void {
+    const now = Date.now()
+    const last = this.undoStack[this.undoStack.length - 1]
+
+    if (mergeKey && last && last.mergeKey === mergeKey && now - last.timestamp < MERGE_WINDOW) {
+      // Keep the state from before the first edit, take everything else from the latest
+      this.undoStack[this.undoStack.length - 1] = { ...last, description, timestamp: now, after }
+    } else {
+      this.undoStack.push({
+        id: `edit-${now}-${Math.random().toString(36).substr(2, 9)}`,
+        description,
+        timestamp: now,
+        before,
+        after,
+        mergeKey,
+      })
+      if (this.undoStack.length > HISTORY_LIMIT) {
+        this.undoStack.splice(0, this.undoStack.length - HISTORY_LIMIT)
+      }
+    }
+
+    this.redoStack = []
+    this.emit()
+  }
+
+  // Step back; the caller applies `entry.before`
+  undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop()
+    if (!entry) return null
+    this.redoStack.push(entry)
+    this.emit()
+    return entry
+  }
+
+  // Step forward again; the caller applies `entry.after`
+  redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop()
+    if (!entry) return null
+    this.undoStack.push(entry)
+    this.emit()
+    return entry
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  // Description of the edit the next undo reverts
+  getUndoDescription(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.description ?? null
+  }
+
+  // Description of the edit the next redo reapplies
+  getRedoDescription(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.description ?? null
+  }
+
+  // Both stacks, for saving with the project
+  getState(): HistoryState {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] }
+  }
+
+  // Replace both stacks, e.g. when a project is opened
+  setState(state: HistoryState): void {
+    this.undoStack = state.undo.slice(-HISTORY_LIMIT)
+    this.redoStack = state.redo.slice(-HISTORY_LIMIT)
+    this.emit()
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+    this.emit()
+  }
+
+  // Subscribe to stack changes; returns an unsubscribe function
+  addListener(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (error) {
+        console.error("History listener failed:", error)
+      }
+    })
+  }
+}
+
+// Create a singleton instance
+export const historyStore = new HistoryStore()
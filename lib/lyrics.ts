@@ -0,0 +1,248 @@
+/**
+ * Lyrics - Reads and writes timed lyrics (LRC, SRT) and aligns plain text lyrics to sung phrases
+ */
+
+import { createAnnotationId, type Annotation } from "./annotations"
+
+export type LyricsFormat = "lrc" | "srt" | "text"
+
+export interface TimeRange {
+  startTime: number // seconds
+  endTime: number // seconds
+}
+
+// How long the last LRC line lasts when the audio duration is unknown
+const DEFAULT_LINE_DURATION = 5
+
+// Format from the file extension, then from the content
+export function detectLyricsFormat(fileName: string, content: string): LyricsFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "lrc") return "lrc"
+  if (extension === "srt") return "srt"
+  if (/^\s*\[\d+:\d+(?:[.:]\d+)?\]/m.test(content)) return "lrc"
+  if (/\d+:\d+:\d+[,.]\d+\s*-->/.test(content)) return "srt"
+  return "text"
+}
+
+// Timed lyrics are parsed as-is; plain text is aligned to the phrases
+export function parseLyrics(
+  content: string,
+  format: LyricsFormat,
+  options: { phrases?: TimeRange[]; duration: number }
+): Annotation[] {
+  if (format === "lrc") return parseLrc(content, options.duration)
+  if (format === "srt") return parseSrt(content)
+  return alignLyrics(splitLyricLines(content), options.phrases ?? [], options.duration)
+}
+
+// "mm:ss.xx" or "mm:ss" in seconds
+function parseLrcTime(minutes: string, seconds: string): number {
+  return parseInt(minutes, 10) * 60 + parseFloat(seconds.replace(":", "."))
+}
+
+/**
+ * LRC lines: `[mm:ss.xx]text`, possibly with several timestamps per line. Each line lasts until
+ * the next timestamp; a timestamp with no text only ends the line before it. An `[offset:ms]` tag
+ * shifts every line (positive offsets make lyrics appear earlier).
+ */
+export function parseLrc(content: string, duration?: number): Annotation[] {
+  let offset = 0
+  const entries: { time: number; text: string }[] = []
+
+  for (const line of content.split(/\r?\n/)) {
+    const offsetTag = line.match(/^\s*\[offset:\s*([+-]?\d+)\s*\]/i)
+    if (offsetTag) {
+      offset = parseInt(offsetTag[1], 10) / 1000
+      continue
+    }
+
+    const times: number[] = []
+    let rest = line.trim()
+    let match: RegExpMatchArray | null
+    while ((match = rest.match(/^\[(\d+):(\d+(?:[.:]\d+)?)\]/))) {
+      times.push(parseLrcTime(match[1], match[2]))
+      rest = rest.slice(match[0].length)
+    }
+    // Strip enhanced-LRC word timestamps, e.g. <00:12.34>
+    const text = rest.replace(/<\d+:\d+(?:[.:]\d+)?>/g, "").trim()
+    times.forEach((time) => entries.push({ time, text }))
+  }
+
+  entries.sort((a, b) => a.time - b.time)
+
+  const annotations: Annotation[] = []
+  entries.forEach((entry, i) => {
+    if (!entry.text) return
+    const startTime = Math.max(0, entry.time - offset)
+    const next = entries[i + 1]
+    const endTime = next
+      ? Math.max(startTime, next.time - offset)
+      : Math.max(startTime, duration ?? startTime + DEFAULT_LINE_DURATION)
+    annotations.push({ id: createAnnotationId(annotations.length), startTime, endTime, text: entry.text })
+  })
+
+  return annotations
+}
+
+// "hh:mm:ss,mmm" in seconds
+function parseSrtTime(value: string): number {
+  const [hours, minutes, seconds] = value.trim().replace(",", ".").split(":")
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds)
+}
+
+// SRT cues; multi-line cue text is joined into one line
+export function parseSrt(content: string): Annotation[] {
+  const annotations: Annotation[] = []
+
+  for (const block of content.replace(/^﻿/, "").split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map((line) => line.trim())
+    const timingIndex = lines.findIndex((line) => line.includes("-->"))
+    if (timingIndex < 0) continue
+
+    const [start, end] = lines[timingIndex].split("-->")
+    const text = lines
+      .slice(timingIndex + 1)
+      .filter(Boolean)
+      .join(" ")
+      // Drop formatting tags such as <i> and {\an8}
+      .replace(/<[^>]+>|\{[^}]+\}/g, "")
+      .trim()
+    const startTime = parseSrtTime(start)
+    const endTime = parseSrtTime(end.trim().split(/\s+/)[0])
+    if (!text || Number.isNaN(startTime) || Number.isNaN(endTime)) continue
+
+    annotations.push({ id: createAnnotationId(annotations.length), startTime, endTime: Math.max(startTime, endTime), text })
+  }
+
+  return annotations.sort((a, b) => a.startTime - b.startTime)
+}
+
+// Non-empty lines of plain text lyrics
+export function splitLyricLines(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Split `items` weighted by `weights` into `groups` contiguous runs whose share of the total
+ * weight best matches `targets` (squared error, by dynamic programming). Returns the start index
+ * of each run.
+ */
+function partition(weights: number[], targets: number[]): number[] {
+  const n = weights.length
+  const groups = targets.length
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1
+  const totalTarget = targets.reduce((sum, target) => sum + target, 0) || 1
+  const prefix = [0]
+  weights.forEach((weight) => prefix.push(prefix[prefix.length - 1] + weight / totalWeight))
+
+  // cost[g][i]: best cost of the first g groups covering the first i items
+  const cost = Array.from({ length: groups + 1 }, () => new Array<number>(n + 1).fill(Infinity))
+  const from = Array.from({ length: groups + 1 }, () => new Array<number>(n + 1).fill(0))
+  cost[0][0] = 0
+  for (let g = 1; g <= groups; g++) {
+    const target = targets[g - 1] / totalTarget
+    for (let i = g; i <= n - (groups - g); i++) {
+      for (let j = g - 1; j < i; j++) {
+        const value = cost[g - 1][j] + (prefix[i] - prefix[j] - target) ** 2
+        if (value < cost[g][i]) {
+          cost[g][i] = value
+          from[g][i] = j
+        }
+      }
+    }
+  }
+
+  const starts: number[] = []
+  for (let g = groups, i = n; g > 0; g--) {
+    i = from[g][i]
+    starts.unshift(i)
+  }
+  return starts
+}
+
+/**
+ * Spread lyric lines over sung phrases, weighting each line by its length. With fewer lines than
+ * phrases, each line takes a run of consecutive phrases; with more, each phrase is shared by a run
+ * of lines in proportion to their length. Without phrases the lines cover the whole file.
+ */
+export function alignLyrics(lines: string[], phrases: TimeRange[], duration: number): Annotation[] {
+  if (lines.length === 0) return []
+
+  const ranges = phrases.length > 0 ? [...phrases].sort((a, b) => a.startTime - b.startTime) : [{ startTime: 0, endTime: duration }]
+  const lengths = lines.map((line) => Math.max(1, line.length))
+  const aligned: TimeRange[] = []
+
+  if (lines.length <= ranges.length) {
+    const starts = partition(
+      ranges.map((range) => range.endTime - range.startTime),
+      lengths
+    )
+    starts.forEach((start, i) => {
+      const end = i + 1 < starts.length ? starts[i + 1] : ranges.length
+      aligned.push({ startTime: ranges[start].startTime, endTime: ranges[end - 1].endTime })
+    })
+  } else {
+    const starts = partition(
+      lengths,
+      ranges.map((range) => range.endTime - range.startTime)
+    )
+    starts.forEach((start, i) => {
+      const end = i + 1 < starts.length ? starts[i + 1] : lines.length
+      const range = ranges[i]
+      const groupLength = lengths.slice(start, end).reduce((sum, length) => sum + length, 0)
+      let time = range.startTime
+      for (let line = start; line < end; line++) {
+        const lineDuration = ((range.endTime - range.startTime) * lengths[line]) / groupLength
+        aligned.push({ startTime: time, endTime: line === end - 1 ? range.endTime : time + lineDuration })
+        time += lineDuration
+      }
+    })
+  }
+
+  return aligned.map((range, i) => ({ id: createAnnotationId(i), ...range, text: lines[i] }))
+}
+
+// "mm:ss.xx"
+function formatLrcTime(time: number): string {
+  const centiseconds = Math.round(Math.max(0, time) * 100)
+  const minutes = Math.floor(centiseconds / 6000)
+  const seconds = (centiseconds % 6000) / 100
+  return `${String(minutes).padStart(2, "0")}:${seconds.toFixed(2).padStart(5, "0")}`
+}
+
+// "hh:mm:ss,mmm"
+function formatSrtTime(time: number): string {
+  const milliseconds = Math.round(Math.max(0, time) * 1000)
+  const hours = Math.floor(milliseconds / 3600000)
+  const minutes = Math.floor((milliseconds % 3600000) / 60000)
+  const seconds = Math.floor((milliseconds % 60000) / 1000)
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")},${String(milliseconds % 1000).padStart(3, "0")}`
+}
+
+// LRC with an empty timestamp wherever a line ends before the next one starts
+export function formatLrc(annotations: Annotation[]): string {
+  const sorted = [...annotations].sort((a, b) => a.startTime - b.startTime)
+  const lines: string[] = []
+  sorted.forEach((annotation, i) => {
+    lines.push(`[${formatLrcTime(annotation.startTime)}]${annotation.text}`)
+    const next = sorted[i + 1]
+    if (!next || next.startTime - annotation.endTime >= 0.01) {
+      lines.push(`[${formatLrcTime(annotation.endTime)}]`)
+    }
+  })
+  return lines.join("\n") + "\n"
+}
+
+// Numbered SRT cues
+export function formatSrt(annotations: Annotation[]): string {
+  return [...annotations]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(
+      (annotation, i) =>
+        `${i + 1}\n${formatSrtTime(annotation.startTime)} --> ${formatSrtTime(annotation.endTime)}\n${annotation.text}\n`
+    )
+    .join("\n")
+}
@@ -17,9 +17,9 @@ class MediaLibrary {
   private items: Map<string, MediaItem> = new Map()
   private sliceMediaMap: Map<number, string> = new Map()
 
-  // Add a media item
-  async addMedia(file: File, type: "video" | "image"): Promise<MediaItem> {
-    const id = `media-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  // Add a media item; pass `savedId` to keep the id it was saved with
+  async addMedia(file: File, type: "video" | "image", savedId?: string): Promise<MediaItem> {
+    const id = savedId || `media-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     const url = URL.createObjectURL(file)
 
     // Generate thumbnail
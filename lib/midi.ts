@@ -0,0 +1,393 @@
+/**
+ * MIDI - Input handling, note-to-pad mapping and MIDI learn for control changes
+ */
+
+export interface MidiInputInfo {
+  id: string
+  name: string
+  manufacturer?: string
+}
+
+// Anything that can deliver raw MIDI bytes: Web MIDI, or a virtual source for testing
+export interface MidiSource {
+  listInputs(): MidiInputInfo[]
+  onMessage(handler: (inputId: string, data: ArrayLike<number>) => void): () => void
+  onStateChange(handler: () => void): () => void
+  dispose?(): void
+}
+
+// Parameters a CC can be bound to
+export type MidiControlTarget =
+  | { kind: "masterVolume" }
+  | { kind: "bpm" }
+  | { kind: "effectParam"; effectId: string; paramId: string }
+
+export interface MidiCcBinding {
+  channel: number // 1-16
+  controller: number // 0-127
+  target: MidiControlTarget
+  label: string
+}
+
+export interface MidiPadEvent {
+  pad: number // 0-based pad index
+  velocity: number // 0-1
+  channel: number
+  note: number
+}
+
+export type MidiChannelFilter = number | "all"
+
+// "all" listens to every input, "none" ignores MIDI
+export type MidiInputSelection = string
+
+// Pad 1 is C1 (note 36), the usual drum-pad base note
+const DEFAULT_NOTE_BASE = 36
+const PAD_COUNT = 16
+
+// Stable key for a control target, used to compare bindings
+export function getMidiTargetKey(target: MidiControlTarget): string {
+  return target.kind === "effectParam" ? `effect:${target.effectId}:${target.paramId}` : target.kind
+}
+
+// Web MIDI backed source
+export async function createWebMidiSource(): Promise<MidiSource | null> {
+  if (typeof navigator === "undefined" || typeof navigator.requestMIDIAccess !== "function") {
+    return null
+  }
+
+  const access = await navigator.requestMIDIAccess({ sysex: false })
+  const messageHandlers: Set<(inputId: string, data: ArrayLike<number>) => void> = new Set()
+  const stateHandlers: Set<() => void> = new Set()
+
+  const attachInputs = () => {
+    access.inputs.forEach((input) => {
+      input.onmidimessage = (event: MIDIMessageEvent) => {
+        if (!event.data) return
+        messageHandlers.forEach((handler) => handler(input.id, event.data as Uint8Array))
+      }
+    })
+  }
+
+  attachInputs()
+  access.onstatechange = () => {
+    attachInputs()
+    stateHandlers.forEach((handler) => handler())
+  }
+
+  return {
+    listInputs() {
+      const inputs: MidiInputInfo[] = []
+      access.inputs.forEach((input) => {
+        inputs.push({ id: input.id, name: input.name || input.id, manufacturer: input.manufacturer || undefined })
+      })
+      return inputs
+    },
+    onMessage(handler) {
+      messageHandlers.add(handler)
+      return () => {
+        messageHandlers.delete(handler)
+      }
+    },
+    onStateChange(handler) {
+      stateHandlers.add(handler)
+      return () => {
+        stateHandlers.delete(handler)
+      }
+    },
+    dispose() {
+      access.inputs.forEach((input) => {
+        input.onmidimessage = null
+      })
+      access.onstatechange = null
+      messageHandlers.clear()
+      stateHandlers.clear()
+    },
+  }
+}
+
+// In-memory source for exercising the MIDI path without hardware
+export class VirtualMidiSource implements MidiSource {
+  private inputs: MidiInputInfo[]
+  private messageHandlers: Set<(inputId: string, data: ArrayLike<number>) => void> = new Set()
+  private stateHandlers: Set<() => void> = new Set()
+
+  constructor(inputs: MidiInputInfo[] = [{ id: "virtual-1", name: "Virtual Input" }]) {
+    this.inputs = inputs
+  }
+
+  listInputs(): MidiInputInfo[] {
+    return this.inputs
+  }
+
+  onMessage(handler: (inputId: string, data: ArrayLike<number>) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => {
+      this.messageHandlers.delete(handler)
+    }
+  }
+
+  onStateChange(handler: () => void): () => void {
+    this.stateHandlers.add(handler)
+    return () => {
+      this.stateHandlers.delete(handler)
+    }
+  }
+
+  // Replace the input list and notify, like a device being plugged in
+  setInputs(inputs: MidiInputInfo[]): void {
+    this.inputs = inputs
+    this.stateHandlers.forEach((handler) => handler())
+  }
+
+  // Deliver raw bytes as if they came from `inputId`
+  send(data: ArrayLike<number>, inputId = this.inputs[0]?.id || "virtual-1"): void {
+    this.messageHandlers.forEach((handler) => handler(inputId, data))
+  }
+
+  noteOn(note: number, velocity = 100, channel = 1, inputId?: string): void {
+    this.send([0x90 | ((channel - 1) & 0x0f), note & 0x7f, velocity & 0x7f], inputId)
+  }
+
+  noteOff(note: number, channel = 1, inputId?: string): void {
+    this.send([0x80 | ((channel - 1) & 0x0f), note & 0x7f, 0], inputId)
+  }
+
+  controlChange(controller: number, value: number, channel = 1, inputId?: string): void {
+    this.send([0xb0 | ((channel - 1) & 0x0f), controller & 0x7f, value & 0x7f], inputId)
+  }
+
+  dispose(): void {
+    this.messageHandlers.clear()
+    this.stateHandlers.clear()
+  }
+}
+
+class MidiManager {
+  private source: MidiSource | null = null
+  private sourceCleanup: (() => void)[] = []
+  private input: MidiInputSelection = "all"
+  private channel: MidiChannelFilter = 1
+  private noteBase = DEFAULT_NOTE_BASE
+  private bindings: MidiCcBinding[] = []
+  private learnTarget: { target: MidiControlTarget; label: string } | null = null
+
+  private padListeners: Set<(event: MidiPadEvent) => void> = new Set()
+  private controlListeners: Set<(target: MidiControlTarget, value: number) => void> = new Set()
+  private stateListeners: Set<() => void> = new Set()
+
+  // Connect to Web MIDI (or the given source); resolves false when MIDI is unavailable
+  async connect(source?: MidiSource): Promise<boolean> {
+    if (source) {
+      this.setSource(source)
+      return true
+    }
+    if (this.source) return true
+
+    try {
+      const webSource = await createWebMidiSource()
+      if (!webSource) return false
+      this.setSource(webSource)
+      return true
+    } catch (error) {
+      console.warn("MIDI access unavailable:", error)
+      return false
+    }
+  }
+
+  // Swap the source messages are read from
+  setSource(source: MidiSource | null): void {
+    this.sourceCleanup.forEach((cleanup) => cleanup())
+    this.sourceCleanup = []
+    this.source?.dispose?.()
+    this.source = source
+
+    if (source) {
+      this.sourceCleanup.push(source.onMessage((inputId, data) => this.handleMessage(inputId, data)))
+      this.sourceCleanup.push(source.onStateChange(() => this.emitState()))
+    }
+    this.emitState()
+  }
+
+  // Whether a source is connected
+  isConnected(): boolean {
+    return this.source !== null
+  }
+
+  // Get the inputs of the connected source
+  getInputs(): MidiInputInfo[] {
+    return this.source ? this.source.listInputs() : []
+  }
+
+  // Select the input to listen to ("all", "none" or an input id)
+  setInput(input: MidiInputSelection): void {
+    this.input = input
+    this.emitState()
+  }
+
+  getInput(): MidiInputSelection {
+    return this.input
+  }
+
+  // Only accept messages on this channel (1-16) or on all channels
+  setChannel(channel: MidiChannelFilter): void {
+    this.channel = channel
+    this.emitState()
+  }
+
+  getChannel(): MidiChannelFilter {
+    return this.channel
+  }
+
+  // Note number that triggers pad 1; the next 15 notes map to the other pads
+  setNoteBase(note: number): void {
+    this.noteBase = Math.min(127 - (PAD_COUNT - 1), Math.max(0, Math.round(note)))
+    this.emitState()
+  }
+
+  getNoteBase(): number {
+    return this.noteBase
+  }
+
+  // Bind the next incoming CC to `target`
+  startLearn(target: MidiControlTarget, label: string): void {
+    this.learnTarget = { target, label }
+    this.emitState()
+  }
+
+  cancelLearn(): void {
+    if (!this.learnTarget) return
+    this.learnTarget = null
+    this.emitState()
+  }
+
+  // Target currently waiting for a CC, if any
+  getLearnTarget(): MidiControlTarget | null {
+    return this.learnTarget ? this.learnTarget.target : null
+  }
+
+  getBindings(): MidiCcBinding[] {
+    return this.bindings
+  }
+
+  setBindings(bindings: MidiCcBinding[]): void {
+    this.bindings = bindings
+    this.emitState()
+  }
+
+  // Get the binding for a target, if one exists
+  getBinding(target: MidiControlTarget): MidiCcBinding | undefined {
+    const key = getMidiTargetKey(target)
+    return this.bindings.find((binding) => getMidiTargetKey(binding.target) === key)
+  }
+
+  removeBinding(target: MidiControlTarget): void {
+    const key = getMidiTargetKey(target)
+    this.bindings = this.bindings.filter((binding) => getMidiTargetKey(binding.target) !== key)
+    this.emitState()
+  }
+
+  // Subscribe to pad hits from note-on messages; returns an unsubscribe function
+  addPadListener(listener: (event: MidiPadEvent) => void): () => void {
+    this.padListeners.add(listener)
+    return () => {
+      this.padListeners.delete(listener)
+    }
+  }
+
+  // Subscribe to bound CC changes (value normalised to 0-1); returns an unsubscribe function
+  addControlListener(listener: (target: MidiControlTarget, value: number) => void): () => void {
+    this.controlListeners.add(listener)
+    return () => {
+      this.controlListeners.delete(listener)
+    }
+  }
+
+  // Subscribe to device, settings, learn and binding changes; returns an unsubscribe function
+  addStateListener(listener: () => void): () => void {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  dispose(): void {
+    this.setSource(null)
+    this.learnTarget = null
+  }
+
+  // Parse one MIDI message and dispatch it
+  private handleMessage(inputId: string, data: ArrayLike<number>): void {
+    if (data.length < 2) return
+    if (this.input === "none" || (this.input !== "all" && this.input !== inputId)) return
+
+    const status = data[0] & 0xf0
+    const channel = (data[0] & 0x0f) + 1
+    if (this.channel !== "all" && this.channel !== channel) return
+
+    const data1 = data[1] & 0x7f
+    const data2 = data.length > 2 ? data[2] & 0x7f : 0
+
+    // Note-on with velocity 0 is a note-off
+    if (status === 0x90 && data2 > 0) {
+      const pad = data1 - this.noteBase
+      if (pad < 0 || pad >= PAD_COUNT) return
+      this.emitPad({ pad, velocity: data2 / 127, channel, note: data1 })
+      return
+    }
+
+    if (status === 0xb0) {
+      if (this.learnTarget) {
+        const { target, label } = this.learnTarget
+        const key = getMidiTargetKey(target)
+        // A controller drives one target; a target listens to one controller
+        this.bindings = [
+          ...this.bindings.filter(
+            (binding) =>
+              getMidiTargetKey(binding.target) !== key &&
+              !(binding.channel === channel && binding.controller === data1),
+          ),
+          { channel, controller: data1, target, label },
+        ]
+        this.learnTarget = null
+        this.emitState()
+        return
+      }
+
+      this.bindings.forEach((binding) => {
+        if (binding.channel === channel && binding.controller === data1) {
+          this.controlListeners.forEach((listener) => {
+            try {
+              listener(binding.target, data2 / 127)
+            } catch (error) {
+              console.error("MIDI control listener failed:", error)
+            }
+          })
+        }
+      })
+    }
+  }
+
+  private emitPad(event: MidiPadEvent): void {
+    this.padListeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error("MIDI pad listener failed:", error)
+      }
+    })
+  }
+
+  private emitState(): void {
+    this.stateListeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (error) {
+        console.error("MIDI state listener failed:", error)
+      }
+    })
+  }
+}
+
+// Create a singleton instance
+export const midiManager = new MidiManager()
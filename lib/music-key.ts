@@ -0,0 +1,70 @@
+/**
+ * Music Key - Key names and harmonic compatibility (Camelot wheel) for detected keys
+ */
+
+export type KeyScale = "major" | "minor"
+
+export const PITCH_CLASSES = ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"]
+
+// Enharmonic spellings Essentia or older project files may use
+const PITCH_ALIASES: Record<string, string> = {
+  Db: "C#",
+  "D#": "Eb",
+  Gb: "F#",
+  "G#": "Ab",
+  "A#": "Bb",
+}
+
+// Camelot numbers indexed by pitch class; minor keys sit three semitones below their relative major
+const CAMELOT_MAJOR = [8, 3, 10, 5, 12, 7, 2, 9, 4, 11, 6, 1]
+
+export interface MusicalKey {
+  tonic: string
+  scale: KeyScale
+}
+
+export function getPitchClass(name: string): number {
+  return PITCH_CLASSES.indexOf(PITCH_ALIASES[name] ?? name)
+}
+
+// "A minor"
+export function formatKey(tonic: string, scale: KeyScale): string {
+  return `${PITCH_ALIASES[tonic] ?? tonic} ${scale}`
+}
+
+// Parse a key written by formatKey
+export function parseKey(key: string): MusicalKey | null {
+  const [tonic, scale] = key.trim().split(/\s+/)
+  if (getPitchClass(tonic) < 0 || (scale !== "major" && scale !== "minor")) return null
+  return { tonic: PITCH_ALIASES[tonic] ?? tonic, scale }
+}
+
+// Compact label for pads: "Am", "C"
+export function getShortKeyName(key: string): string {
+  const parsed = parseKey(key)
+  if (!parsed) return key
+  return parsed.scale === "minor" ? `${parsed.tonic}m` : parsed.tonic
+}
+
+// Camelot code, e.g. "8A" for A minor and "8B" for C major
+export function getCamelotCode(key: string): string | null {
+  const parsed = parseKey(key)
+  if (!parsed) return null
+  const pitchClass = getPitchClass(parsed.tonic)
+  if (parsed.scale === "major") return `${CAMELOT_MAJOR[pitchClass]}B`
+  return `${CAMELOT_MAJOR[(pitchClass + 3) % 12]}A`
+}
+
+// Keys mix cleanly when they share a Camelot number or are one step apart on the same ring
+export function areKeysCompatible(a: string, b: string): boolean {
+  const codeA = getCamelotCode(a)
+  const codeB = getCamelotCode(b)
+  if (!codeA || !codeB) return false
+
+  const numberA = parseInt(codeA)
+  const numberB = parseInt(codeB)
+  if (numberA === numberB) return true
+
+  const distance = Math.min((numberA - numberB + 12) % 12, (numberB - numberA + 12) % 12)
+  return distance === 1 && codeA.slice(-1) === codeB.slice(-1)
+}
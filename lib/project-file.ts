@@ -0,0 +1,384 @@
+/**
+ * Project File - Versioned, validated project format and the single-file bundle it is saved in
+ *
+ * A bundle is a ZIP holding `project.json` plus the source audio and any media it references,
+ * so a project opens on another machine without the original files.
+ */
+
+import { z } from "zod"
+import type { AudioSection, AudioSlice, LaunchQuantization } from "./audio-engine"
+import type { EffectState } from "./audio-effects"
+import type { Annotation } from "./annotations"
+import type { HistoryState } from "./history"
+import type { SequencerPattern, SongEntry } from "./sequencer-engine"
+import { createZip, readZip, type ZipEntry } from "./zip"
+
+// Bump when the manifest shape changes, and add a migration from the previous version
+export const PROJECT_FILE_VERSION = 2
+
+export const PROJECT_FILE_EXTENSION = ".sampler"
+
+const PROJECT_FORMAT = "audio-sampler-project"
+const MANIFEST_NAME = "project.json"
+
+const sliceSchema = z.object({
+  id: z.number().int(),
+  startSample: z.number().int().nonnegative(),
+  endSample: z.number().int().nonnegative(),
+  name: z.string(),
+  sectionId: z.number().int().optional(),
+  key: z.string().optional(),
+  drumClass: z.enum(["kick", "snare", "hat", "clap", "tom", "other"]).optional(),
+})
+
+const sectionSchema = z.object({
+  id: z.number().int(),
+  startSample: z.number().int().nonnegative(),
+  endSample: z.number().int().nonnegative(),
+  name: z.string(),
+  slices: z.array(sliceSchema),
+  key: z.string().optional(),
+  group: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+})
+
+const annotationSchema = z.object({
+  id: z.string(),
+  startTime: z.number().nonnegative(),
+  endTime: z.number().nonnegative(),
+  text: z.string(),
+})
+
+const effectSchema = z.object({
+  id: z.string(),
+  type: z.enum(["reverb", "delay", "filter", "compressor", "distortion", "bitcrusher"]),
+  enabled: z.boolean(),
+  parameters: z.record(z.number()),
+})
+
+const stepSchema = z.object({
+  active: z.boolean(),
+  velocity: z.number().min(0).max(1),
+  pitch: z.number(),
+  sliceId: z.number().int().nullable(),
+  repeats: z.number().int().min(1),
+  probability: z.number().min(0).max(1),
+  nudge: z.number(),
+})
+
+const patternSchema = z.object({
+  length: z.number().int().positive(),
+  tracks: z.array(
+    z.object({
+      sliceId: z.number().int().nullable(),
+      steps: z.array(stepSchema),
+    }),
+  ),
+})
+
+const songEntrySchema = z.object({
+  pattern: z.number().int().nonnegative(),
+  repeats: z.number().int().min(1),
+})
+
+// Only the parts of the session an edit touched are present
+const historySnapshotSchema = z.object({
+  slices: z.array(sliceSchema).optional(),
+  sections: z.array(sectionSchema).optional(),
+  annotations: z.array(annotationSchema).optional(),
+  effects: z.array(effectSchema).optional(),
+  patterns: z.array(z.object({ index: z.number().int().nonnegative(), pattern: patternSchema })).optional(),
+})
+
+const historyEntrySchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  timestamp: z.number(),
+  before: historySnapshotSchema,
+  after: historySnapshotSchema,
+  mergeKey: z.string().optional(),
+})
+
+// Files embedded in the bundle are referenced by their path inside the archive
+const audioReferenceSchema = z.object({
+  name: z.string(),
+  mimeType: z.string(),
+  path: z.string(),
+  sampleRate: z.number().positive().optional(),
+  duration: z.number().nonnegative().optional(),
+})
+
+const mediaReferenceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(["video", "image"]),
+  mimeType: z.string(),
+  path: z.string(),
+  sliceId: z.number().int().optional(),
+})
+
+export const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(PROJECT_FILE_VERSION),
+  name: z.string(),
+  savedAt: z.string(),
+  audio: audioReferenceSchema.nullable(),
+  slices: z.array(sliceSchema),
+  sections: z.array(sectionSchema),
+  annotations: z.array(annotationSchema),
+  transport: z.object({
+    bpm: z.number().min(40).max(300),
+    pitch: z.number().min(-12).max(12),
+    masterVolume: z.number().min(0).max(100),
+    isLooping: z.boolean(),
+    loopStart: z.number().min(0).max(1), // fraction of the buffer
+    loopEnd: z.number().min(0).max(1),
+    launchQuantization: z.enum(["none", "1/16", "1/4", "1bar", "slice-end"]),
+  }),
+  effects: z.array(effectSchema),
+  sequencer: z.object({
+    patterns: z.array(patternSchema).min(1),
+    editingPattern: z.number().int().nonnegative(),
+    arrangement: z.array(songEntrySchema),
+    songMode: z.boolean(),
+    swing: z.number().min(0).max(100),
+  }),
+  media: z.array(mediaReferenceSchema),
+  history: z.object({
+    undo: z.array(historyEntrySchema),
+    redo: z.array(historyEntrySchema),
+  }),
+})
+
+export type ProjectDocument = z.infer<typeof projectSchema>
+
+// Each entry upgrades a document from `version` to `version + 1`
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // 2: undo/redo history is saved with the project
+  1: (document) => ({ ...document, history: { undo: [], redo: [] } }),
+}
+
+export interface ProjectMedia {
+  id: string
+  type: "video" | "image"
+  file: File
+  sliceId?: number
+}
+
+// Everything needed to restore a session, with embedded files as File objects
+export interface ProjectSession {
+  name: string
+  audioFile: File | null
+  sampleRate?: number
+  duration?: number
+  slices: AudioSlice[]
+  sections: AudioSection[]
+  annotations: Annotation[]
+  bpm: number
+  pitch: number
+  masterVolume: number
+  isLooping: boolean
+  loopStart: number
+  loopEnd: number
+  launchQuantization: LaunchQuantization
+  effects: EffectState[]
+  patterns: SequencerPattern[]
+  editingPattern: number
+  arrangement: SongEntry[]
+  songMode: boolean
+  swing: number
+  media: ProjectMedia[]
+  history: HistoryState
+}
+
+// Bring an older document up to PROJECT_FILE_VERSION
+export function migrateProject(data: unknown): unknown {
+  if (!data || typeof data !== "object") return data
+
+  let document = data as Record<string, unknown>
+  let version = typeof document.version === "number" ? document.version : 0
+
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project was saved by a newer version (format ${version}); this app reads up to ${PROJECT_FILE_VERSION}`)
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration from project format ${version}`)
+    }
+    document = { ...migrate(document), version: version + 1 }
+    version++
+  }
+
+  return document
+}
+
+// Migrate and validate a parsed manifest
+export function parseProjectDocument(data: unknown): ProjectDocument {
+  const result = projectSchema.safeParse(migrateProject(data))
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue.path.length > 0 ? issue.path.join(".") : "project"
+    throw new Error(`Invalid project file: ${path}: ${issue.message}`)
+  }
+  return result.data
+}
+
+// Keep archive paths portable
+function getBundlePath(folder: string, id: string, name: string): string {
+  const safeName = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_") || "file"
+  return `${folder}/${id}-${safeName}`
+}
+
+// Build the manifest for a session; `paths` receives the archive path chosen for each embedded file
+export function createProjectDocument(session: ProjectSession, paths: Map<File, string> = new Map()): ProjectDocument {
+  const audioPath = session.audioFile ? getBundlePath("audio", "source", session.audioFile.name) : null
+  if (session.audioFile && audioPath) {
+    paths.set(session.audioFile, audioPath)
+  }
+
+  const media = session.media.map((item) => {
+    const path = getBundlePath("media", item.id, item.file.name)
+    paths.set(item.file, path)
+    return {
+      id: item.id,
+      name: item.file.name,
+      type: item.type,
+      mimeType: item.file.type,
+      path,
+      sliceId: item.sliceId,
+    }
+  })
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name: session.name,
+    savedAt: new Date().toISOString(),
+    audio:
+      session.audioFile && audioPath
+        ? {
+            name: session.audioFile.name,
+            mimeType: session.audioFile.type,
+            path: audioPath,
+            sampleRate: session.sampleRate,
+            duration: session.duration,
+          }
+        : null,
+    slices: session.slices,
+    sections: session.sections,
+    annotations: session.annotations,
+    transport: {
+      bpm: session.bpm,
+      pitch: session.pitch,
+      masterVolume: session.masterVolume,
+      isLooping: session.isLooping,
+      loopStart: session.loopStart,
+      loopEnd: session.loopEnd,
+      launchQuantization: session.launchQuantization,
+    },
+    effects: session.effects,
+    sequencer: {
+      patterns: session.patterns,
+      editingPattern: session.editingPattern,
+      arrangement: session.arrangement,
+      songMode: session.songMode,
+      swing: session.swing,
+    },
+    media,
+    history: session.history,
+  }
+}
+
+// Save a session as one bundle file with the audio and media embedded
+export async function createProjectBundle(session: ProjectSession): Promise<Blob> {
+  const paths = new Map<File, string>()
+  const document = createProjectDocument(session, paths)
+
+  const entries: ZipEntry[] = [{ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(document, null, 2)) }]
+  for (const [file, path] of paths) {
+    entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()), modified: new Date(file.lastModified) })
+  }
+
+  return createZip(entries)
+}
+
+// Open a bundle and rebuild the session it was saved from
+export async function readProjectBundle(bundle: Blob): Promise<ProjectSession> {
+  let entries: ZipEntry[]
+  try {
+    entries = readZip(await bundle.arrayBuffer())
+  } catch (error) {
+    throw new Error(`Not a project bundle: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const manifest = entries.find((entry) => entry.name === MANIFEST_NAME)
+  if (!manifest) {
+    throw new Error(`Not a project bundle: ${MANIFEST_NAME} is missing`)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(new TextDecoder().decode(manifest.data))
+  } catch {
+    throw new Error(`Invalid project file: ${MANIFEST_NAME} is not valid JSON`)
+  }
+
+  const embedded = new Map<string, Blob>()
+  entries.forEach((entry) => {
+    if (entry.name !== MANIFEST_NAME) {
+      embedded.set(entry.name, new File([entry.data as BlobPart], entry.name, { lastModified: entry.modified?.getTime() }))
+    }
+  })
+
+  return createProjectSession(parseProjectDocument(data), embedded)
+}
+
+// Rebuild a session from a validated document and its embedded files, keyed by their paths.
+// Files keep their lastModified, so saving the session again can tell they are unchanged.
+export function createProjectSession(document: ProjectDocument, files: Map<string, Blob>): ProjectSession {
+  const toFile = (path: string, name: string, mimeType: string): File => {
+    const blob = files.get(path)
+    if (!blob) {
+      throw new Error(`Project is missing ${path}`)
+    }
+    return new File([blob], name, { type: mimeType, lastModified: blob instanceof File ? blob.lastModified : undefined })
+  }
+
+  return {
+    name: document.name,
+    audioFile: document.audio ? toFile(document.audio.path, document.audio.name, document.audio.mimeType) : null,
+    sampleRate: document.audio?.sampleRate,
+    duration: document.audio?.duration,
+    slices: document.slices,
+    sections: document.sections,
+    annotations: document.annotations,
+    bpm: document.transport.bpm,
+    pitch: document.transport.pitch,
+    masterVolume: document.transport.masterVolume,
+    isLooping: document.transport.isLooping,
+    loopStart: document.transport.loopStart,
+    loopEnd: document.transport.loopEnd,
+    launchQuantization: document.transport.launchQuantization,
+    effects: document.effects,
+    patterns: document.sequencer.patterns,
+    editingPattern: Math.min(document.sequencer.editingPattern, document.sequencer.patterns.length - 1),
+    arrangement: document.sequencer.arrangement,
+    songMode: document.sequencer.songMode,
+    swing: document.sequencer.swing,
+    media: document.media.map((item) => ({
+      id: item.id,
+      type: item.type,
+      file: toFile(item.path, item.name, item.mimeType),
+      sliceId: item.sliceId,
+    })),
+    history: document.history,
+  }
+}
+
+// File name for a project bundle
+export function getProjectFileName(name: string): string {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "").trim() || "Untitled Project"
+  return `${cleaned}${PROJECT_FILE_EXTENSION}`
+}
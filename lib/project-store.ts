@@ -0,0 +1,354 @@
+/**
+ * Project Store - Local project library, autosave and session recovery backed by IndexedDB
+ *
+ * Each project keeps its manifest in `projects` and every embedded file (source audio, media)
+ * as a Blob in `assets`, so autosaves only rewrite files that changed.
+ */
+
+import {
+  createProjectDocument,
+  createProjectSession,
+  parseProjectDocument,
+  type ProjectDocument,
+  type ProjectSession,
+} from "./project-file"
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  favorite: boolean
+  hasAudio: boolean
+}
+
+export interface ProjectStoreSettings {
+  autoSave: boolean
+  autoLoadLastProject: boolean
+}
+
+// The project that was being worked on when the page was last open
+export interface LastSession {
+  projectId: string
+  updatedAt: number
+}
+
+interface ProjectRecord extends ProjectSummary {
+  document: ProjectDocument
+  assetPaths: string[]
+}
+
+interface AssetRecord {
+  key: string // `${projectId}/${path}`
+  projectId: string
+  path: string
+  blob: Blob
+  size: number
+  lastModified: number
+}
+
+const DB_NAME = "samplerista"
+const DB_VERSION = 1
+const PROJECTS_STORE = "projects"
+const ASSETS_STORE = "assets"
+const META_STORE = "meta"
+const LAST_SESSION_KEY = "lastSession"
+const SETTINGS_KEY = "samplerista:project-settings"
+
+const DEFAULT_SETTINGS: ProjectStoreSettings = {
+  autoSave: true,
+  autoLoadLastProject: false,
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Resolve once a transaction has committed
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"))
+  })
+}
+
+function toSummary(record: ProjectRecord): ProjectSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    favorite: record.favorite,
+    hasAudio: record.hasAudio,
+  }
+}
+
+class ProjectStore {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private settings: ProjectStoreSettings | null = null
+  private settingsListeners: Set<(settings: ProjectStoreSettings) => void> = new Set()
+  private changeListeners: Set<() => void> = new Set()
+
+  // Whether IndexedDB exists in this environment
+  isAvailable(): boolean {
+    return typeof indexedDB !== "undefined"
+  }
+
+  // New id for a project that has not been stored yet
+  createProjectId(): string {
+    return `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  // Store a session, replacing any earlier version of the same project
+  async saveProject(id: string, session: ProjectSession): Promise<ProjectSummary> {
+    const db = await this.open()
+    const paths = new Map<File, string>()
+    const document = createProjectDocument(session, paths)
+    const now = Date.now()
+
+    const existing = await this.getRecord(id)
+    const written = new Map<string, AssetRecord>()
+
+    // Only files that are new or changed need their bytes written again
+    const reads = db.transaction(ASSETS_STORE, "readonly").objectStore(ASSETS_STORE)
+    const stored = await Promise.all(
+      Array.from(paths.values()).map((path) => promisify(reads.get(`${id}/${path}`) as IDBRequest<AssetRecord | undefined>)),
+    )
+    stored.forEach((asset) => {
+      if (asset) written.set(asset.path, asset)
+    })
+
+    const record: ProjectRecord = {
+      id,
+      name: session.name,
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now,
+      favorite: existing ? existing.favorite : false,
+      hasAudio: !!session.audioFile,
+      document,
+      assetPaths: Array.from(paths.values()),
+    }
+
+    const transaction = db.transaction([PROJECTS_STORE, ASSETS_STORE, META_STORE], "readwrite")
+    const assets = transaction.objectStore(ASSETS_STORE)
+
+    paths.forEach((path, file) => {
+      const asset = written.get(path)
+      if (asset && asset.size === file.size && asset.lastModified === file.lastModified) return
+      assets.put({
+        key: `${id}/${path}`,
+        projectId: id,
+        path,
+        blob: file,
+        size: file.size,
+        lastModified: file.lastModified,
+      } satisfies AssetRecord)
+    })
+
+    existing?.assetPaths
+      .filter((path) => !record.assetPaths.includes(path))
+      .forEach((path) => assets.delete(`${id}/${path}`))
+
+    transaction.objectStore(PROJECTS_STORE).put(record)
+    transaction.objectStore(META_STORE).put({ projectId: id, updatedAt: now } satisfies LastSession, LAST_SESSION_KEY)
+
+    await transactionDone(transaction)
+    this.emitChange()
+    return toSummary(record)
+  }
+
+  // Load a stored project, migrating its manifest if it was written by an older version
+  async loadProject(id: string): Promise<ProjectSession> {
+    const record = await this.getRecord(id)
+    if (!record) {
+      throw new Error("Project not found")
+    }
+
+    const db = await this.open()
+    const store = db.transaction(ASSETS_STORE, "readonly").objectStore(ASSETS_STORE)
+    const assets = await Promise.all(
+      record.assetPaths.map((path) => promisify(store.get(`${id}/${path}`) as IDBRequest<AssetRecord | undefined>)),
+    )
+
+    const files = new Map<string, Blob>()
+    assets.forEach((asset) => {
+      if (asset) files.set(asset.path, new File([asset.blob], asset.path, { lastModified: asset.lastModified }))
+    })
+
+    return createProjectSession(parseProjectDocument(record.document), files)
+  }
+
+  // Stored projects, most recently saved first
+  async listProjects(): Promise<ProjectSummary[]> {
+    const db = await this.open()
+    const records = await promisify(
+      db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE).getAll() as IDBRequest<ProjectRecord[]>,
+    )
+    return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  async setFavorite(id: string, favorite: boolean): Promise<void> {
+    const record = await this.getRecord(id)
+    if (!record) return
+
+    const db = await this.open()
+    const transaction = db.transaction(PROJECTS_STORE, "readwrite")
+    transaction.objectStore(PROJECTS_STORE).put({ ...record, favorite })
+    await transactionDone(transaction)
+    this.emitChange()
+  }
+
+  // Delete a project and its files
+  async deleteProject(id: string): Promise<void> {
+    const record = await this.getRecord(id)
+    const lastSession = await this.getLastSession()
+
+    const db = await this.open()
+    const transaction = db.transaction([PROJECTS_STORE, ASSETS_STORE, META_STORE], "readwrite")
+    transaction.objectStore(PROJECTS_STORE).delete(id)
+    record?.assetPaths.forEach((path) => transaction.objectStore(ASSETS_STORE).delete(`${id}/${path}`))
+    if (lastSession?.projectId === id) {
+      transaction.objectStore(META_STORE).delete(LAST_SESSION_KEY)
+    }
+
+    await transactionDone(transaction)
+    this.emitChange()
+  }
+
+  // The project that was open last, if it still exists
+  async getLastSession(): Promise<LastSession | null> {
+    const db = await this.open()
+    const lastSession = await promisify(
+      db.transaction(META_STORE, "readonly").objectStore(META_STORE).get(LAST_SESSION_KEY) as IDBRequest<
+        LastSession | undefined
+      >,
+    )
+    if (!lastSession) return null
+    return (await this.getRecord(lastSession.projectId)) ? lastSession : null
+  }
+
+  // Forget the last session so it is not offered for recovery again
+  async clearLastSession(): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(META_STORE, "readwrite")
+    transaction.objectStore(META_STORE).delete(LAST_SESSION_KEY)
+    await transactionDone(transaction)
+  }
+
+  async getProjectSummary(id: string): Promise<ProjectSummary | null> {
+    const record = await this.getRecord(id)
+    return record ? toSummary(record) : null
+  }
+
+  // Persistence preferences, kept in localStorage so they are available synchronously
+  getSettings(): ProjectStoreSettings {
+    if (this.settings) return this.settings
+
+    let settings: ProjectStoreSettings = { ...DEFAULT_SETTINGS }
+    try {
+      const stored = typeof localStorage !== "undefined" ? localStorage.getItem(SETTINGS_KEY) : null
+      if (stored) {
+        settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) }
+      }
+    } catch (error) {
+      console.warn("Could not read project settings:", error)
+    }
+    this.settings = settings
+    return settings
+  }
+
+  updateSettings(changes: Partial<ProjectStoreSettings>): void {
+    this.settings = { ...this.getSettings(), ...changes }
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings))
+    } catch (error) {
+      console.warn("Could not store project settings:", error)
+    }
+
+    const settings = this.settings
+    this.settingsListeners.forEach((listener) => {
+      try {
+        listener(settings)
+      } catch (error) {
+        console.error("Project settings listener failed:", error)
+      }
+    })
+  }
+
+  // Subscribe to settings changes; returns an unsubscribe function
+  addSettingsListener(listener: (settings: ProjectStoreSettings) => void): () => void {
+    this.settingsListeners.add(listener)
+    return () => {
+      this.settingsListeners.delete(listener)
+    }
+  }
+
+  // Subscribe to changes in the stored project list; returns an unsubscribe function
+  addChangeListener(listener: () => void): () => void {
+    this.changeListeners.add(listener)
+    return () => {
+      this.changeListeners.delete(listener)
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error("IndexedDB is not available"))
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: "key" })
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error("Project database is open in another tab with an older version"))
+    })
+
+    // Let a later call retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null
+    })
+
+    return this.dbPromise
+  }
+
+  private async getRecord(id: string): Promise<ProjectRecord | undefined> {
+    const db = await this.open()
+    return promisify(
+      db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE).get(id) as IDBRequest<
+        ProjectRecord | undefined
+      >,
+    )
+  }
+
+  private emitChange(): void {
+    this.changeListeners.forEach((listener) => {
+      try {
+        listener()
+      } catch (error) {
+        console.error("Project store listener failed:", error)
+      }
+    })
+  }
+}
+
+// Create a singleton instance
+export const projectStore = new ProjectStore()
@@ -0,0 +1,531 @@
+/**
+ * Sequencer Engine - Step sequencer scheduled on the AudioContext clock
+ */
+
+import { audioEngine, type PlaybackOptions } from "./audio-engine"
+
+export interface SequencerStep {
+  active: boolean
+  velocity: number // 0-1, scales the voice volume
+  pitch: number // semitone offset on top of the global pitch
+  sliceId: number | null // overrides the track's slice when set
+  repeats: number // ratchet: number of evenly spaced hits within the step
+  probability: number // 0-1 chance that the step fires
+  nudge: number // micro-timing offset as a fraction of a step (-0.5..0.5)
+}
+
+export interface SequencerTrack {
+  sliceId: number | null // slice triggered by this track's steps
+  steps: SequencerStep[]
+}
+
+export interface SequencerPattern {
+  length: number // steps per pattern (16th notes)
+  tracks: SequencerTrack[]
+}
+
+// One row of a song arrangement: play `pattern` from the bank `repeats` times
+export interface SongEntry {
+  pattern: number
+  repeats: number
+}
+
+// What the sequencer is playing; reported to listeners when it becomes audible
+export interface SequencerPosition {
+  step: number
+  pattern: number
+  queuedPattern: number | null
+  songEntry: number | null // index into the arrangement while in song mode
+}
+
+// A slice trigger resolved to an absolute time
+export interface SequencerHit {
+  track: number
+  step: number
+  sliceId: number
+  time: number // seconds, on whatever clock `time` was given in
+  options: PlaybackOptions
+}
+
+// Scheduler timing (seconds)
+const SCHEDULE_LOOKAHEAD = 0.1
+const SCHEDULE_TICK_INTERVAL = 0.025
+const START_DELAY = 0.05
+
+// Largest micro-timing offset, in steps
+export const MAX_STEP_NUDGE = 0.5
+
+// Steps per bar; queued patterns switch on bar lines
+export const BAR_STEPS = 16
+
+export const PATTERN_LENGTHS = [16, 32, 64]
+
+// Create a step with neutral parameters
+export function createStep(active = false): SequencerStep {
+  return { active, velocity: 1, pitch: 0, sliceId: null, repeats: 1, probability: 1, nudge: 0 }
+}
+
+// Create an empty pattern; track N triggers slice N by default
+export function createEmptyPattern(tracks: number, length: number): SequencerPattern {
+  return {
+    length,
+    tracks: Array.from({ length: tracks }, (_, track) => ({
+      sliceId: track,
+      steps: Array.from({ length }, () => createStep()),
+    })),
+  }
+}
+
+// Change a pattern's length, keeping existing steps and padding with empty ones
+export function resizePattern(pattern: SequencerPattern, length: number): SequencerPattern {
+  return {
+    length,
+    tracks: pattern.tracks.map((track) => ({
+      ...track,
+      steps: Array.from({ length }, (_, step) => (track.steps[step] ? { ...track.steps[step] } : createStep())),
+    })),
+  }
+}
+
+// Deep copy of a pattern (for copy/paste)
+export function clonePattern(pattern: SequencerPattern): SequencerPattern {
+  return {
+    length: pattern.length,
+    tracks: pattern.tracks.map((track) => ({ ...track, steps: track.steps.map((step) => ({ ...step })) })),
+  }
+}
+
+function isSameStep(a: SequencerStep | undefined, b: SequencerStep | undefined): boolean {
+  if (!a || !b) return a === b
+  return (
+    a.active === b.active &&
+    a.velocity === b.velocity &&
+    a.pitch === b.pitch &&
+    a.sliceId === b.sliceId &&
+    a.repeats === b.repeats &&
+    a.probability === b.probability &&
+    a.nudge === b.nudge
+  )
+}
+
+// Describe how a pattern changed, for the undo history; `mergeKey` groups repeated edits of one step
+export function describePatternChange(
+  before: SequencerPattern,
+  after: SequencerPattern,
+): { description: string; mergeKey?: string } {
+  if (before.length !== after.length) {
+    return { description: `Set pattern length to ${after.length} steps` }
+  }
+
+  const changedSteps: { track: number; step: number }[] = []
+  let changedTrack: number | null = null
+
+  for (let trackIndex = 0; trackIndex < after.tracks.length; trackIndex++) {
+    const track = after.tracks[trackIndex]
+    const previous = before.tracks[trackIndex]
+    if (!previous || previous.sliceId !== track.sliceId) {
+      changedTrack = trackIndex
+    }
+    track.steps.forEach((step, stepIndex) => {
+      if (!isSameStep(previous?.steps[stepIndex], step)) {
+        changedSteps.push({ track: trackIndex, step: stepIndex })
+      }
+    })
+  }
+
+  if (changedSteps.length === 0 && changedTrack !== null) {
+    return { description: `Change track ${changedTrack + 1} slice` }
+  }
+
+  if (changedSteps.length === 1) {
+    const { track, step } = changedSteps[0]
+    const previous = before.tracks[track]?.steps[step]
+    const next = after.tracks[track].steps[step]
+    if (previous && previous.active !== next.active) {
+      return { description: `Turn ${next.active ? "on" : "off"} step ${step + 1} on track ${track + 1}` }
+    }
+    return { description: `Edit step ${step + 1} on track ${track + 1}`, mergeKey: `step:${track}:${step}` }
+  }
+
+  if (after.tracks.every((track) => track.steps.every((step) => !step.active))) {
+    return { description: "Clear pattern" }
+  }
+  return { description: "Edit pattern" }
+}
+
+// Duration of one 16th-note step at the given tempo
+export function getStepDuration(bpm: number): number {
+  return 60 / bpm / 4
+}
+
+// Offset of a step from the straight grid caused by swing (0-100%, off-beat 16ths are delayed)
+export function getSwingOffset(step: number, stepDuration: number, swing: number): number {
+  if (step % 2 === 0) return 0
+  return (Math.min(100, Math.max(0, swing)) / 100) * stepDuration * 0.5
+}
+
+// Resolve the hits for one step of a pattern. `time` is the straight-grid time of the step.
+// Pure apart from `random`, so it can also drive offline rendering with a seeded generator.
+export function getStepHits(
+  pattern: SequencerPattern,
+  step: number,
+  time: number,
+  stepDuration: number,
+  options: PlaybackOptions = {},
+  swing = 0,
+  random: () => number = Math.random,
+): SequencerHit[] {
+  const hits: SequencerHit[] = []
+  const swungTime = time + getSwingOffset(step, stepDuration, swing)
+  const baseVolume = options.volume !== undefined ? options.volume : 1
+
+  pattern.tracks.forEach((track, trackIndex) => {
+    const cell = track.steps[step]
+    if (!cell || !cell.active) return
+
+    const sliceId = cell.sliceId !== null ? cell.sliceId : track.sliceId
+    if (sliceId === null) return
+
+    // Probability is rolled once per step so ratchets fire all or nothing
+    if (cell.probability < 1 && random() >= cell.probability) return
+
+    const nudge = Math.min(MAX_STEP_NUDGE, Math.max(-MAX_STEP_NUDGE, cell.nudge))
+    const start = swungTime + nudge * stepDuration
+    const repeats = Math.max(1, Math.round(cell.repeats))
+    const hitOptions: PlaybackOptions = {
+      ...options,
+      volume: baseVolume * cell.velocity,
+      semitones: (options.semitones || 0) + cell.pitch,
+    }
+
+    for (let i = 0; i < repeats; i++) {
+      hits.push({
+        track: trackIndex,
+        step,
+        sliceId,
+        time: start + (i * stepDuration) / repeats,
+        options: { ...hitOptions },
+      })
+    }
+  })
+
+  return hits
+}
+
+// Pattern indices in play order: the arrangement expanded by repeats, or the single given pattern
+export function getSongOrder(arrangement: SongEntry[], fallbackPattern: number): number[] {
+  if (arrangement.length === 0) return [fallbackPattern]
+
+  const order: number[] = []
+  arrangement.forEach((entry) => {
+    for (let i = 0; i < Math.max(1, entry.repeats); i++) {
+      order.push(entry.pattern)
+    }
+  })
+  return order
+}
+
+// Resolve every hit of the patterns in `order`, starting at time 0. Used for offline rendering.
+export function getArrangementHits(
+  patterns: SequencerPattern[],
+  order: number[],
+  bpm: number,
+  swing = 0,
+  options: PlaybackOptions = {},
+  random: () => number = Math.random,
+): { hits: SequencerHit[]; duration: number } {
+  const stepDuration = getStepDuration(bpm)
+  const hits: SequencerHit[] = []
+  let time = 0
+
+  order.forEach((patternIndex) => {
+    const pattern = patterns[patternIndex]
+    if (!pattern) return
+
+    for (let step = 0; step < pattern.length; step++) {
+      getStepHits(pattern, step, time, stepDuration, options, swing, random).forEach((hit) => {
+        hits.push({ ...hit, time: Math.max(0, hit.time) })
+      })
+      time += stepDuration
+    }
+  })
+
+  return { hits, duration: time }
+}
+
+class SequencerEngine {
+  private patterns: SequencerPattern[] = [createEmptyPattern(8, 16)]
+  private activePattern = 0
+  private queuedPattern: number | null = null
+  private arrangement: SongEntry[] = []
+  private songMode = false
+  private songEntry = -1 // -1 = song mode enabled but not entered yet
+  private songRepeat = 0
+  private tempo = 120
+  private voiceOptions: PlaybackOptions = {}
+  private swing = 0
+  private running = false
+  private nextStep = 0
+  private nextStepTime = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private scheduledPlaybacks: { playbackId: string; time: number }[] = []
+  private stepTimeouts: Set<ReturnType<typeof setTimeout>> = new Set()
+  private stepListeners: Set<(position: SequencerPosition | null) => void> = new Set()
+
+  // Replace the pattern bank; edits take effect from the next scheduled step
+  setPatterns(patterns: SequencerPattern[]): void {
+    this.patterns = patterns.length > 0 ? patterns : [createEmptyPattern(8, 16)]
+    if (this.activePattern >= this.patterns.length) {
+      this.activePattern = 0
+    }
+    if (this.queuedPattern !== null && this.queuedPattern >= this.patterns.length) {
+      this.queuedPattern = null
+    }
+    if (this.nextStep >= this.getPattern().length) {
+      this.nextStep = 0
+    }
+  }
+
+  // Get the pattern that is playing (or will play on start)
+  getPattern(): SequencerPattern {
+    return this.patterns[this.activePattern] || this.patterns[0]
+  }
+
+  // Get the index of the active pattern
+  getActivePattern(): number {
+    return this.activePattern
+  }
+
+  // Get the pattern waiting for the next bar line
+  getQueuedPattern(): number | null {
+    return this.queuedPattern
+  }
+
+  // Switch pattern: immediately when stopped, otherwise on the next bar line
+  queuePattern(index: number): void {
+    if (index < 0 || index >= this.patterns.length) return
+
+    if (!this.running) {
+      this.activePattern = index
+      this.queuedPattern = null
+      this.nextStep = 0
+      return
+    }
+
+    this.queuedPattern = index === this.activePattern ? null : index
+  }
+
+  // Set the song arrangement used in song mode
+  setArrangement(arrangement: SongEntry[]): void {
+    this.arrangement = arrangement
+    if (this.songEntry >= arrangement.length) {
+      this.songEntry = arrangement.length > 0 ? 0 : -1
+      this.songRepeat = 0
+    }
+  }
+
+  // Toggle song mode; a running sequencer enters the song at the end of the current pattern
+  setSongMode(enabled: boolean): void {
+    if (enabled === this.songMode) return
+    this.songMode = enabled
+    this.songEntry = -1
+    this.songRepeat = 0
+    this.queuedPattern = null
+  }
+
+  // Whether the arrangement drives pattern changes
+  isSongMode(): boolean {
+    return this.songMode
+  }
+
+  // Set the tempo in BPM
+  setTempo(bpm: number): void {
+    if (bpm > 0) {
+      this.tempo = bpm
+    }
+  }
+
+  // Playback options applied to every triggered slice (volume, stretch, pitch)
+  setVoiceOptions(options: PlaybackOptions): void {
+    this.voiceOptions = options
+  }
+
+  // Set the global swing (0-100%)
+  setSwing(swing: number): void {
+    this.swing = Math.min(100, Math.max(0, swing))
+  }
+
+  // Get the global swing
+  getSwing(): number {
+    return this.swing
+  }
+
+  // Whether the sequencer is running
+  isRunning(): boolean {
+    return this.running
+  }
+
+  // Subscribe to the audible position (null when stopped); returns an unsubscribe function
+  addStepListener(listener: (position: SequencerPosition | null) => void): () => void {
+    this.stepListeners.add(listener)
+    return () => {
+      this.stepListeners.delete(listener)
+    }
+  }
+
+  // Start from the first step
+  async start(): Promise<void> {
+    if (this.running) return
+
+    await audioEngine.initialize()
+
+    this.running = true
+    this.nextStep = 0
+    if (this.songMode) {
+      this.enterSongEntry(0)
+    } else if (this.queuedPattern !== null) {
+      this.activePattern = this.queuedPattern
+      this.queuedPattern = null
+    }
+    this.nextStepTime = audioEngine.getCurrentTime() + START_DELAY + getStepDuration(this.tempo) * MAX_STEP_NUDGE
+    this.schedule()
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_TICK_INTERVAL * 1000)
+  }
+
+  // Stop and cancel any hits that have not started yet
+  stop(): void {
+    if (!this.running) return
+
+    this.running = false
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    const now = audioEngine.getCurrentTime()
+    this.scheduledPlaybacks.forEach(({ playbackId, time }) => {
+      if (time > now) {
+        audioEngine.stopPlayback(playbackId)
+      }
+    })
+    this.scheduledPlaybacks = []
+
+    this.stepTimeouts.forEach((timeout) => clearTimeout(timeout))
+    this.stepTimeouts.clear()
+    this.emitStep(null)
+  }
+
+  // Hand every step that falls inside the lookahead window to Web Audio
+  private schedule(): void {
+    if (!this.running) return
+
+    const now = audioEngine.getCurrentTime()
+
+    // Drop hits that have already started
+    this.scheduledPlaybacks = this.scheduledPlaybacks.filter(({ time }) => time > now)
+
+    // If the main thread stalled, skip ahead instead of firing a burst of late steps
+    if (this.nextStepTime < now) {
+      this.nextStepTime = now + START_DELAY
+    }
+
+    // Steps are handed over early enough for a negative nudge to still land on time
+    while (this.nextStepTime - getStepDuration(this.tempo) * MAX_STEP_NUDGE < now + SCHEDULE_LOOKAHEAD) {
+      const step = this.nextStep
+      const time = this.nextStepTime
+      const stepDuration = getStepDuration(this.tempo)
+      const pattern = this.getPattern()
+
+      getStepHits(pattern, step, time, stepDuration, this.voiceOptions, this.swing).forEach((hit) => {
+        const playbackId = audioEngine.playSlice(hit.sliceId, { ...hit.options, when: hit.time })
+        if (playbackId) {
+          this.scheduledPlaybacks.push({ playbackId, time: hit.time })
+        }
+      })
+
+      this.scheduleStepNotification(
+        {
+          step,
+          pattern: this.activePattern,
+          queuedPattern: this.queuedPattern,
+          songEntry: this.songMode && this.songEntry >= 0 ? this.songEntry : null,
+        },
+        time,
+        now,
+      )
+
+      this.nextStepTime += stepDuration
+      this.nextStep = step + 1
+
+      if (this.nextStep >= pattern.length) {
+        this.nextStep = 0
+        this.advancePattern()
+      } else if (this.nextStep % BAR_STEPS === 0 && this.queuedPattern !== null && !this.songMode) {
+        this.nextStep = 0
+        this.activePattern = this.queuedPattern
+        this.queuedPattern = null
+      }
+    }
+  }
+
+  // Pick the pattern that follows the one that just ended
+  private advancePattern(): void {
+    if (this.songMode && this.arrangement.length > 0) {
+      if (this.songEntry < 0) {
+        this.enterSongEntry(0)
+        return
+      }
+
+      this.songRepeat++
+      const entry = this.arrangement[this.songEntry]
+      if (!entry || this.songRepeat >= Math.max(1, entry.repeats)) {
+        // The arrangement loops back to the top once it reaches the end
+        this.enterSongEntry((this.songEntry + 1) % this.arrangement.length)
+      }
+      return
+    }
+
+    if (this.queuedPattern !== null) {
+      this.activePattern = this.queuedPattern
+      this.queuedPattern = null
+    }
+  }
+
+  private enterSongEntry(index: number): void {
+    const entry = this.arrangement[index]
+    if (!entry) {
+      this.songEntry = -1
+      return
+    }
+    this.songEntry = index
+    this.songRepeat = 0
+    if (entry.pattern >= 0 && entry.pattern < this.patterns.length) {
+      this.activePattern = entry.pattern
+    }
+  }
+
+  // Tell listeners about a step when it becomes audible
+  private scheduleStepNotification(position: SequencerPosition, time: number, now: number): void {
+    const timeout = setTimeout(
+      () => {
+        this.stepTimeouts.delete(timeout)
+        this.emitStep(position)
+      },
+      Math.max(0, (time - now) * 1000),
+    )
+    this.stepTimeouts.add(timeout)
+  }
+
+  private emitStep(position: SequencerPosition | null): void {
+    this.stepListeners.forEach((listener) => {
+      try {
+        listener(position)
+      } catch (error) {
+        console.error("Sequencer step listener failed:", error)
+      }
+    })
+  }
+}
+
+// Create a singleton instance
+export const sequencerEngine = new SequencerEngine()
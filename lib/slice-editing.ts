@@ -0,0 +1,168 @@
+/**
+ * Slice Editing - Moves, splits, merges, deletes and renames slices, with snapping
+ *
+ * Slice ids double as pad numbers, so edits keep the ids of the slices they leave in place and
+ * give new slices the lowest free id.
+ */
+
+import type { AudioSection, AudioSlice } from "./audio-engine"
+import { nearestZeroCrossing } from "./dsp"
+
+export type SnapMode = "off" | "zero-crossing" | "onset" | "beat"
+
+export interface SnapTargets {
+  samples?: Float32Array // audio searched for zero crossings
+  onsets?: number[] // in samples
+  beats?: number[] // in samples
+}
+
+// How far (seconds) a boundary may move to reach a snap target
+const SNAP_DISTANCE: Record<Exclude<SnapMode, "off">, number> = {
+  "zero-crossing": 0.01,
+  onset: 0.1,
+  beat: 0.1,
+}
+
+// Shortest slice an edit may leave, in seconds
+export const MIN_SLICE_DURATION = 0.01
+
+// Nearest of the sorted positions within maxDistance, if any
+function nearestPosition(positions: number[], position: number, maxDistance: number): number | null {
+  let best: number | null = null
+  for (const candidate of positions) {
+    const distance = Math.abs(candidate - position)
+    if (distance <= maxDistance && (best === null || distance < Math.abs(best - position))) best = candidate
+  }
+  return best
+}
+
+// Snap a sample position to the nearest target of the mode; unchanged when none is close enough
+export function snapSample(position: number, mode: SnapMode, targets: SnapTargets, sampleRate: number): number {
+  if (mode === "off") return Math.round(position)
+
+  const maxDistance = SNAP_DISTANCE[mode] * sampleRate
+  if (mode === "zero-crossing") {
+    return targets.samples ? nearestZeroCrossing(targets.samples, position, Math.round(maxDistance)) : Math.round(position)
+  }
+  const positions = (mode === "onset" ? targets.onsets : targets.beats) ?? []
+  return nearestPosition(positions, position, maxDistance) ?? Math.round(position)
+}
+
+// Move every boundary within maxDistance samples to its nearest zero crossing. Shared boundaries
+// move together, and the ends of the file stay put.
+export function snapSlicesToZeroCrossings(slices: AudioSlice[], samples: Float32Array, maxDistance: number): AudioSlice[] {
+  const snapped = new Map<number, number>()
+  const snap = (position: number) => {
+    if (position <= 0 || position >= samples.length) return position
+    if (!snapped.has(position)) snapped.set(position, nearestZeroCrossing(samples, position, maxDistance))
+    return snapped.get(position)!
+  }
+
+  return slices.map((slice) => {
+    const startSample = snap(slice.startSample)
+    const endSample = snap(slice.endSample)
+    return endSample > startSample ? { ...slice, startSample, endSample } : slice
+  })
+}
+
+// Lowest id not used by any slice
+export function getFreeSliceId(slices: AudioSlice[]): number {
+  const used = new Set(slices.map((slice) => slice.id))
+  let id = 0
+  while (used.has(id)) id++
+  return id
+}
+
+// A slice over a new range; its key described the old range, so it is dropped
+function withRange(slice: AudioSlice, startSample: number, endSample: number): AudioSlice {
+  const next = { ...slice, startSample, endSample }
+  delete next.key
+  return next
+}
+
+function sortSlices(slices: AudioSlice[]): AudioSlice[] {
+  return [...slices].sort((a, b) => a.startSample - b.startSample)
+}
+
+/**
+ * Move a slice's boundaries. A neighbour that shared a boundary (or would now overlap) follows
+ * it, and no slice is left shorter than minLength samples.
+ */
+export function moveSliceBoundaries(
+  slices: AudioSlice[],
+  id: number,
+  startSample: number,
+  endSample: number,
+  options: { minLength: number; length: number } // length of the buffer in samples
+): AudioSlice[] {
+  const sorted = sortSlices(slices)
+  const index = sorted.findIndex((slice) => slice.id === id)
+  if (index < 0) return slices
+
+  const { minLength, length } = options
+  const slice = sorted[index]
+  const previous = sorted[index - 1]
+  const next = sorted[index + 1]
+
+  const start = Math.round(Math.max(previous ? previous.startSample + minLength : 0, Math.min(startSample, endSample - minLength)))
+  const end = Math.round(Math.min(next ? next.endSample - minLength : length, Math.max(endSample, start + minLength)))
+  if (start === slice.startSample && end === slice.endSample) return slices
+
+  const result = [...sorted]
+  result[index] = withRange(slice, start, end)
+  if (previous && (previous.endSample === slice.startSample || previous.endSample > start)) {
+    result[index - 1] = withRange(previous, previous.startSample, start)
+  }
+  if (next && (next.startSample === slice.endSample || next.startSample < end)) {
+    result[index + 1] = withRange(next, end, next.endSample)
+  }
+  return result
+}
+
+// Split the slice under `position` in two; the second half is a new, unclassified slice
+export function splitSlice(slices: AudioSlice[], position: number, minLength: number): AudioSlice[] {
+  const sorted = sortSlices(slices)
+  const index = sorted.findIndex((slice) => position >= slice.startSample && position < slice.endSample)
+  if (index < 0) return slices
+
+  const slice = sorted[index]
+  const at = Math.round(position)
+  if (at - slice.startSample < minLength || slice.endSample - at < minLength) return slices
+
+  const second = withRange(slice, at, slice.endSample)
+  delete second.drumClass
+  const result = [...sorted]
+  result.splice(index, 1, withRange(slice, slice.startSample, at), {
+    ...second,
+    id: getFreeSliceId(slices),
+    name: `${slice.name} (2)`,
+  })
+  return result
+}
+
+// Join a slice with the one after it; the merged slice keeps the first slice's id and name
+export function mergeWithNext(slices: AudioSlice[], id: number): AudioSlice[] {
+  const sorted = sortSlices(slices)
+  const index = sorted.findIndex((slice) => slice.id === id)
+  if (index < 0 || index === sorted.length - 1) return slices
+
+  const result = [...sorted]
+  result.splice(index, 2, withRange(sorted[index], sorted[index].startSample, sorted[index + 1].endSample))
+  return result
+}
+
+export function deleteSlice(slices: AudioSlice[], id: number): AudioSlice[] {
+  return slices.filter((slice) => slice.id !== id)
+}
+
+export function renameSlice(slices: AudioSlice[], id: number, name: string): AudioSlice[] {
+  return slices.map((slice) => (slice.id === id ? { ...slice, name } : slice))
+}
+
+// Give each section the edited slices that belong to it
+export function assignSlicesToSections(sections: AudioSection[], slices: AudioSlice[]): AudioSection[] {
+  return sections.map((section) => ({
+    ...section,
+    slices: slices.filter((slice) => slice.sectionId === section.id),
+  }))
+}
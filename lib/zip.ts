@@ -0,0 +1,183 @@
+/**
+ * Zip - Minimal ZIP reader/writer (stored entries, no compression)
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+  modified?: Date
+}
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+// CRC-32 as used by ZIP and PNG
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// DOS date/time fields used in ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  )
+}
+
+// Build a ZIP archive from the given entries
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+    const { time, date } = toDosDateTime(entry.modified || new Date())
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    // Central directory record
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true) // version made by
+    central.setUint16(6, 20, true) // version needed
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint16(30, 0, true) // extra length
+    central.setUint16(32, 0, true) // comment length
+    central.setUint16(34, 0, true) // disk number
+    central.setUint16(36, 0, true) // internal attributes
+    central.setUint32(38, 0, true) // external attributes
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + size
+  })
+
+  const centralSize = centralDirectory.reduce((total, part) => total + part.length, 0)
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(4, 0, true)
+  end.setUint16(6, 0, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+  end.setUint16(20, 0, true)
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], {
+    type: "application/zip",
+  })
+}
+
+// Read a ZIP archive written with stored (uncompressed) entries, such as those from createZip
+export function readZip(data: ArrayBuffer | Uint8Array): ZipEntry[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  // The end of central directory record sits at the end, before an optional comment
+  let endOffset = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("Not a ZIP archive")
+  }
+
+  const count = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP central directory")
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const time = view.getUint16(offset + 12, true)
+    const date = view.getUint16(offset + 14, true)
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+
+    if (method !== 0) {
+      throw new Error(`Unsupported compression for ${name}`)
+    }
+
+    const localNameLength = view.getUint16(localOffset + 26, true)
+    const localExtraLength = view.getUint16(localOffset + 28, true)
+    const start = localOffset + 30 + localNameLength + localExtraLength
+    const entryData = bytes.slice(start, start + size)
+
+    if (crc32(entryData) !== crc) {
+      throw new Error(`CRC mismatch for ${name}`)
+    }
+
+    entries.push({ name, data: entryData, modified: fromDosDateTime(time, date) })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
@@ -0,0 +1,62 @@
+/**
+ * Bitcrusher processor - bit-depth quantization with sample-and-hold downsampling
+ */
+
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "bits",
+        defaultValue: 8,
+        minValue: 1,
+        maxValue: 16,
+        automationRate: "k-rate",
+      },
+      {
+        name: "downsample",
+        defaultValue: 1,
+        minValue: 1,
+        maxValue: 64,
+        automationRate: "k-rate",
+      },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.held = []
+    this.phase = []
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const levels = Math.pow(2, Math.round(parameters.bits[0]) - 1)
+    const step = 1 / Math.max(1, parameters.downsample[0])
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inputChannel = input.length > 0 ? input[Math.min(channel, input.length - 1)] : null
+      const outputChannel = output[channel]
+      let held = this.held[channel] || 0
+      let phase = this.phase[channel] === undefined ? 1 : this.phase[channel]
+
+      for (let i = 0; i < outputChannel.length; i++) {
+        // Take a new sample each time the phase wraps, hold it in between
+        phase += step
+        if (phase >= 1) {
+          phase -= 1
+          const sample = inputChannel ? inputChannel[i] : 0
+          held = Math.round(sample * levels) / levels
+        }
+        outputChannel[i] = held
+      }
+
+      this.held[channel] = held
+      this.phase[channel] = phase
+    }
+
+    return true
+  }
+}
+
+registerProcessor("bitcrusher-processor", BitcrusherProcessor)
@@ -0,0 +1,210 @@
+/**
+ * Time-stretch processor - streaming phase-vocoder pitch shifter
+ *
+ * The engine reads the buffer at the tempo ratio (AudioBufferSourceNode.playbackRate)
+ * and this processor moves the pitch back by `pitchRatio`, so tempo and pitch can be
+ * set independently. Latency is FFT_SIZE - HOP_SIZE samples.
+ */
+
+const FFT_SIZE = 2048
+const OVERSAMPLING = 4
+const HOP_SIZE = FFT_SIZE / OVERSAMPLING
+const HALF_SIZE = FFT_SIZE / 2
+const LATENCY = FFT_SIZE - HOP_SIZE
+const EXPECTED_PHASE_ADVANCE = (2 * Math.PI * HOP_SIZE) / FFT_SIZE
+
+const hannWindow = new Float32Array(FFT_SIZE)
+for (let n = 0; n < FFT_SIZE; n++) {
+  hannWindow[n] = 0.5 * (1 - Math.cos((2 * Math.PI * n) / FFT_SIZE))
+}
+
+// In-place iterative radix-2 FFT; sign -1 = forward, +1 = inverse (unnormalised)
+function fft(re, im, sign) {
+  const n = re.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      let tmp = re[i]
+      re[i] = re[j]
+      re[j] = tmp
+      tmp = im[i]
+      im[i] = im[j]
+      im[j] = tmp
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (sign * 2 * Math.PI) / size
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    const half = size >> 1
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < half; k++) {
+        const a = start + k
+        const b = a + half
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+
+        const nextRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextRe
+      }
+    }
+  }
+}
+
+class ChannelState {
+  constructor() {
+    this.inputFifo = new Float32Array(FFT_SIZE)
+    this.outputFifo = new Float32Array(FFT_SIZE)
+    this.outputAccum = new Float32Array(2 * FFT_SIZE)
+    this.lastPhase = new Float32Array(HALF_SIZE + 1)
+    this.sumPhase = new Float32Array(HALF_SIZE + 1)
+    this.re = new Float32Array(FFT_SIZE)
+    this.im = new Float32Array(FFT_SIZE)
+    this.analysisMagnitude = new Float32Array(HALF_SIZE + 1)
+    this.analysisFrequency = new Float32Array(HALF_SIZE + 1)
+    this.synthesisMagnitude = new Float32Array(HALF_SIZE + 1)
+    this.synthesisFrequency = new Float32Array(HALF_SIZE + 1)
+    this.rover = LATENCY
+  }
+
+  processSample(sample, pitchRatio) {
+    this.inputFifo[this.rover] = sample
+    const output = this.outputFifo[this.rover - LATENCY]
+    this.rover++
+
+    if (this.rover >= FFT_SIZE) {
+      this.rover = LATENCY
+      this.processFrame(pitchRatio)
+    }
+
+    return output
+  }
+
+  processFrame(pitchRatio) {
+    const { re, im } = this
+
+    for (let k = 0; k < FFT_SIZE; k++) {
+      re[k] = this.inputFifo[k] * hannWindow[k]
+      im[k] = 0
+    }
+    fft(re, im, -1)
+
+    // Analysis: true frequency of each bin from its phase advance
+    for (let k = 0; k <= HALF_SIZE; k++) {
+      const magnitude = 2 * Math.sqrt(re[k] * re[k] + im[k] * im[k])
+      const phase = Math.atan2(im[k], re[k])
+
+      let delta = phase - this.lastPhase[k]
+      this.lastPhase[k] = phase
+      delta -= k * EXPECTED_PHASE_ADVANCE
+
+      // Wrap into -PI..PI
+      let wraps = Math.trunc(delta / Math.PI)
+      if (wraps >= 0) wraps += wraps & 1
+      else wraps -= wraps & 1
+      delta -= Math.PI * wraps
+
+      this.analysisMagnitude[k] = magnitude
+      this.analysisFrequency[k] = k + (OVERSAMPLING * delta) / (2 * Math.PI)
+    }
+
+    // Shift bins by the pitch ratio
+    this.synthesisMagnitude.fill(0)
+    this.synthesisFrequency.fill(0)
+    for (let k = 0; k <= HALF_SIZE; k++) {
+      const index = Math.round(k * pitchRatio)
+      if (index > HALF_SIZE) break
+      this.synthesisMagnitude[index] += this.analysisMagnitude[k]
+      this.synthesisFrequency[index] = this.analysisFrequency[k] * pitchRatio
+    }
+
+    // Synthesis: accumulate phase from the shifted frequencies
+    for (let k = 0; k <= HALF_SIZE; k++) {
+      const deviation = this.synthesisFrequency[k] - k
+      this.sumPhase[k] += (2 * Math.PI * deviation) / OVERSAMPLING + k * EXPECTED_PHASE_ADVANCE
+      const phase = this.sumPhase[k]
+      re[k] = this.synthesisMagnitude[k] * Math.cos(phase)
+      im[k] = this.synthesisMagnitude[k] * Math.sin(phase)
+    }
+    for (let k = HALF_SIZE + 1; k < FFT_SIZE; k++) {
+      re[k] = 0
+      im[k] = 0
+    }
+    fft(re, im, 1)
+
+    // Overlap-add
+    const scale = 2 / (HALF_SIZE * OVERSAMPLING)
+    for (let k = 0; k < FFT_SIZE; k++) {
+      this.outputAccum[k] += hannWindow[k] * re[k] * scale
+    }
+    this.outputFifo.set(this.outputAccum.subarray(0, HOP_SIZE))
+    this.outputAccum.copyWithin(0, HOP_SIZE)
+    this.outputAccum.fill(0, 2 * FFT_SIZE - HOP_SIZE)
+    this.inputFifo.copyWithin(0, HOP_SIZE, FFT_SIZE)
+  }
+}
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "pitchRatio",
+        defaultValue: 1,
+        minValue: 0.25,
+        maxValue: 4,
+        automationRate: "k-rate",
+      },
+    ]
+  }
+
+  constructor() {
+    super()
+    this.channels = []
+    this.tailRemaining = LATENCY
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0]
+    const output = outputs[0]
+    const pitchRatio = parameters.pitchRatio[0]
+
+    // Once the source has finished, flush the vocoder latency and then let the node go idle
+    if (input.length === 0) {
+      if (this.channels.length === 0 || this.tailRemaining <= 0) return false
+      this.tailRemaining -= output[0].length
+    } else {
+      this.tailRemaining = LATENCY
+    }
+
+    for (let channel = 0; channel < output.length; channel++) {
+      if (!this.channels[channel]) {
+        this.channels[channel] = new ChannelState()
+      }
+      const state = this.channels[channel]
+      const inputChannel = input.length > 0 ? input[Math.min(channel, input.length - 1)] : null
+      const outputChannel = output[channel]
+
+      for (let i = 0; i < outputChannel.length; i++) {
+        outputChannel[i] = state.processSample(inputChannel ? inputChannel[i] : 0, pitchRatio)
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor("time-stretch-processor", TimeStretchProcessor)
@@ -1,6 +1,6 @@
 /// <reference lib="webworker" />
 
-import { AudioAnalysisCore } from '../lib/audio-analysis-core'
+import { AnalysisCancelledError, AudioAnalysisCore } from '../lib/audio-analysis-core'
 
 interface WorkerRequest {
   id: number
@@ -11,14 +11,26 @@ interface WorkerRequest {
 type WorkerCommand =
   | 'INIT'
   | 'DETECT_ONSETS'
+  | 'ONSET_FUNCTION'
   | 'DETECT_BPM'
+  | 'DETECT_BEATS'
+  | 'DETECT_KEY'
+  | 'DETECT_CHORDS'
+  | 'CLASSIFY_DRUMS'
   | 'DETECT_STRUCTURE'
+  | 'DETECT_VOCAL_PHRASES'
+  | 'SPECTROGRAM'
+  | 'CANCEL'
   | 'CLEANUP'
 
 const ctx: DedicatedWorkerGlobalScope = self as any
 
 let core: AudioAnalysisCore | null = null
 
+// Jobs currently running, and the ones the client has asked to stop
+const activeJobs = new Set<number>()
+const cancelledJobs = new Set<number>()
+
 async function ensureCore(): Promise<AudioAnalysisCore> {
   if (!core) {
     core = new AudioAnalysisCore()
@@ -49,6 +61,14 @@ function createMonoBuffer(samples: Float32Array, sampleRate: number, duration?:
 ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
   const { id, command, payload } = event.data
 
+  // CANCEL only flags the job; the running job stops at its next chunk boundary
+  if (command === 'CANCEL') {
+    if (activeJobs.has(payload?.id)) {
+      cancelledJobs.add(payload.id)
+    }
+    return
+  }
+
   const postResult = (result: any) =>
     postMessageToClient({ id, event: 'result', payload: result })
   const postError = (error: any) =>
@@ -59,7 +79,9 @@ ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
     })
   const postProgress = (progress: number) =>
     postMessageToClient({ id, event: 'progress', payload: { progress } })
+  const isCancelled = () => cancelledJobs.has(id)
 
+  activeJobs.add(id)
   try {
     switch (command) {
       case 'INIT': {
@@ -73,7 +95,28 @@ ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         const result = await instance.detectOnsets(buffer, {
           sensitivity: payload.options?.sensitivity,
           minDistance: payload.options?.minDistance,
+          method: payload.options?.method,
+          frameSize: payload.options?.frameSize,
+          hopSize: payload.options?.hopSize,
+          preEmphasis: payload.options?.preEmphasis,
+          adaptiveThreshold: payload.options?.adaptiveThreshold,
+          backtrack: payload.options?.backtrack,
+          onProgress: postProgress,
+          isCancelled,
+        })
+        postResult(result)
+        break
+      }
+      case 'ONSET_FUNCTION': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate)
+        const result = await instance.computeOnsetFunction(buffer, {
+          method: payload.options?.method,
+          frameSize: payload.options?.frameSize,
+          hopSize: payload.options?.hopSize,
+          preEmphasis: payload.options?.preEmphasis,
           onProgress: postProgress,
+          isCancelled,
         })
         postResult(result)
         break
@@ -85,6 +128,46 @@ ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         postResult(result)
         break
       }
+      case 'DETECT_BEATS': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.detectBeats(buffer, {
+          beatsPerBar: payload.options?.beatsPerBar,
+          onProgress: postProgress,
+        })
+        postResult(result)
+        break
+      }
+      case 'DETECT_KEY': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.detectKey(buffer, {
+          ranges: payload.options?.ranges,
+          onProgress: postProgress,
+        })
+        postResult(result)
+        break
+      }
+      case 'DETECT_CHORDS': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.detectChords(buffer, {
+          segmentDuration: payload.options?.segmentDuration,
+          onProgress: postProgress,
+        })
+        postResult(result)
+        break
+      }
+      case 'CLASSIFY_DRUMS': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.classifyDrumHits(buffer, {
+          ranges: payload.options?.ranges,
+          onProgress: postProgress,
+        })
+        postResult(result)
+        break
+      }
       case 'DETECT_STRUCTURE': {
         const instance = await ensureCore()
         const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
@@ -92,6 +175,33 @@ ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
           maxSections: payload.options?.maxSections,
           minSectionDuration: payload.options?.minSectionDuration,
           onProgress: postProgress,
+          isCancelled,
+        })
+        postResult(result)
+        break
+      }
+      case 'DETECT_VOCAL_PHRASES': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.detectVocalPhrases(buffer, {
+          threshold: payload.options?.threshold,
+          minSilence: payload.options?.minSilence,
+          minPhraseDuration: payload.options?.minPhraseDuration,
+          maxPhraseDuration: payload.options?.maxPhraseDuration,
+          onProgress: postProgress,
+          isCancelled,
+        })
+        postResult(result)
+        break
+      }
+      case 'SPECTROGRAM': {
+        const instance = await ensureCore()
+        const buffer = createMonoBuffer(payload.samples, payload.sampleRate, payload.duration)
+        const result = await instance.computeSpectrogram(buffer, {
+          columns: payload.options?.columns,
+          bands: payload.options?.bands,
+          onProgress: postProgress,
+          isCancelled,
         })
         postResult(result)
         break
@@ -108,7 +218,14 @@ ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         throw new Error(`Unknown worker command: ${command}`)
     }
   } catch (error) {
-    postError(error)
+    if (error instanceof AnalysisCancelledError) {
+      postMessageToClient({ id, event: 'cancelled' })
+    } else {
+      postError(error)
+    }
+  } finally {
+    activeJobs.delete(id)
+    cancelledJobs.delete(id)
   }
 }
 